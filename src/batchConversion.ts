@@ -1,7 +1,35 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { detectFileType } from './utils';
+import { getOutputExtension, getOutputPath } from './formatRegistry';
+import { formatRegistry } from './formats';
+import { escapeHtml } from './formats/table';
+import { EXCEL_FLAVORS, ExcelFlavor } from './formats/excel';
+import {
+  ConvertFileOptions,
+  getConversionOutputPaths,
+  runCombineFiles,
+  runConversion,
+} from './conversion';
+import {
+  getConversionSettings,
+  getDateSettings,
+  getDialectOverrides,
+  getInvalidRecordPolicy,
+  getJsonRecordPath,
+  getSchemaForFile,
+  useWorkerThreads,
+} from './settings';
+import { CancellationError } from './workerPool';
+import { describeDelimiter } from './dialect';
+import { Dataset, withRows } from './dataset';
+import {
+  applyInvalidRecordPolicy,
+  getQuarantinePath,
+  InvalidRecordPolicy,
+  QUARANTINE_SUFFIX,
+  readSchema,
+} from './validation';
 import {
   selectYamlTransformFile,
   applyYamlTransformations,
@@ -11,14 +39,32 @@ import {
 interface FileConversionInfo {
   filePath: string;
   fileName: string;
-  fileType: 'csv' | 'json' | 'excel' | 'unknown';
+  fileType: string;
   selected: boolean;
 }
 
 interface ConversionOptions {
-  targetFormat: 'csv' | 'json' | 'excel';
+  targetFormat: string;
   preserveTypes: boolean;
   overwriteFiles: boolean;
+  recordPath: string;
+  /** Convert the first sheet of workbooks, or every sheet */
+  sheetPolicy: 'first' | 'all';
+  /** Delimiter of delimited source files; empty to sniff each file */
+  delimiter: string;
+  /**
+   * Write every file into one file named after the folder, with a sheet or
+   * table per file; for target formats that hold several sheets
+   */
+  combine: boolean;
+  /** File type of written workbooks */
+  excelFlavor: ExcelFlavor;
+  /** Format of written dates; empty to keep them as written */
+  dateFormat: string;
+  /** Time zone of written times; empty to keep their offset */
+  timeZone: string;
+  /** What happens to records that don't match the schema of their file */
+  invalidRecords: InvalidRecordPolicy;
   customTransformation?: string;
   yamlTransformationPath?: string;
 }
@@ -36,7 +82,11 @@ export class BatchConversionProvider {
 
     // First, let user select target format
     const targetFormat = await vscode.window.showQuickPick(
-      ['JSON', 'CSV', 'Excel (.xlsx)'],
+      formatRegistry.writable().map(format => ({
+        label: format.displayName,
+        description: format.extensions[0],
+        formatId: format.id,
+      })),
       {
         placeHolder: 'Select target format for conversion',
       }
@@ -46,19 +96,20 @@ export class BatchConversionProvider {
       return; // User cancelled
     }
 
-    // Convert display format to internal format
-    const formatMapping: Record<string, 'json' | 'csv' | 'excel'> = {
-      JSON: 'json',
-      CSV: 'csv',
-      'Excel (.xlsx)': 'excel',
-    };
-
     const conversionOptions: ConversionOptions = {
-      targetFormat: formatMapping[targetFormat],
+      targetFormat: targetFormat.formatId,
       preserveTypes: vscode.workspace
         .getConfiguration('dataconverter')
         .get('preserveDataTypes', true),
       overwriteFiles: false,
+      recordPath: getJsonRecordPath(),
+      sheetPolicy: getConversionSettings().allSheets ? 'all' : 'first',
+      delimiter: getDialectOverrides()?.delimiter ?? '',
+      combine: false,
+      excelFlavor: getConversionSettings().write.excelFlavor ?? 'xlsx',
+      dateFormat: getDateSettings().format ?? '',
+      timeZone: getDateSettings().timeZone ?? '',
+      invalidRecords: getInvalidRecordPolicy(),
     };
 
     // Show custom conversion dialog
@@ -106,7 +157,11 @@ export class BatchConversionProvider {
             }
           }
 
-          await this.convertFiles(folderUri, selectedFiles, options);
+          if (options.combine) {
+            await this.combineFiles(folderUri, selectedFiles, options);
+          } else {
+            await this.convertFiles(folderUri, selectedFiles, options);
+          }
 
           // Close panel after conversion
           panel.dispose();
@@ -223,32 +278,48 @@ export class BatchConversionProvider {
 
           try {
             // Skip files that are already in target format
-            if (
-              (file.fileType === 'csv' && options.targetFormat === 'csv') ||
-              (file.fileType === 'json' && options.targetFormat === 'json') ||
-              (file.fileType === 'excel' && options.targetFormat === 'excel')
-            ) {
+            if (file.fileType === options.targetFormat) {
               skipped++;
               continue;
             }
 
             // Generate output filename
-            const fileExt = this.getFileExtension(options.targetFormat);
-            const outputPath = file.filePath.replace(
-              /\.(csv|json|xlsx|xls)$/i,
-              fileExt
+            const targetFormat = formatRegistry.get(options.targetFormat);
+            if (!targetFormat) {
+              throw new Error(`Unknown target format: ${options.targetFormat}`);
+            }
+            const outputPath = getOutputPath(
+              file.filePath,
+              targetFormat,
+              this.getConvertFileOptions(options).write
             );
 
-            // Check if output file already exists
-            if (fs.existsSync(outputPath) && !options.overwriteFiles) {
+            // Check if output files already exist
+            const outputPaths = await getConversionOutputPaths(
+              file.filePath,
+              targetFormat.id,
+              outputPath,
+              options.sheetPolicy === 'all'
+            );
+            if (
+              outputPaths.some(outputFile => fs.existsSync(outputFile)) &&
+              !options.overwriteFiles
+            ) {
               skipped++;
               continue;
             }
 
             // Execute the conversion
-            await this.executeConversion(file, outputPath, options);
+            await this.executeConversion(file, outputPath, options, token);
             completed++;
           } catch (error) {
+            if (error instanceof CancellationError) {
+              vscode.window.showInformationMessage(
+                'File conversion cancelled.'
+              );
+              break;
+            }
+
             failed++;
             const errorMessage = `Error converting ${file.fileName}: ${
               (error as Error).message
@@ -366,6 +437,76 @@ export class BatchConversionProvider {
     );
   }
 
+  /**
+   * Combine the files into one file of the target format named after the
+   * folder, e.g. `fixtures/fixtures.sqlite` with a table per file
+   */
+  private async combineFiles(
+    folderUri: vscode.Uri,
+    files: FileConversionInfo[],
+    options: ConversionOptions
+  ): Promise<void> {
+    const targetFormat = formatRegistry.get(options.targetFormat);
+    if (!targetFormat) {
+      throw new Error(`Unknown target format: ${options.targetFormat}`);
+    }
+    const outputPath = path.join(
+      folderUri.fsPath,
+      path.basename(folderUri.fsPath) +
+        getOutputExtension(
+          targetFormat,
+          this.getConvertFileOptions(options).write
+        )
+    );
+    const outputName = path.basename(outputPath);
+    if (fs.existsSync(outputPath) && !options.overwriteFiles) {
+      vscode.window.showWarningMessage(
+        `${outputName} already exists. Select "Overwrite existing files" to replace its contents.`
+      );
+      return;
+    }
+
+    // Files already in the target format, such as an earlier combined
+    // file, are left out
+    const sources = files.filter(
+      file =>
+        file.filePath !== outputPath && file.fileType !== options.targetFormat
+    );
+    try {
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Combining ${sources.length} files into ${outputName}`,
+          cancellable: true,
+        },
+        (progress, token) =>
+          runCombineFiles(
+            sources.map(file => file.filePath),
+            targetFormat.id,
+            outputPath,
+            {
+              ...this.getConvertFileOptions(options),
+              onProgress: p => progress.report(p),
+            },
+            useWorkerThreads(),
+            token
+          )
+      );
+      result.warnings.forEach(warning => this.logError(warning));
+      vscode.window.showInformationMessage(
+        `Combined ${sources.length} files into ${outputName}`
+      );
+    } catch (error) {
+      if (error instanceof CancellationError) {
+        vscode.window.showInformationMessage('File conversion cancelled.');
+        return;
+      }
+      vscode.window.showErrorMessage(
+        `Error combining files: ${(error as Error).message}`
+      );
+    }
+  }
+
   private formatTime(seconds: number): string {
     if (seconds < 60) {
       return `${seconds.toFixed(1)}s`;
@@ -401,63 +542,113 @@ export class BatchConversionProvider {
   private async executeConversion(
     file: FileConversionInfo,
     outputPath: string,
-    options: ConversionOptions
+    options: ConversionOptions,
+    token?: vscode.CancellationToken
   ): Promise<void> {
-    // This is where we'll execute the actual conversion
-    // We'll use the existing command implementations for simplicity
-
-    // Get command ID based on source and target formats
-    const commandId = this.getConversionCommandId(
-      file.fileType,
-      options.targetFormat
-    );
-
-    if (!commandId) {
+    if (!formatRegistry.canConvert(file.fileType, options.targetFormat)) {
       throw new Error(
         `Unsupported conversion: ${file.fileType} to ${options.targetFormat}`
       );
     }
 
-    // Execute the command using the command API
-    await vscode.commands.executeCommand(
-      commandId,
-      vscode.Uri.file(file.filePath)
-    );
-
-    // Apply YAML transformations if specified
-    if (options.yamlTransformationPath && options.targetFormat === 'json') {
-      // Read the JSON file
-      const jsonContent = fs.readFileSync(outputPath, 'utf8');
-      let jsonData = JSON.parse(jsonContent);
+    // Records are checked against the schema of the file before they are
+    // transformed and written
+    const convertOptions = this.getConvertFileOptions(options);
+    const schemaPath =
+      options.invalidRecords !== 'keep'
+        ? getSchemaForFile(file.filePath)
+        : undefined;
+    if (schemaPath) {
+      const schema = readSchema(schemaPath);
+      const transform = convertOptions.transform;
+      // The schema of a workbook applies to its first sheet, which is
+      // transformed first
+      let validated = false;
+      convertOptions.transform = async (dataset: Dataset) => {
+        const checked = validated
+          ? dataset
+          : applyInvalidRecordPolicy(
+              dataset,
+              schema,
+              options.invalidRecords,
+              getQuarantinePath(outputPath)
+            );
+        validated = true;
+        return transform ? transform(checked) : checked;
+      };
+    }
 
-      // Apply the transformations
-      jsonData = await applyYamlTransformations(
-        jsonData,
-        options.yamlTransformationPath
-      );
+    // Convert with the source format's reader and the target format's
+    // writer
+    const result = await runConversion(
+      file.filePath,
+      options.targetFormat,
+      outputPath,
+      convertOptions,
+      useWorkerThreads(),
+      token
+    );
+    result.warnings.forEach(warning =>
+      this.logError(`Warning for ${file.fileName}: ${warning}`)
+    );
 
-      // Write back to file
-      const indentation = vscode.workspace
-        .getConfiguration('dataconverter')
-        .get('jsonIndentation', 2);
-      fs.writeFileSync(
-        outputPath,
-        JSON.stringify(jsonData, null, indentation),
-        'utf8'
-      );
-    }
     // Apply custom transformation if provided
-    else if (
+    if (
+      !options.yamlTransformationPath &&
       options.customTransformation &&
       options.customTransformation.trim() !== ''
     ) {
-      await this.applyCustomTransformation(
-        outputPath,
-        options.customTransformation
-      );
+      for (const outputFile of result.outputPaths) {
+        await this.applyCustomTransformation(
+          outputFile,
+          options.customTransformation
+        );
+      }
     }
   }
 
+  /**
+   * Build the reader and writer options of the conversions from the
+   * settings and the dialog. YAML transformations are applied to the
+   * dataset between reading and writing, so they work for every target
+   * format.
+   */
+  private getConvertFileOptions(
+    options: ConversionOptions
+  ): ConvertFileOptions {
+    const settings = getConversionSettings();
+    const yamlTransformationPath = options.yamlTransformationPath;
+    return {
+      read: {
+        ...settings.read,
+        preserveTypes: options.preserveTypes,
+        recordPath: options.recordPath || settings.read.recordPath,
+        dialect: options.delimiter
+          ? { delimiter: options.delimiter }
+          : undefined,
+      },
+      write: {
+        ...settings.write,
+        excelFlavor: options.excelFlavor,
+        dates: {
+          format: options.dateFormat || undefined,
+          timeZone: options.timeZone || undefined,
+        },
+      },
+      allSheets: options.sheetPolicy === 'all',
+      transform: yamlTransformationPath
+        ? async dataset =>
+            withRows(
+              dataset,
+              await applyYamlTransformations(
+                dataset.rows,
+                yamlTransformationPath
+              )
+            )
+        : undefined,
+    };
+  }
+
   private async applyCustomTransformation(
     filePath: string,
     transformationScript: string
@@ -498,43 +689,9 @@ export class BatchConversionProvider {
     }
   }
 
-  private getConversionCommandId(
-    sourceFormat: 'csv' | 'json' | 'excel' | 'unknown',
-    targetFormat: 'csv' | 'json' | 'excel'
-  ): string | undefined {
-    if (sourceFormat === 'unknown') {
-      return undefined;
-    }
-
-    const commandMap: Record<string, Record<string, string>> = {
-      csv: {
-        json: 'dataconverter.convertToJSON',
-        excel: 'dataconverter.convertToExcel',
-      },
-      json: {
-        csv: 'dataconverter.convertToCSV',
-        excel: 'dataconverter.convertToExcel',
-      },
-      excel: {
-        csv: 'dataconverter.convertToCSV',
-        json: 'dataconverter.convertToJSON',
-      },
-    };
-
-    return commandMap[sourceFormat]?.[targetFormat];
-  }
-
-  private getFileExtension(format: 'csv' | 'json' | 'excel'): string {
-    switch (format) {
-      case 'csv':
-        return '.csv';
-      case 'json':
-        return '.json';
-      case 'excel':
-        return '.xlsx';
-      default:
-        return '.txt';
-    }
+  private getFileExtension(format: string, excelFlavor?: ExcelFlavor): string {
+    const target = formatRegistry.get(format);
+    return target ? getOutputExtension(target, { excelFlavor }) : '.txt';
   }
 
   private async getConvertibleFiles(
@@ -554,14 +711,18 @@ export class BatchConversionProvider {
         }
 
         const filePath = path.join(folderUri.fsPath, name);
-        const fileType = detectFileType(filePath);
-
-        // Only include convertible files
-        if (fileType !== 'unknown') {
+        const format = formatRegistry.getByPath(filePath);
+
+        // Only include convertible files, leaving out files such as YAML
+        // transformation rules that share an extension with a data format
+        if (
+          format?.capabilities.read &&
+          (!format.isData || format.isData(filePath))
+        ) {
           result.push({
             filePath,
             fileName: name,
-            fileType,
+            fileType: format.id,
             selected: true, // Selected by default
           });
         }
@@ -584,12 +745,12 @@ export class BatchConversionProvider {
         file => `
       <tr>
         <td>
-          <input type="checkbox" class="file-checkbox" data-path="${this.escapeHtml(
+          <input type="checkbox" class="file-checkbox" data-path="${escapeHtml(
             file.filePath
           )}"
                  data-type="${file.fileType}" ${file.selected ? 'checked' : ''}>
         </td>
-        <td>${this.escapeHtml(file.fileName)}</td>
+        <td>${escapeHtml(file.fileName)}</td>
         <td>${this.getFileTypeDisplay(file.fileType)}</td>
       </tr>
     `
@@ -671,6 +832,13 @@ export class BatchConversionProvider {
             margin-top: 6px;
           }
 
+          .record-path,
+          .date-option {
+            width: 100%;
+            font-family: monospace;
+            margin-top: 6px;
+          }
+
           .header-actions {
             display: flex;
             gap: 10px;
@@ -776,6 +944,116 @@ export class BatchConversionProvider {
             </label>
           </div>
 
+          ${
+            formatRegistry.get(options.targetFormat)?.writeSheets
+              ? `<div class="option-row">
+            <label>
+              <input type="checkbox" id="combine" ${
+                options.combine ? 'checked' : ''
+              }>
+              Combine all files into one file named after the folder
+            </label>
+            <div class="hint">Each file becomes a sheet or table of the combined file, named after the file.</div>
+          </div>`
+              : ''
+          }
+
+          <div class="option-row">
+            <label for="sheet-policy">Workbooks with several sheets:</label>
+            <select id="sheet-policy">
+              <option value="first" ${
+                options.sheetPolicy === 'first' ? 'selected' : ''
+              }>Convert the first sheet</option>
+              <option value="all" ${
+                options.sheetPolicy === 'all' ? 'selected' : ''
+              }>Convert all sheets</option>
+            </select>
+            <div class="hint">All sheets are written to one file keyed by sheet name when the target format supports it, and to one file per sheet (<code>&lt;file&gt;.&lt;sheet&gt;${escapeHtml(
+              this.getFileExtension(options.targetFormat, options.excelFlavor)
+            )}</code>) otherwise.</div>
+          </div>
+
+          ${
+            options.targetFormat === 'excel'
+              ? `<div class="option-row">
+            <label for="excel-flavor">Workbook file type:</label>
+            <select id="excel-flavor">
+              ${(Object.keys(EXCEL_FLAVORS) as ExcelFlavor[])
+                .map(
+                  flavor =>
+                    `<option value="${flavor}" ${
+                      flavor === options.excelFlavor ? 'selected' : ''
+                    }>.${flavor} (${escapeHtml(EXCEL_FLAVORS[flavor])})</option>`
+                )
+                .join('')}
+            </select>
+          </div>`
+              : ''
+          }
+
+          <div class="option-row">
+            <label for="invalid-records">Records that don't match their JSON Schema:</label>
+            <select id="invalid-records">
+              <option value="keep" ${
+                options.invalidRecords === 'keep' ? 'selected' : ''
+              }>Convert them anyway</option>
+              <option value="refuse" ${
+                options.invalidRecords === 'refuse' ? 'selected' : ''
+              }>Don't convert the file</option>
+              <option value="quarantine" ${
+                options.invalidRecords === 'quarantine' ? 'selected' : ''
+              }>Leave them out and write them to a quarantine file</option>
+            </select>
+            <div class="hint">Files are validated against the schema set in the <code>dataconverter.schemas</code> setting or their <code>&lt;file&gt;.schema.json</code> file. Quarantined records are written to <code>&lt;output&gt;${QUARANTINE_SUFFIX}</code>.</div>
+          </div>
+
+          <div class="option-row">
+            <label for="delimiter">Delimiter of CSV, TSV and text files:</label>
+            <select id="delimiter">
+              ${['', ',', '\t', ';', '|']
+                .concat(
+                  [',', '\t', ';', '|', ''].includes(options.delimiter)
+                    ? []
+                    : [options.delimiter]
+                )
+                .map(
+                  delimiter =>
+                    `<option value="${escapeHtml(delimiter)}" ${
+                      delimiter === options.delimiter ? 'selected' : ''
+                    }>${
+                      delimiter
+                        ? escapeHtml(describeDelimiter(delimiter))
+                        : 'Detect for each file'
+                    }</option>`
+                )
+                .join('')}
+            </select>
+          </div>
+
+          <div class="option-row">
+            <label for="record-path">JSON record path:</label>
+            <input type="text" id="record-path" class="record-path" value="${escapeHtml(
+              options.recordPath
+            )}">
+            <div class="hint">Where the records are in JSON files: <code>auto</code> for the largest array of objects, a JSONPath such as <code>$.data.items</code> or a JSON Pointer such as <code>/data/items</code>.</div>
+          </div>
+
+          <div class="option-row">
+            <label for="date-format">Date format:</label>
+            <input type="text" id="date-format" class="date-option" value="${escapeHtml(
+              options.dateFormat
+            )}">
+            <div class="hint"><code>iso</code> for ISO 8601 or a pattern such as <code>dd.MM.yyyy HH:mm</code>; empty to write dates as they are.</div>
+          </div>
+
+          <div class="option-row">
+            <label for="time-zone">Time zone:</label>
+            <input type="text" id="time-zone" class="date-option" value="${escapeHtml(
+              options.timeZone
+            )}">
+            <div class="hint">IANA time zone of written times, such as <code>Europe/Berlin</code> or <code>UTC</code>; empty to keep the offset of each time.</div>
+          </div>
+
           <div class="tab-container">
             <div class="tab-buttons">
               <button class="tab-button active" data-tab="js-transform">JavaScript Transform</button>
@@ -824,6 +1102,14 @@ export class BatchConversionProvider {
             const fileCheckboxes = document.querySelectorAll('.file-checkbox');
             const preserveTypesCheckbox = document.getElementById('preserve-types');
             const overwriteFilesCheckbox = document.getElementById('overwrite-files');
+            const recordPathInput = document.getElementById('record-path');
+            const dateFormatInput = document.getElementById('date-format');
+            const timeZoneInput = document.getElementById('time-zone');
+            const sheetPolicySelect = document.getElementById('sheet-policy');
+            const delimiterSelect = document.getElementById('delimiter');
+            const combineCheckbox = document.getElementById('combine');
+            const excelFlavorSelect = document.getElementById('excel-flavor');
+            const invalidRecordsSelect = document.getElementById('invalid-records');
             const customTransformTextarea = document.getElementById('custom-transform');
             const yamlFilePath = document.getElementById('yaml-file-path');
             const selectYamlBtn = document.getElementById('select-yaml-btn');
@@ -894,7 +1180,17 @@ export class BatchConversionProvider {
               const options = {
                 targetFormat: '${options.targetFormat}',
                 preserveTypes: preserveTypesCheckbox.checked,
-                overwriteFiles: overwriteFilesCheckbox.checked
+                overwriteFiles: overwriteFilesCheckbox.checked,
+                recordPath: recordPathInput.value.trim(),
+                dateFormat: dateFormatInput.value.trim(),
+                timeZone: timeZoneInput.value.trim(),
+                sheetPolicy: sheetPolicySelect.value,
+                delimiter: delimiterSelect.value,
+                combine: combineCheckbox ? combineCheckbox.checked : false,
+                excelFlavor: excelFlavorSelect ? excelFlavorSelect.value : '${
+                  options.excelFlavor
+                }',
+                invalidRecords: invalidRecordsSelect.value
               };
 
               // Add transformation based on active tab
@@ -939,24 +1235,6 @@ export class BatchConversionProvider {
   }
 
   private getFileTypeDisplay(fileType: string): string {
-    switch (fileType) {
-      case 'csv':
-        return 'CSV';
-      case 'json':
-        return 'JSON';
-      case 'excel':
-        return 'Excel';
-      default:
-        return 'Unknown';
-    }
-  }
-
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
+    return formatRegistry.get(fileType)?.displayName ?? 'Unknown';
   }
 }
@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataRecord } from './dataset';
+import { isIsoDate } from './dates';
+import {
+  DEFAULT_LARGE_INTEGERS,
+  describeTextNumbers,
+  isExactNumber,
+  LargeIntegers,
+} from './precision';
+
+/**
+ * Type of the text values of a column, inferred from the data or pinned by
+ * the user. Columns of integers too large for JavaScript numbers are
+ * `bigint` and keep their digits as text, or become `BigInt`s when large
+ * integers are read as numbers.
+ */
+export type InferredType =
+  'integer' | 'bigint' | 'decimal' | 'boolean' | 'date' | 'string';
+
+/**
+ * Types of the columns of a file, by column name
+ */
+export type ColumnTypes = Record<string, InferredType>;
+
+export const INFERRED_TYPES: Record<InferredType, string> = {
+  integer: 'Whole numbers',
+  bigint:
+    'Whole numbers too large for JavaScript numbers, kept exactly as text or as BigInts',
+  decimal: 'Numbers with decimals',
+  boolean: 'true or false',
+  date: 'ISO 8601 dates and times, e.g. 2024-01-15',
+  string: 'Text, e.g. ZIP codes or IDs with leading zeros',
+};
+
+/** Suffix of the sidecar file holding the pinned column types of a file */
+export const COLUMN_TYPES_SUFFIX = '.types.json';
+
+const INTEGER = /^-?(0|[1-9]\d*)$/;
+const DECIMAL = /^-?(0|[1-9]\d*|(0|[1-9]\d*)?\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Tests of the text of each type, most specific first. Numbers with
+ * leading zeros, such as ZIP codes, are only text.
+ */
+const MATCHERS: Array<[InferredType, (text: string) => boolean]> = [
+  ['integer', text => INTEGER.test(text) && Number.isSafeInteger(+text)],
+  ['bigint', text => INTEGER.test(text)],
+  ['decimal', text => DECIMAL.test(text)],
+  ['boolean', text => /^(true|false)$/i.test(text)],
+  ['date', isIsoDate],
+  ['string', () => true],
+];
+
+/**
+ * Get the path of the sidecar file holding the pinned column types of a
+ * data file
+ * @param filePath The data file
+ */
+export const getColumnTypesPath = (filePath: string): string =>
+  filePath + COLUMN_TYPES_SUFFIX;
+
+/**
+ * Check whether a file holds the pinned column types of a data file
+ * @param filePath The file
+ */
+export const isColumnTypesFile = (filePath: string): boolean =>
+  filePath.toLowerCase().endsWith(COLUMN_TYPES_SUFFIX);
+
+/**
+ * Read the column types pinned for a data file, if any
+ * @param filePath The data file
+ */
+export function readColumnTypes(filePath: string): ColumnTypes {
+  const typesPath = getColumnTypesPath(filePath);
+  if (!fs.existsSync(typesPath)) {
+    return {};
+  }
+
+  const types = JSON.parse(fs.readFileSync(typesPath, 'utf8'));
+  for (const [column, type] of Object.entries(types ?? {})) {
+    if (!Object.hasOwn(INFERRED_TYPES, type as string)) {
+      throw new Error(
+        `Invalid ${path.basename(typesPath)}: column "${column}" has an unknown type "${type}"`
+      );
+    }
+  }
+  return types ?? {};
+}
+
+/**
+ * Pin the types of columns of a data file, or remove the sidecar file when
+ * no column is pinned
+ * @param filePath The data file
+ * @param types The pinned types
+ */
+export function writeColumnTypes(filePath: string, types: ColumnTypes): void {
+  const typesPath = getColumnTypesPath(filePath);
+  if (Object.keys(types).length === 0) {
+    fs.rmSync(typesPath, { force: true });
+    return;
+  }
+  fs.writeFileSync(typesPath, JSON.stringify(types, null, 2) + '\n');
+}
+
+/**
+ * Score how well the text values of a column match each type: the share
+ * of its non-empty values that are values of the type
+ * @param values The column values
+ */
+export function scoreColumn(values: string[]): Record<InferredType, number> {
+  const filled = values.filter(value => value !== '');
+  return Object.fromEntries(
+    MATCHERS.map(([type, matches]) => [
+      type,
+      filled.length > 0 ? filled.filter(matches).length / filled.length : 1,
+    ])
+  ) as Record<InferredType, number>;
+}
+
+/**
+ * Infer the type of a column: the most specific type that all of its
+ * non-empty values match. Columns without values are text.
+ * @param values The column values
+ */
+export function inferType(values: string[]): InferredType {
+  if (values.every(value => value === '')) {
+    return 'string';
+  }
+  const scores = scoreColumn(values);
+  return MATCHERS.find(([type]) => scores[type] === 1)![0];
+}
+
+const matchesType = (text: string, type: InferredType): boolean =>
+  MATCHERS.find(([matcherType]) => matcherType === type)![1](text);
+
+/**
+ * Check whether a value of a column is a number kept as text because a
+ * JavaScript number would not hold it exactly
+ * @param text The text of the value
+ * @param type The column type
+ * @param largeIntegers How integers beyond ±2^53 are read
+ */
+export function isTextNumber(
+  text: string,
+  type: InferredType,
+  largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS
+): boolean {
+  switch (type) {
+    case 'bigint':
+      return (
+        largeIntegers === 'string' &&
+        matchesType(text, type) &&
+        !Number.isSafeInteger(+text)
+      );
+    case 'decimal':
+      return matchesType(text, type) && !isExactNumber(text);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert the text of a value to its column type. Empty text is `null`,
+ * and text that is not a value of the type is kept as it is, like decimals
+ * that a JavaScript number would not hold exactly.
+ * @param text The text
+ * @param type The column type
+ * @param largeIntegers How integers of `bigint` columns are read
+ */
+export function convertValue(
+  text: string,
+  type: InferredType,
+  largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS
+): unknown {
+  if (text === '') {
+    return null;
+  }
+  if (!matchesType(text, type)) {
+    return text;
+  }
+  switch (type) {
+    case 'integer':
+      return Number(text);
+    case 'bigint':
+      return largeIntegers === 'number' ? BigInt(text) : text;
+    case 'decimal':
+      return isExactNumber(text) ? Number(text) : text;
+    case 'boolean':
+      return text.toLowerCase() === 'true';
+    default:
+      return text;
+  }
+}
+
+/**
+ * Infer the types of the columns of text records, with the pinned types
+ * taking precedence
+ * @param rows The records, holding text values
+ * @param columns The column names
+ * @param pinned Types set by the user
+ */
+export function inferColumnTypes(
+  rows: DataRecord[],
+  columns: string[],
+  pinned: ColumnTypes = {}
+): ColumnTypes {
+  return Object.fromEntries(
+    columns.map(column => [
+      column,
+      pinned[column] ??
+        inferType(
+          rows.map(row => (typeof row[column] === 'string' ? row[column] : ''))
+        ),
+    ])
+  );
+}
+
+/**
+ * Convert the text values of records to the inferred or pinned types of
+ * their columns. Numbers that a JavaScript number would not hold exactly
+ * are kept as text and reported as a warning.
+ * @param rows The records, holding text values
+ * @param columns The column names
+ * @param pinned Types set by the user
+ * @param largeIntegers How integers of `bigint` columns are read
+ * @param onWarning Receives the columns of numbers kept as text
+ */
+export function applyColumnTypes(
+  rows: DataRecord[],
+  columns: string[],
+  pinned: ColumnTypes = {},
+  largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS,
+  onWarning?: (message: string) => void
+): DataRecord[] {
+  const types = inferColumnTypes(rows, columns, pinned);
+  const textColumns = new Set<string>();
+  let textNumbers = 0;
+  const typedRows = rows.map(row => {
+    const typed: DataRecord = { ...row };
+    for (const column of columns) {
+      const text = row[column];
+      if (typeof text === 'string') {
+        typed[column] = convertValue(text, types[column], largeIntegers);
+        if (isTextNumber(text, types[column], largeIntegers)) {
+          textColumns.add(column);
+          textNumbers++;
+        }
+      }
+    }
+    return typed;
+  });
+  if (textNumbers > 0) {
+    onWarning?.(describeTextNumbers(textNumbers, [...textColumns]));
+  }
+  return typedRows;
+}
@@ -0,0 +1,608 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DataFormat,
+  FormatReadOptions,
+  FormatRegistry,
+  FormatWriteOptions,
+  getSheetOutputPath,
+} from './formatRegistry';
+import { formatRegistry, isBuiltinFormat } from './formats';
+import { Dataset, SheetDataset } from './dataset';
+import { readAllSheets } from './formats/excel';
+import { csvFormat, getFileDialect, getOutputDelimiter } from './formats/csv';
+import { formatBytes, getStreamingConverter, StreamOptions } from './streaming';
+import { normalizeDates } from './dates';
+import { ColumnTypes, readColumnTypes } from './columnTypes';
+import {
+  CancellationError,
+  getWorkerPool,
+  RunTaskOptions,
+  TaskProgress,
+  WorkerTask,
+} from './workerPool';
+
+/**
+ * Options for a single file conversion
+ */
+export interface ConvertFileOptions {
+  read: FormatReadOptions;
+  write: FormatWriteOptions;
+  /** Applied to the dataset between reading and writing */
+  transform?: (dataset: Dataset) => Promise<Dataset>;
+  /** Receives progress reports while the file is read and written */
+  onProgress?: (progress: TaskProgress) => void;
+  /** Files at least this large are streamed when the formats support it */
+  streamThresholdBytes?: number;
+  /** Aborts a streaming conversion */
+  signal?: AbortSignal;
+  /**
+   * Convert every sheet of a multi-sheet source: into one file when the
+   * target format can hold several sheets, and one file per sheet otherwise
+   */
+  allSheets?: boolean;
+}
+
+/**
+ * Outcome of a file conversion
+ */
+export interface ConversionResult {
+  /** Problems that did not stop the conversion, e.g. skipped columns */
+  warnings: string[];
+  /** The files that were written */
+  outputPaths: string[];
+}
+
+/**
+ * Convert a file into another registered format by reading it into a
+ * dataset with the source format's reader and writing that dataset with the
+ * target format's writer
+ * @param sourcePath The file to convert
+ * @param targetFormatId The id of the target format
+ * @param outputPath Where to write the converted file
+ * @param options Reader and writer options
+ * @param registry The registry to resolve formats from
+ */
+export async function convertFile(
+  sourcePath: string,
+  targetFormatId: string,
+  outputPath: string,
+  options: ConvertFileOptions,
+  registry: FormatRegistry = formatRegistry
+): Promise<ConversionResult> {
+  const source = registry.getByPath(sourcePath);
+  const target = registry.get(targetFormatId);
+
+  if (!source?.read || !source.capabilities.read) {
+    throw new Error(`Unsupported source file: ${path.basename(sourcePath)}`);
+  }
+  if (!target?.write || !target.capabilities.write) {
+    throw new Error(`Unsupported target format: ${targetFormatId}`);
+  }
+  if (source.id === target.id) {
+    throw new Error(
+      `${path.basename(sourcePath)} is already in ${target.displayName} format`
+    );
+  }
+
+  // Large files are converted chunk by chunk with constant memory. Every
+  // delimited format streams the way CSV does.
+  const streamer =
+    !options.transform &&
+    options.streamThresholdBytes !== undefined &&
+    fs.statSync(sourcePath).size >= options.streamThresholdBytes
+      ? getStreamingConverter(
+          source.delimiter ? csvFormat.id : source.id,
+          target.delimiter ? csvFormat.id : target.id,
+          sourcePath,
+          { recordPath: options.read.recordPath }
+        )
+      : undefined;
+  if (streamer) {
+    const streamOptions: StreamOptions = {
+      preserveTypes: options.read.preserveTypes,
+      largeIntegers: options.read.largeIntegers,
+      recordPath: options.read.recordPath,
+      unflatten: options.read.unflatten,
+      dialect: source.delimiter
+        ? getFileDialect(source, sourcePath, options.read.dialect)
+        : undefined,
+      delimiter: target.delimiter
+        ? getOutputDelimiter(target, options.write)
+        : undefined,
+      indentation: options.write.indentation,
+      flatten: options.write.flatten,
+      dates: options.write.dates,
+      signal: options.signal,
+    };
+    let reportedPercent = 0;
+    const result = await streamer(sourcePath, outputPath, {
+      ...streamOptions,
+      onProgress: (bytesRead, totalBytes) => {
+        const percent = Math.floor((bytesRead / totalBytes) * 100);
+        if (percent > reportedPercent) {
+          options.onProgress?.({
+            message: `${formatBytes(bytesRead)} of ${formatBytes(totalBytes)}`,
+            increment: percent - reportedPercent,
+          });
+          reportedPercent = percent;
+        }
+      },
+    });
+    return { warnings: result.warnings, outputPaths: [outputPath] };
+  }
+
+  const warnings: string[] = [];
+  const readOptions: FormatReadOptions = {
+    ...options.read,
+    onWarning: message => warnings.push(message),
+  };
+  const writeOptions: FormatWriteOptions = {
+    ...options.write,
+    onWarning: message => warnings.push(message),
+  };
+
+  if (
+    source.readSheets &&
+    (options.allSheets || (source.sheetsByDefault && target.writeSheets))
+  ) {
+    options.onProgress?.({ message: `Reading ${path.basename(sourcePath)}` });
+    const sheets = await source.readSheets(sourcePath, readOptions);
+    if (sheets.length > 0) {
+      const outputPaths = await writeSheets(sheets, target, outputPath, {
+        ...options,
+        write: withColumnTypes(
+          writeOptions,
+          target,
+          [sourcePath],
+          sheets.map(sheet => sheet.dataset),
+          options.read
+        ),
+      });
+      return { warnings, outputPaths };
+    }
+  }
+
+  options.onProgress?.({ message: `Reading ${path.basename(sourcePath)}` });
+  let dataset = await source.read(sourcePath, readOptions);
+  if (options.transform) {
+    dataset = await options.transform(dataset);
+  }
+
+  options.onProgress?.({
+    message: `Writing ${path.basename(outputPath)}`,
+    increment: 50,
+  });
+  await target.write(
+    writeDates(dataset, target, writeOptions),
+    outputPath,
+    withColumnTypes(writeOptions, target, [sourcePath], [dataset], options.read)
+  );
+  options.onProgress?.({ increment: 50 });
+
+  return { warnings, outputPaths: [outputPath] };
+}
+
+/**
+ * Rewrite the dates of a dataset in the format and time zone of the writer
+ * options, unless the target format stores dates itself
+ */
+const writeDates = (
+  dataset: Dataset,
+  target: DataFormat,
+  options: FormatWriteOptions
+): Dataset =>
+  target.storesDates ? dataset : normalizeDates(dataset, options.dates);
+
+/**
+ * Add the column types that decide which columns formats that store dates
+ * write as dates: none when types are not preserved, and those pinned for
+ * the source files otherwise
+ * @param options The writer options
+ * @param target The target format
+ * @param sourcePaths The files the datasets were read from
+ * @param datasets The datasets to write
+ * @param read The reader options
+ */
+function withColumnTypes(
+  options: FormatWriteOptions,
+  target: DataFormat,
+  sourcePaths: string[],
+  datasets: Dataset[],
+  read: FormatReadOptions
+): FormatWriteOptions {
+  if (!target.storesDates) {
+    return options;
+  }
+  const columnTypes: ColumnTypes =
+    read.preserveTypes === false
+      ? Object.fromEntries(
+          datasets.flatMap(dataset =>
+            dataset.columns.map(column => [column.name, 'string'])
+          )
+        )
+      : Object.assign({}, ...sourcePaths.map(readColumnTypes));
+  return { ...options, columnTypes };
+}
+
+/**
+ * Convert text, such as the selection of an editor, from one format into
+ * another. The text goes through temporary files so that every reader and
+ * writer can be used.
+ * @param text The text to convert
+ * @param sourceFormatId The id of the format of the text
+ * @param targetFormatId The id of a text-based target format
+ * @param options Reader and writer options
+ * @param registry The registry to resolve formats from
+ * @returns The converted text and the warnings of the conversion
+ */
+export async function convertText(
+  text: string,
+  sourceFormatId: string,
+  targetFormatId: string,
+  options: ConvertFileOptions,
+  registry: FormatRegistry = formatRegistry
+): Promise<{ text: string; warnings: string[] }> {
+  const source = registry.get(sourceFormatId);
+  const target = registry.get(targetFormatId);
+  if (!source || !target) {
+    throw new Error(
+      `Unknown format: ${source ? targetFormatId : sourceFormatId}`
+    );
+  }
+  if (target.binary) {
+    throw new Error(`${target.displayName} files cannot be shown as text`);
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dataconverter-'));
+  try {
+    const sourcePath = path.join(tempDir, 'selection' + source.extensions[0]);
+    const outputPath = path.join(tempDir, 'converted' + target.extensions[0]);
+    fs.writeFileSync(sourcePath, text);
+    const { warnings } = await convertFile(
+      sourcePath,
+      target.id,
+      outputPath,
+      { ...options, streamThresholdBytes: undefined, allSheets: false },
+      registry
+    );
+    return { text: fs.readFileSync(outputPath, 'utf8'), warnings };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Write the sheets of a multi-sheet conversion, into a single file when the
+ * target format supports several sheets and one file per sheet otherwise
+ * @returns The files that were written
+ */
+async function writeSheets(
+  sheets: SheetDataset[],
+  target: DataFormat,
+  outputPath: string,
+  options: ConvertFileOptions
+): Promise<string[]> {
+  if (options.transform) {
+    const transform = options.transform;
+    sheets = await Promise.all(
+      sheets.map(async ({ name, dataset }) => ({
+        name,
+        dataset: await transform(dataset),
+      }))
+    );
+  }
+  sheets = sheets.map(({ name, dataset }) => ({
+    name,
+    dataset: writeDates(dataset, target, options.write),
+  }));
+
+  if (target.writeSheets) {
+    options.onProgress?.({
+      message: `Writing ${path.basename(outputPath)}`,
+      increment: 50,
+    });
+    await target.writeSheets(sheets, outputPath, options.write);
+    options.onProgress?.({ increment: 50 });
+    return [outputPath];
+  }
+
+  const outputPaths: string[] = [];
+  const increment = sheets.length > 0 ? 100 / sheets.length : 100;
+  for (const { name, dataset } of sheets) {
+    const sheetPath = getSheetOutputPath(outputPath, name);
+    options.onProgress?.({ message: `Writing ${path.basename(sheetPath)}` });
+    await target.write!(dataset, sheetPath, options.write);
+    options.onProgress?.({ increment });
+    outputPaths.push(sheetPath);
+  }
+  return outputPaths;
+}
+
+/**
+ * Combine several files into one multi-sheet file, with one sheet per file
+ * named after it, e.g. CSV and JSON files into the worksheets of a workbook
+ * @param sourcePaths The files to combine, in sheet order
+ * @param targetFormatId The id of a target format that can hold several sheets
+ * @param outputPath Where to write the combined file
+ * @param options Reader and writer options
+ * @param registry The registry to resolve formats from
+ */
+export async function combineFiles(
+  sourcePaths: string[],
+  targetFormatId: string,
+  outputPath: string,
+  options: ConvertFileOptions,
+  registry: FormatRegistry = formatRegistry
+): Promise<ConversionResult> {
+  const target = registry.get(targetFormatId);
+  if (!target?.writeSheets) {
+    throw new Error(
+      `${target?.displayName ?? targetFormatId} cannot hold several sheets`
+    );
+  }
+
+  const sheets: SheetDataset[] = [];
+  const warnings: string[] = [];
+  const increment = 50 / Math.max(sourcePaths.length, 1);
+  for (const sourcePath of sourcePaths) {
+    const source = registry.getByPath(sourcePath);
+    if (!source?.read || !source.capabilities.read) {
+      throw new Error(`Unsupported source file: ${path.basename(sourcePath)}`);
+    }
+
+    options.onProgress?.({ message: `Reading ${path.basename(sourcePath)}` });
+    let dataset = await source.read(sourcePath, {
+      ...options.read,
+      onWarning: message =>
+        warnings.push(`${path.basename(sourcePath)}: ${message}`),
+    });
+    if (options.transform) {
+      dataset = await options.transform(dataset);
+    }
+    options.onProgress?.({ increment });
+
+    // Files with the same base name get a numbered sheet name
+    const baseName = path.basename(sourcePath, path.extname(sourcePath));
+    let name = baseName;
+    for (let i = 2; sheets.some(sheet => sheet.name === name); i++) {
+      name = `${baseName} (${i})`;
+    }
+    sheets.push({ name, dataset: writeDates(dataset, target, options.write) });
+  }
+
+  options.onProgress?.({ message: `Writing ${path.basename(outputPath)}` });
+  await target.writeSheets(
+    sheets,
+    outputPath,
+    withColumnTypes(
+      { ...options.write, onWarning: message => warnings.push(message) },
+      target,
+      sourcePaths,
+      sheets.map(sheet => sheet.dataset),
+      options.read
+    )
+  );
+  options.onProgress?.({ increment: 50 });
+
+  return { warnings, outputPaths: [outputPath] };
+}
+
+/**
+ * Combine files into one multi-sheet file, on a worker thread when enabled.
+ * Like {@link runConversion}, formats registered by other extensions are
+ * handled in the extension host.
+ * @param sourcePaths The files to combine, in sheet order
+ * @param targetFormatId The id of a target format that can hold several sheets
+ * @param outputPath Where to write the combined file
+ * @param options Reader and writer options
+ * @param useWorkers Whether to use the worker pool
+ * @param token Cancels the conversion
+ */
+export async function runCombineFiles(
+  sourcePaths: string[],
+  targetFormatId: string,
+  outputPath: string,
+  options: ConvertFileOptions,
+  useWorkers: boolean,
+  token?: RunTaskOptions['token']
+): Promise<ConversionResult> {
+  const { transform, onProgress, signal, ...taskOptions } = options;
+
+  if (
+    useWorkers &&
+    !transform &&
+    isBuiltinFormat(targetFormatId) &&
+    sourcePaths.every(sourcePath => {
+      const format = formatRegistry.getByPath(sourcePath);
+      return format && isBuiltinFormat(format.id);
+    })
+  ) {
+    return runWorkerConversion(
+      {
+        operation: 'combineFiles',
+        sourcePaths,
+        targetFormatId,
+        outputPath,
+        options: taskOptions,
+      },
+      { onProgress, token }
+    );
+  }
+
+  if (token?.isCancellationRequested) {
+    throw new CancellationError();
+  }
+  return combineFiles(sourcePaths, targetFormatId, outputPath, options);
+}
+
+/**
+ * Run a conversion on the worker pool. Cancelling it terminates the worker
+ * in the middle of writing, so the worker writes into a temporary folder
+ * next to the output and the files are only moved into place once the
+ * conversion has finished. Existing files are left alone until then.
+ * @param task The conversion task
+ * @param options Progress and cancellation of the task
+ */
+async function runWorkerConversion(
+  task: Extract<WorkerTask, { outputPath: string; targetFormatId: string }>,
+  options: RunTaskOptions
+): Promise<ConversionResult> {
+  const outputDir = path.dirname(task.outputPath);
+  const tempDir = fs.mkdtempSync(path.join(outputDir, '.dataconverter-'));
+  try {
+    // Keep the file name, which names the table of database outputs
+    const tempOutputPath = path.join(tempDir, path.basename(task.outputPath));
+    if (
+      formatRegistry.get(task.targetFormatId)?.mergesIntoOutput &&
+      fs.existsSync(task.outputPath)
+    ) {
+      fs.copyFileSync(task.outputPath, tempOutputPath);
+    }
+
+    const result = await getWorkerPool().run<ConversionResult>(
+      { ...task, outputPath: tempOutputPath },
+      options
+    );
+    const outputPaths = result.outputPaths.map(tempPath => {
+      const outputPath = path.join(outputDir, path.basename(tempPath));
+      fs.renameSync(tempPath, outputPath);
+      return outputPath;
+    });
+    return { ...result, outputPaths };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Get the files a conversion will write, so callers can check for existing
+ * files before converting
+ * @param sourcePath The file to convert
+ * @param targetFormatId The id of the target format
+ * @param outputPath The output path of the conversion
+ * @param allSheets Whether every sheet of a multi-sheet source is converted
+ */
+export async function getConversionOutputPaths(
+  sourcePath: string,
+  targetFormatId: string,
+  outputPath: string,
+  allSheets = false
+): Promise<string[]> {
+  const source = formatRegistry.getByPath(sourcePath);
+  const target = formatRegistry.get(targetFormatId);
+  if (!allSheets || !source?.listSheets || target?.writeSheets) {
+    return [outputPath];
+  }
+  return (await source.listSheets(sourcePath)).map(name =>
+    getSheetOutputPath(outputPath, name)
+  );
+}
+
+/**
+ * Convert a file, on a worker thread when enabled. Conversions involving
+ * formats registered by other extensions, or with a transform, always run
+ * in the extension host because they cannot be sent to a worker.
+ * @param sourcePath The file to convert
+ * @param targetFormatId The id of the target format
+ * @param outputPath Where to write the converted file
+ * @param options Reader and writer options
+ * @param useWorkers Whether to use the worker pool
+ * @param token Cancels the conversion
+ */
+export async function runConversion(
+  sourcePath: string,
+  targetFormatId: string,
+  outputPath: string,
+  options: ConvertFileOptions,
+  useWorkers: boolean,
+  token?: RunTaskOptions['token']
+): Promise<ConversionResult> {
+  const { transform, onProgress, signal, ...taskOptions } = options;
+  const sourceFormat = formatRegistry.getByPath(sourcePath);
+
+  if (
+    useWorkers &&
+    !transform &&
+    sourceFormat &&
+    isBuiltinFormat(sourceFormat.id) &&
+    isBuiltinFormat(targetFormatId)
+  ) {
+    return runWorkerConversion(
+      {
+        operation: 'convertFile',
+        sourcePath,
+        targetFormatId,
+        outputPath,
+        options: taskOptions,
+      },
+      { onProgress, token }
+    );
+  }
+
+  if (token?.isCancellationRequested) {
+    throw new CancellationError();
+  }
+
+  // Cancellation can only interrupt streaming conversions in the host
+  const controller = new AbortController();
+  const subscription = token?.onCancellationRequested(() => controller.abort());
+  try {
+    return await convertFile(sourcePath, targetFormatId, outputPath, {
+      ...options,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new CancellationError();
+    }
+    throw error;
+  } finally {
+    subscription?.dispose();
+  }
+}
+
+/**
+ * Read a file into a dataset, on a worker thread when enabled
+ * @param filePath The file to read
+ * @param options Reader options
+ * @param useWorkers Whether to use the worker pool
+ */
+export async function readFileDataset(
+  filePath: string,
+  options: FormatReadOptions,
+  useWorkers: boolean
+): Promise<Dataset> {
+  const format = formatRegistry.getByPath(filePath);
+  if (!format?.read) {
+    throw new Error(`Unsupported file type: ${path.basename(filePath)}`);
+  }
+
+  if (useWorkers && isBuiltinFormat(format.id)) {
+    return getWorkerPool().run<Dataset>({
+      operation: 'readFile',
+      filePath,
+      options,
+    });
+  }
+  return format.read(filePath, options);
+}
+
+/**
+ * Read every worksheet of a workbook, on a worker thread when enabled
+ * @param filePath The workbook path
+ * @param useWorkers Whether to use the worker pool
+ */
+export async function readWorkbookSheets(
+  filePath: string,
+  useWorkers: boolean
+): Promise<SheetDataset[]> {
+  if (useWorkers) {
+    return getWorkerPool().run<SheetDataset[]>({
+      operation: 'readWorkbook',
+      filePath,
+    });
+  }
+  return readAllSheets(filePath);
+}
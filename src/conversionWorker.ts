@@ -0,0 +1,19 @@
+/**
+ * Entry point of the conversion worker threads started by the WorkerPool
+ */
+import { parentPort } from 'worker_threads';
+import { WorkerRequest, WorkerResponse } from './workerPool';
+import { executeTask } from './workerTasks';
+
+parentPort?.on('message', async ({ id, task }: WorkerRequest) => {
+  const post = (response: WorkerResponse) => parentPort!.postMessage(response);
+
+  try {
+    const result = await executeTask(task, progress =>
+      post({ id, type: 'progress', progress })
+    );
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: (error as Error).message });
+  }
+});
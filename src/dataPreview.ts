@@ -1,14 +1,38 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as XLSX from 'xlsx';
-import * as Papa from 'papaparse';
-import { detectFileType } from './utils';
+import { DataFormat, SchemaField } from './formatRegistry';
+import { formatRegistry } from './formats';
+import { createDataset, DataRecord, Dataset, getColumnNames } from './dataset';
+import { flattenDataset } from './flatten';
+import { stringifyJson } from './precision';
+import { toRecords } from './formats/json';
+import { getFileDialect } from './formats/csv';
+import { escapeHtml } from './formats/table';
+import { CsvDialect, describeDelimiter, describeDialect } from './dialect';
+import { isTransformationConfig, parseYamlDocument } from './formats/yaml';
+import {
+  AUTO_RECORD_PATH,
+  findRecordArrays,
+  RecordArrayCandidate,
+  selectRecords,
+} from './recordPath';
+import {
+  getConversionSettings,
+  getDialectOverrides,
+  getFlattenSettings,
+  getJsonRecordPath,
+  getSchemaForFile,
+  useWorkerThreads,
+} from './settings';
+import { readFileDataset, readWorkbookSheets } from './conversion';
+import { readSchema, validateRecords, ValidationError } from './validation';
 
 export class DataPreviewPanel {
   public static currentPanel: DataPreviewPanel | undefined;
   private readonly _panel: vscode.WebviewPanel;
   private readonly _extensionUri: vscode.Uri;
+  private _fileUri: vscode.Uri | undefined;
   private _disposables: vscode.Disposable[] = [];
 
   constructor(extensionUri: vscode.Uri) {
@@ -34,6 +58,40 @@ export class DataPreviewPanel {
           case 'alert':
             vscode.window.showErrorMessage(message.text);
             return;
+          case 'selectDelimiter':
+            if (this._fileUri) {
+              const format = formatRegistry.getByPath(this._fileUri.fsPath);
+              if (format) {
+                this._showTablePreview(this._fileUri, format, {
+                  delimiter: message.delimiter,
+                }).catch(error =>
+                  vscode.window.showErrorMessage((error as Error).message)
+                );
+              }
+            }
+            return;
+          case 'selectSheet':
+            if (this._fileUri) {
+              const format = formatRegistry.getByPath(this._fileUri.fsPath);
+              if (format) {
+                this._showTablePreview(
+                  this._fileUri,
+                  format,
+                  undefined,
+                  message.sheet
+                ).catch(error =>
+                  vscode.window.showErrorMessage((error as Error).message)
+                );
+              }
+            }
+            return;
+          case 'selectRecordPath':
+            if (this._fileUri) {
+              this._showJsonPreview(this._fileUri, message.path).catch(error =>
+                vscode.window.showErrorMessage((error as Error).message)
+              );
+            }
+            return;
         }
       },
       null,
@@ -57,26 +115,34 @@ export class DataPreviewPanel {
   }
 
   public async show(fileUri: vscode.Uri): Promise<void> {
-    const fileType = detectFileType(fileUri.fsPath);
+    const format = formatRegistry.getByPath(fileUri.fsPath);
     const fileName = path.basename(fileUri.fsPath);
 
     this._panel.title = `DataMorph Preview: ${fileName}`;
+    this._fileUri = fileUri;
 
     try {
-      switch (fileType) {
-        case 'csv':
-          await this._showCsvPreview(fileUri);
-          break;
+      if (!format?.capabilities.preview) {
+        this._panel.webview.html = this._getWebviewContent(
+          `<div class="error">Unsupported file type: ${escapeHtml(
+            fileName
+          )}</div>`
+        );
+        return;
+      }
+
+      // JSON, YAML and Excel have dedicated views; every other format is
+      // shown as a table of the records its reader produces
+      switch (format.id) {
         case 'json':
+        case 'yaml':
           await this._showJsonPreview(fileUri);
           break;
         case 'excel':
           await this._showExcelPreview(fileUri);
           break;
         default:
-          this._panel.webview.html = this._getWebviewContent(
-            `<div class="error">Unsupported file type: ${fileName}</div>`
-          );
+          await this._showTablePreview(fileUri, format);
       }
     } catch (error) {
       this._panel.webview.html = this._getWebviewContent(
@@ -87,89 +153,126 @@ export class DataPreviewPanel {
     }
   }
 
-  private async _showCsvPreview(fileUri: vscode.Uri): Promise<void> {
+  private async _showTablePreview(
+    fileUri: vscode.Uri,
+    format: DataFormat,
+    dialectOverrides = getDialectOverrides(),
+    sheet?: string
+  ): Promise<void> {
     try {
-      const csvContent = fs.readFileSync(fileUri.fsPath, 'utf8');
-
-      // Parse CSV
-      const results = await new Promise<Papa.ParseResult<any>>(
-        (resolve, reject) => {
-          interface ParseConfig {
-            header: boolean;
-            dynamicTyping: boolean;
-            skipEmptyLines: boolean;
-            complete: (results: Papa.ParseResult<unknown>) => void;
-            error: (error: Papa.ParseError) => void;
-          }
-
-          Papa.parse<unknown>(csvContent, {
-            header: true,
-            dynamicTyping: true,
-            skipEmptyLines: true,
-            complete: (results: Papa.ParseResult<unknown>): void =>
-              resolve(results),
-            error: (error: Papa.ParseError): void => reject(error),
-          } as ParseConfig);
-        }
+      // Delimited files are read with the dialect shown in the header
+      const dialect = format.delimiter
+        ? getFileDialect(format, fileUri.fsPath, dialectOverrides)
+        : undefined;
+      // Multi-sheet files, such as databases, show one sheet at a time
+      const sheets = format.listSheets
+        ? await format.listSheets(fileUri.fsPath)
+        : [];
+      // Columnar files, such as Parquet, show the schema they embed
+      const schema = format.readSchema
+        ? await format.readSchema(fileUri.fsPath)
+        : undefined;
+      const dataset = await readFileDataset(
+        fileUri.fsPath,
+        { ...getConversionSettings().read, dialect, sheet },
+        useWorkerThreads()
       );
 
-      if (results.errors.length > 0) {
-        throw new Error(`CSV parsing error: ${results.errors[0].message}`);
-      }
+      const errors = this._validate(fileUri, dataset.rows);
 
-      // Generate table HTML
-      const tableHtml = this._generateTableHtml(
-        results.data,
-        results.meta.fields || []
+      // Nested values, e.g. child elements of XML records, are shown as
+      // flattened columns
+      const nested = dataset.columns.some(
+        column => column.type === 'object' || column.type === 'mixed'
       );
+      const tableHtml = nested
+        ? this._generateRecordsTableHtml(dataset.rows, errors)
+        : this._generateTableHtml(dataset, errors);
 
       // Set webview content
       this._panel.webview.html = this._getWebviewContent(`
-        <h2>CSV Preview</h2>
+        <h2>${escapeHtml(format.displayName)} Preview</h2>
+        ${dialect ? this._generateDialectHtml(dialect) : ''}
+        ${
+          sheets.length > 1
+            ? this._generateSheetHtml(format, sheets, sheet ?? sheets[0])
+            : ''
+        }
+        ${schema ? this._generateSchemaHtml(schema) : ''}
+        ${errors ? this._generateValidationHtml(errors) : ''}
         <div class="table-container">
           ${tableHtml}
         </div>
       `);
     } catch (error) {
-      throw new Error(`Failed to preview CSV: ${(error as Error).message}`);
+      throw new Error(
+        `Failed to preview ${format.displayName}: ${(error as Error).message}`
+      );
     }
   }
 
-  private async _showJsonPreview(fileUri: vscode.Uri): Promise<void> {
+  /**
+   * Show a JSON or YAML document as a tree, with a table of its records
+   */
+  private async _showJsonPreview(
+    fileUri: vscode.Uri,
+    recordPath = getJsonRecordPath()
+  ): Promise<void> {
+    const isYaml = formatRegistry.getByPath(fileUri.fsPath)?.id === 'yaml';
+    const formatName = isYaml ? 'YAML' : 'JSON';
     try {
-      const jsonContent = fs.readFileSync(fileUri.fsPath, 'utf8');
-      const jsonData = JSON.parse(jsonContent);
+      const content = fs.readFileSync(fileUri.fsPath, 'utf8');
+      const jsonData = isYaml
+        ? parseYamlDocument(content)
+        : JSON.parse(content);
+
+      if (isYaml && isTransformationConfig(jsonData)) {
+        this._panel.webview.html = this._getWebviewContent(`
+          <h2>YAML Transformation Rules</h2>
+          <p>This file holds transformation rules for batch conversion, not data.</p>
+          <div class="json-tree-view">
+            <pre class="json-tree">${this._formatJsonHtml(jsonData)}</pre>
+          </div>
+        `);
+        return;
+      }
+
+      // Wrapped documents - show the records that would be converted
+      const candidates = Array.isArray(jsonData)
+        ? []
+        : findRecordArrays(jsonData);
+      if (candidates.length > 0) {
+        this._showJsonRecordsPreview(
+          fileUri,
+          jsonData,
+          candidates,
+          recordPath,
+          formatName
+        );
+        return;
+      }
 
       if (Array.isArray(jsonData)) {
         // Array of objects - show as table
         if (jsonData.length > 0 && typeof jsonData[0] === 'object') {
-          // Get all unique keys from all objects in the array
-          const allKeys = new Set<string>();
-          jsonData.forEach(item => {
-            if (typeof item === 'object' && item !== null) {
-              Object.keys(item).forEach(key => allKeys.add(key));
-            }
-          });
-
-          const tableHtml = this._generateTableHtml(
-            jsonData,
-            Array.from(allKeys)
-          );
+          const errors = this._validate(fileUri, jsonData);
+          const tableHtml = this._generateRecordsTableHtml(jsonData, errors);
 
           this._panel.webview.html = this._getWebviewContent(`
-            <h2>JSON Array Preview</h2>
+            <h2>${formatName} Array Preview</h2>
+            ${errors ? this._generateValidationHtml(errors) : ''}
             <div class="table-container">
               ${tableHtml}
             </div>
             <div class="json-tree-view">
-              <h3>JSON Tree View</h3>
+              <h3>${formatName} Tree View</h3>
               <pre class="json-tree">${this._formatJsonHtml(jsonData)}</pre>
             </div>
           `);
         } else {
           // Simple array - show as tree
           this._panel.webview.html = this._getWebviewContent(`
-            <h2>JSON Preview</h2>
+            <h2>${formatName} Preview</h2>
             <div class="json-tree-view">
               <pre class="json-tree">${this._formatJsonHtml(jsonData)}</pre>
             </div>
@@ -178,7 +281,7 @@ export class DataPreviewPanel {
       } else if (typeof jsonData === 'object' && jsonData !== null) {
         // Object - show as tree
         this._panel.webview.html = this._getWebviewContent(`
-          <h2>JSON Preview</h2>
+          <h2>${formatName} Preview</h2>
           <div class="json-tree-view">
             <pre class="json-tree">${this._formatJsonHtml(jsonData)}</pre>
           </div>
@@ -186,34 +289,89 @@ export class DataPreviewPanel {
       } else {
         // Primitive value
         this._panel.webview.html = this._getWebviewContent(`
-          <h2>JSON Preview</h2>
+          <h2>${formatName} Preview</h2>
           <div class="json-tree-view">
             <pre class="json-tree">${JSON.stringify(jsonData, null, 2)}</pre>
           </div>
         `);
       }
     } catch (error) {
-      throw new Error(`Failed to preview JSON: ${(error as Error).message}`);
+      throw new Error(
+        `Failed to preview ${formatName}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private _showJsonRecordsPreview(
+    fileUri: vscode.Uri,
+    jsonData: unknown,
+    candidates: RecordArrayCandidate[],
+    recordPath: string,
+    formatName: string
+  ): void {
+    const records = toRecords(selectRecords(jsonData, recordPath));
+    const errors = this._validate(fileUri, records);
+
+    // Offer every array of objects, plus a configured path that is not one
+    const choices = candidates.map(candidate => ({
+      path: candidate.path,
+      label: `${candidate.path} (${candidate.records.length} records)`,
+    }));
+    const selectedPath =
+      recordPath === AUTO_RECORD_PATH ? candidates[0].path : recordPath;
+    if (!choices.some(choice => choice.path === selectedPath)) {
+      choices.unshift({ path: selectedPath, label: selectedPath });
     }
+    const options = choices
+      .map(
+        choice =>
+          `<option value="${escapeHtml(choice.path)}" ${
+            choice.path === selectedPath ? 'selected' : ''
+          }>${escapeHtml(choice.label)}</option>`
+      )
+      .join('');
+
+    this._panel.webview.html = this._getWebviewContent(`
+      <h2>${formatName} Records Preview</h2>
+      <div class="record-path">
+        <label for="record-path">Records:</label>
+        <select id="record-path">${options}</select>
+      </div>
+      ${errors ? this._generateValidationHtml(errors) : ''}
+      <div class="table-container">
+        ${this._generateRecordsTableHtml(records, errors)}
+      </div>
+      <div class="json-tree-view">
+        <h3>${formatName} Tree View</h3>
+        <pre class="json-tree">${this._formatJsonHtml(jsonData)}</pre>
+      </div>
+      <script>
+        const vscode = acquireVsCodeApi();
+        document.getElementById('record-path').addEventListener('change', event => {
+          vscode.postMessage({ command: 'selectRecordPath', path: event.target.value });
+        });
+      </script>
+    `);
   }
 
   private async _showExcelPreview(fileUri: vscode.Uri): Promise<void> {
     try {
-      // Read Excel file
-      const workbook = XLSX.readFile(fileUri.fsPath);
+      // Read all sheets of the Excel file
+      const sheets = await readWorkbookSheets(
+        fileUri.fsPath,
+        useWorkerThreads()
+      );
 
-      // Get sheet names
-      const sheetNames = workbook.SheetNames;
+      // The schema of a workbook applies to the sheet that is converted,
+      // which is the first one
+      const errors = sheets.length
+        ? this._validate(fileUri, sheets[0].dataset.rows)
+        : undefined;
 
       // Generate HTML for all sheets
-      const sheetsHtml = sheetNames
-        .map(sheetName => {
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-            defval: null,
-          });
-
-          if (jsonData.length === 0) {
+      const sheetsHtml = sheets
+        .map(({ name: sheetName, dataset }, index) => {
+          if (dataset.rows.length === 0) {
             return `
             <div class="sheet">
               <h3>Sheet: ${sheetName}</h3>
@@ -222,11 +380,11 @@ export class DataPreviewPanel {
           `;
           }
 
-          // Get headers from the first object
-          const headers = Object.keys(jsonData[0] as object);
-
           // Generate table for this sheet
-          const tableHtml = this._generateTableHtml(jsonData, headers);
+          const tableHtml = this._generateTableHtml(
+            dataset,
+            index === 0 ? errors : undefined
+          );
 
           return `
           <div class="sheet">
@@ -242,6 +400,7 @@ export class DataPreviewPanel {
       // Set webview content
       this._panel.webview.html = this._getWebviewContent(`
         <h2>Excel Preview</h2>
+        ${errors ? this._generateValidationHtml(errors) : ''}
         ${sheetsHtml}
       `);
     } catch (error) {
@@ -249,31 +408,210 @@ export class DataPreviewPanel {
     }
   }
 
-  private _generateTableHtml(data: any[], headers: string[]): string {
-    if (data.length === 0) {
+  /**
+   * Show the dialect of a delimited file, with a choice of delimiter that
+   * re-reads the file
+   */
+  private _generateDialectHtml(dialect: CsvDialect): string {
+    const delimiters = [',', '\t', ';', '|'];
+    if (!delimiters.includes(dialect.delimiter)) {
+      delimiters.push(dialect.delimiter);
+    }
+    const options = delimiters
+      .map(
+        delimiter =>
+          `<option value="${escapeHtml(delimiter)}" ${
+            delimiter === dialect.delimiter ? 'selected' : ''
+          }>${escapeHtml(describeDelimiter(delimiter))}</option>`
+      )
+      .join('');
+
+    return `
+      <div class="dialect">
+        <label for="delimiter">Delimiter:</label>
+        <select id="delimiter">${options}</select>
+        <span class="dialect-details">${escapeHtml(
+          describeDialect(dialect)
+        )}</span>
+      </div>
+      <script>
+        const vscode = acquireVsCodeApi();
+        document.getElementById('delimiter').addEventListener('change', event => {
+          vscode.postMessage({ command: 'selectDelimiter', delimiter: event.target.value });
+        });
+      </script>
+    `;
+  }
+
+  /**
+   * Show a choice of the sheets of a file, e.g. the tables of a database,
+   * that re-reads the file
+   */
+  private _generateSheetHtml(
+    format: DataFormat,
+    sheets: string[],
+    selected: string
+  ): string {
+    const options = sheets
+      .map(
+        name =>
+          `<option value="${escapeHtml(name)}" ${
+            name === selected ? 'selected' : ''
+          }>${escapeHtml(name)}</option>`
+      )
+      .join('');
+
+    return `
+      <div class="dialect">
+        <label for="sheet">${format.queryable ? 'Table' : 'Sheet'}:</label>
+        <select id="sheet">${options}</select>
+      </div>
+      <script>
+        const vscode = acquireVsCodeApi();
+        document.getElementById('sheet').addEventListener('change', event => {
+          vscode.postMessage({ command: 'selectSheet', sheet: event.target.value });
+        });
+      </script>
+    `;
+  }
+
+  /**
+   * Show the schema embedded in a file as a collapsible table
+   */
+  private _generateSchemaHtml(schema: SchemaField[]): string {
+    const rows = schema
+      .map(
+        field =>
+          `<tr><td>${escapeHtml(field.name)}</td><td>${escapeHtml(
+            field.type
+          )}</td><td>${field.nullable ? 'Yes' : 'No'}</td></tr>`
+      )
+      .join('');
+
+    return `
+      <details class="schema" open>
+        <summary>Schema (${schema.length} columns)</summary>
+        <table class="data-table">
+          <thead>
+            <tr><th>Column</th><th>Type</th><th>Nullable</th></tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </details>
+    `;
+  }
+
+  /**
+   * Validate the records of a file against its schema, or return
+   * `undefined` when the file has no schema
+   */
+  private _validate(
+    fileUri: vscode.Uri,
+    records: DataRecord[]
+  ): ValidationError[] | undefined {
+    const schemaPath = getSchemaForFile(fileUri.fsPath);
+    return schemaPath
+      ? validateRecords(records, readSchema(schemaPath))
+      : undefined;
+  }
+
+  /**
+   * Sum up how the records match their schema
+   */
+  private _generateValidationHtml(errors: ValidationError[]): string {
+    if (errors.length === 0) {
+      return '<div class="validation valid">All records match the schema</div>';
+    }
+
+    const fileErrors = errors
+      .filter(error => error.record === undefined)
+      .map(error => `<li>${escapeHtml(error.message)}</li>`)
+      .join('');
+    const records = new Set(
+      errors
+        .filter(error => error.record !== undefined)
+        .map(error => error.record)
+    ).size;
+    return `
+      <div class="validation invalid">
+        ${errors.length} validation errors in ${records} records; hover over
+        the red cells for details
+        ${fileErrors ? `<ul>${fileErrors}</ul>` : ''}
+      </div>
+    `;
+  }
+
+  private _generateRecordsTableHtml(
+    records: DataRecord[],
+    errors?: ValidationError[]
+  ): string {
+    // Show nested values the way they would be written to CSV
+    const flatten = getFlattenSettings();
+    const dataset = createDataset(records);
+    return this._generateTableHtml(
+      flatten ? flattenDataset(dataset, flatten) : dataset,
+      errors
+    );
+  }
+
+  private _generateTableHtml(
+    dataset: Dataset,
+    errors: ValidationError[] = []
+  ): string {
+    if (dataset.rows.length === 0) {
       return '<p>No data available</p>';
     }
 
-    // Generate header row
-    const headerRow = headers
-      .map(header => `<th>${this._escapeHtml(header)}</th>`)
+    const headers = getColumnNames(dataset);
+
+    // Errors are shown on the cells of their field, including the flattened
+    // columns of nested fields, or on the whole row
+    const separator = getFlattenSettings()?.separator ?? '.';
+    const isColumnOf = (header: string, field: string) =>
+      header === field ||
+      header.startsWith(field + separator) ||
+      header.startsWith(field + '[');
+    const errorsByRow = new Map<number, ValidationError[]>();
+    errors.forEach(error => {
+      if (error.record !== undefined) {
+        errorsByRow.set(error.record, [
+          ...(errorsByRow.get(error.record) ?? []),
+          error,
+        ]);
+      }
+    });
+
+    // Generate header row, with the inferred column type as tooltip
+    const headerRow = dataset.columns
+      .map(
+        column => `<th title="${column.type}">${escapeHtml(column.name)}</th>`
+      )
       .join('');
 
     // Generate data rows
-    const dataRows = data
-      .map(row => {
+    const dataRows = dataset.rows
+      .map((row, index) => {
+        const rowErrors = errorsByRow.get(index) ?? [];
         const cells = headers
           .map(header => {
             let cellValue = row[header];
+            const cellErrors = rowErrors.filter(
+              error =>
+                error.field === undefined || isColumnOf(header, error.field)
+            );
 
             // Handle special cases
             if (cellValue === null || cellValue === undefined) {
               cellValue = '';
             } else if (typeof cellValue === 'object') {
-              cellValue = JSON.stringify(cellValue);
+              cellValue = stringifyJson(cellValue);
             }
 
-            return `<td>${this._escapeHtml(String(cellValue))}</td>`;
+            return cellErrors.length > 0
+              ? `<td class="invalid" title="${escapeHtml(
+                  cellErrors.map(error => error.message).join('\n')
+                )}">${escapeHtml(String(cellValue))}</td>`
+              : `<td>${escapeHtml(String(cellValue))}</td>`;
           })
           .join('');
 
@@ -294,16 +632,7 @@ export class DataPreviewPanel {
   }
 
   private _formatJsonHtml(json: any): string {
-    return this._escapeHtml(JSON.stringify(json, null, 2));
-  }
-
-  private _escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
+    return escapeHtml(JSON.stringify(json, null, 2));
   }
 
   private _getWebviewContent(body: string): string {
@@ -368,6 +697,44 @@ export class DataPreviewPanel {
             border-radius: 4px;
           }
 
+          .record-path,
+          .dialect {
+            margin-bottom: 12px;
+          }
+
+          .schema {
+            margin-bottom: 12px;
+          }
+
+          .schema summary {
+            cursor: pointer;
+            margin-bottom: 8px;
+          }
+
+          .dialect-details {
+            margin-left: 8px;
+            opacity: 0.8;
+          }
+
+          .data-table td.invalid {
+            background-color: var(--vscode-inputValidation-errorBackground);
+            outline: 1px solid var(--vscode-inputValidation-errorBorder);
+          }
+
+          .validation {
+            margin-bottom: 12px;
+            padding: 8px 10px;
+            border-radius: 4px;
+          }
+
+          .validation.valid {
+            border: 1px solid var(--vscode-testing-iconPassed);
+          }
+
+          .validation.invalid {
+            border: 1px solid var(--vscode-errorForeground);
+          }
+
           .sheet {
             margin-bottom: 30px;
             padding-bottom: 20px;
@@ -0,0 +1,122 @@
+/**
+ * A single row of tabular data, keyed by column name
+ */
+export type DataRecord = Record<string, any>;
+
+/**
+ * Type of the values in a column, inferred from the data
+ */
+export type ColumnType =
+  'number' | 'boolean' | 'string' | 'object' | 'mixed' | 'empty';
+
+export interface DatasetColumn {
+  name: string;
+  type: ColumnType;
+}
+
+/**
+ * In-memory tabular data shared by every reader, writer, transformation and
+ * the preview. Readers produce a dataset and writers consume one, so a new
+ * format only needs to convert to and from this shape.
+ */
+export interface Dataset {
+  columns: DatasetColumn[];
+  rows: DataRecord[];
+}
+
+/**
+ * Create a dataset from records. Columns are the union of all record keys in
+ * order of first appearance, unless given explicitly.
+ * @param rows The records
+ * @param columnNames Optional column order, e.g. from a CSV header
+ */
+export function createDataset(
+  rows: DataRecord[],
+  columnNames?: string[]
+): Dataset {
+  const names = columnNames ?? collectColumnNames(rows);
+
+  return {
+    columns: names.map(name => ({
+      name,
+      type: inferColumnType(rows.map(row => row?.[name])),
+    })),
+    rows,
+  };
+}
+
+/**
+ * Get the union of all keys of the given records, in order of first appearance
+ * @param rows The records
+ */
+export function collectColumnNames(rows: DataRecord[]): string[] {
+  const names = new Set<string>();
+  rows.forEach(row => {
+    if (typeof row === 'object' && row !== null) {
+      Object.keys(row).forEach(key => names.add(key));
+    }
+  });
+  return [...names];
+}
+
+/**
+ * Infer the type shared by a column's values, ignoring empty cells
+ * @param values The column values
+ */
+export function inferColumnType(values: unknown[]): ColumnType {
+  const types = new Set<ColumnType>();
+
+  for (const value of values) {
+    if (value === null || value === undefined || value === '') {
+      continue;
+    }
+    switch (typeof value) {
+      case 'number':
+      case 'bigint':
+        types.add('number');
+        break;
+      case 'boolean':
+        types.add('boolean');
+        break;
+      case 'string':
+        types.add('string');
+        break;
+      default:
+        types.add('object');
+    }
+  }
+
+  if (types.size === 0) {
+    return 'empty';
+  }
+  return types.size === 1 ? [...types][0] : 'mixed';
+}
+
+/**
+ * A named dataset, e.g. one worksheet of a workbook
+ */
+export interface SheetDataset {
+  name: string;
+  dataset: Dataset;
+}
+
+/**
+ * Get the column names of a dataset
+ * @param dataset The dataset
+ */
+export function getColumnNames(dataset: Dataset): string[] {
+  return dataset.columns.map(column => column.name);
+}
+
+/**
+ * Replace the rows of a dataset, re-inferring its columns. Columns that still
+ * exist keep their position.
+ * @param dataset The original dataset
+ * @param rows The new rows
+ */
+export function withRows(dataset: Dataset, rows: DataRecord[]): Dataset {
+  const newNames = collectColumnNames(rows);
+  const kept = getColumnNames(dataset).filter(name => newNames.includes(name));
+  const added = newNames.filter(name => !kept.includes(name));
+  return createDataset(rows, [...kept, ...added]);
+}
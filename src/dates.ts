@@ -0,0 +1,326 @@
+import { Dataset, DataRecord, withRows } from './dataset';
+
+/**
+ * How dates and times are written
+ */
+export interface DateOptions {
+  /**
+   * `iso` for ISO 8601, or a pattern of `yyyy`, `MM`, `dd`, `HH`, `mm`,
+   * `ss`, `SSS` and `XXX` (the UTC offset), e.g. `dd.MM.yyyy HH:mm`. Dates
+   * keep the way they are written when neither a format nor a time zone is
+   * set.
+   */
+  format?: string;
+  /**
+   * IANA time zone that times are shown in, e.g. `Europe/Berlin` or `UTC`.
+   * Times without an offset are taken to be in this zone. Times keep their
+   * own offset when omitted.
+   */
+  timeZone?: string;
+}
+
+export const ISO_DATE_FORMAT = 'iso';
+
+/**
+ * A date, or a date and time, as written in the data
+ */
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  /** Whether the value has a time, e.g. not for `2024-01-15` */
+  hasTime: boolean;
+  hour: number;
+  minute: number;
+  second: number;
+  /** Digits of the fraction of a second, e.g. `5` for `.5` */
+  fraction: string;
+  /** Offset from UTC in minutes, when the value has one */
+  offset?: number;
+}
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const pad = (value: number, length = 2) =>
+  String(Math.abs(value)).padStart(length, '0');
+
+/**
+ * Parse an ISO 8601 date or date and time, such as `2024-01-15`,
+ * `2024-01-15 10:30` or `2024-01-15T10:30:00.5+01:00`
+ * @param text The text
+ * @returns The parts of the date, or `undefined` for text that is not one
+ */
+export function parseIsoDate(text: string): DateParts | undefined {
+  const match = ISO_DATE.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+  const parts: DateParts = {
+    year: +year,
+    month: +month,
+    day: +day,
+    hasTime: hour !== undefined,
+    hour: +(hour ?? 0),
+    minute: +(minute ?? 0),
+    second: +(second ?? 0),
+    fraction: fraction ?? '',
+  };
+  if (zone) {
+    const sign = zone.startsWith('-') ? -1 : 1;
+    const digits = zone.replace(/\D/g, '');
+    parts.offset =
+      zone === 'Z' ? 0 : sign * (+digits.slice(0, 2) * 60 + +digits.slice(2));
+  }
+
+  // Dates such as 2024-02-30 would roll over into the next month
+  const date = new Date(toUtcTime(parts));
+  return date.getUTCFullYear() === parts.year &&
+    date.getUTCMonth() + 1 === parts.month &&
+    date.getUTCDate() === parts.day &&
+    parts.hour < 24 &&
+    parts.minute < 60 &&
+    parts.second < 60
+    ? parts
+    : undefined;
+}
+
+/**
+ * Check whether text is an ISO 8601 date or date and time
+ * @param text The text
+ */
+export const isIsoDate = (text: string): boolean =>
+  parseIsoDate(text) !== undefined;
+
+/**
+ * Get the milliseconds since the epoch of the date and time of parts, read
+ * as UTC, ignoring their offset
+ * @param parts The date and time
+ */
+export function toUtcTime(parts: DateParts): number {
+  const time = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    Number(`0.${parts.fraction || 0}`) * 1000
+  );
+  // Date.UTC maps the years 0 to 99 to 1900 to 1999
+  return parts.year < 100 ? new Date(time).setUTCFullYear(parts.year) : time;
+}
+
+/**
+ * Get the parts of a date and time from milliseconds since the epoch, read
+ * as UTC
+ * @param time Milliseconds since the epoch
+ * @param hasTime Whether the value has a time
+ * @param offset Offset from UTC in minutes the parts are in, if known
+ */
+export function fromUtcTime(
+  time: number,
+  hasTime = true,
+  offset?: number
+): DateParts {
+  const date = new Date(time);
+  const milliseconds = date.getUTCMilliseconds();
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hasTime,
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    fraction: milliseconds ? pad(milliseconds, 3).replace(/0+$/, '') : '',
+    offset,
+  };
+}
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check that a time zone is known, e.g. `Europe/Berlin` or `UTC`
+ * @param timeZone The IANA name of the time zone
+ * @throws When the time zone is not known
+ */
+export function checkTimeZone(timeZone: string): void {
+  getZoneFormat(timeZone);
+}
+
+function getZoneFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    zoneFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Get the offset from UTC of a time zone at an instant, in minutes
+ * @param timeZone The IANA name of the time zone
+ * @param time Milliseconds since the epoch
+ */
+function getZoneOffset(timeZone: string, time: number): number {
+  const fields = Object.fromEntries(
+    getZoneFormat(timeZone)
+      .formatToParts(time)
+      .map(({ type, value }) => [type, +value])
+  );
+  const wallTime = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second
+  );
+  return Math.round((wallTime - Math.floor(time / 1000) * 1000) / 60000);
+}
+
+/**
+ * Show a date and time in a time zone. Times with an offset are converted
+ * to the time of the zone, and times without one are taken to be in the
+ * zone. Dates without a time are left as they are.
+ * @param parts The date and time
+ * @param timeZone The IANA name of the time zone
+ */
+export function toTimeZone(parts: DateParts, timeZone: string): DateParts {
+  if (!parts.hasTime) {
+    return parts;
+  }
+  const time = toUtcTime(parts);
+  if (parts.offset === undefined) {
+    // The offset at the wall time, corrected once for daylight saving time
+    const guess = getZoneOffset(timeZone, time);
+    return {
+      ...parts,
+      offset: getZoneOffset(timeZone, time - guess * 60000),
+    };
+  }
+  const instant = time - parts.offset * 60000;
+  const offset = getZoneOffset(timeZone, instant);
+  return {
+    ...fromUtcTime(instant + offset * 60000, true, offset),
+    fraction: parts.fraction,
+  };
+}
+
+const formatOffset = (offset: number) =>
+  offset === 0
+    ? 'Z'
+    : `${offset < 0 ? '-' : '+'}${pad(Math.trunc(offset / 60))}:${pad(
+        offset % 60
+      )}`;
+
+/**
+ * Write a date and time in a format
+ * @param parts The date and time
+ * @param format `iso` for ISO 8601, or a pattern such as `dd.MM.yyyy HH:mm`
+ */
+export function formatDate(
+  parts: DateParts,
+  format: string = ISO_DATE_FORMAT
+): string {
+  const date = `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`;
+  if (format === ISO_DATE_FORMAT) {
+    if (!parts.hasTime) {
+      return date;
+    }
+    const fraction = parts.fraction ? `.${parts.fraction}` : '';
+    const offset = parts.offset === undefined ? '' : formatOffset(parts.offset);
+    return `${date}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(
+      parts.second
+    )}${fraction}${offset}`;
+  }
+
+  const tokens: Record<string, string> = {
+    yyyy: pad(parts.year, 4),
+    MM: pad(parts.month),
+    dd: pad(parts.day),
+    HH: pad(parts.hour),
+    mm: pad(parts.minute),
+    ss: pad(parts.second),
+    SSS: parts.fraction.padEnd(3, '0').slice(0, 3),
+    XXX: parts.offset === undefined ? '' : formatOffset(parts.offset),
+  };
+  return format.replace(/yyyy|MM|dd|HH|mm|ss|SSS|XXX/g, token => tokens[token]);
+}
+
+/**
+ * Create a function that rewrites the dates found in values in the format
+ * and time zone of the options. Text that is not an ISO 8601 date is
+ * returned as it is.
+ * @param options The date format and time zone
+ * @returns The function, or `undefined` when dates are kept as written
+ * @throws When the time zone is not known
+ */
+export function createDateNormalizer(
+  options: DateOptions = {}
+): ((value: unknown) => unknown) | undefined {
+  const { format, timeZone } = options;
+  if (!format && !timeZone) {
+    return undefined;
+  }
+  if (timeZone) {
+    checkTimeZone(timeZone);
+  }
+
+  const normalize = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      const parts = parseIsoDate(value);
+      return parts
+        ? formatDate(
+            timeZone ? toTimeZone(parts, timeZone) : parts,
+            format || ISO_DATE_FORMAT
+          )
+        : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(normalize);
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, normalize(item)])
+      );
+    }
+    return value;
+  };
+  return normalize;
+}
+
+/**
+ * Rewrite the dates of a dataset, including those of nested values, in the
+ * format and time zone of the options
+ * @param dataset The dataset
+ * @param options The date format and time zone
+ * @throws When the time zone is not known
+ */
+export function normalizeDates(
+  dataset: Dataset,
+  options: DateOptions = {}
+): Dataset {
+  const normalize = createDateNormalizer(options);
+  return normalize
+    ? withRows(
+        dataset,
+        dataset.rows.map(row => normalize(row) as DataRecord)
+      )
+    : dataset;
+}
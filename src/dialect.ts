@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+
+/**
+ * How a delimited text file is laid out
+ */
+export interface CsvDialect {
+  /** Separates the fields of a record, e.g. `,` or a tab */
+  delimiter: string;
+  /** Encloses fields that contain delimiters, quotes or line breaks */
+  quote: string;
+  /**
+   * Escapes quotes inside quoted fields: the quote itself for doubled
+   * quotes (`""`), or a backslash (`\"`)
+   */
+  escape: string;
+  lineEnding: '\n' | '\r\n' | '\r';
+}
+
+export const DEFAULT_DIALECT: CsvDialect = {
+  delimiter: ',',
+  quote: '"',
+  escape: '"',
+  lineEnding: '\n',
+};
+
+/** Delimiters the sniffer tries, in order of preference on ties */
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+const CANDIDATE_QUOTES = ['"', "'"];
+/** Number of records with quoted fields it takes to sniff a quote */
+const MIN_QUOTED_RECORDS = 2;
+
+/** Number of records of the sample that are compared */
+const SAMPLE_RECORDS = 50;
+/** Number of bytes read from the start of a file to sniff its dialect */
+const SAMPLE_BYTES = 64 * 1024;
+
+const count = (text: string, pattern: RegExp): number =>
+  text.match(pattern)?.length ?? 0;
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function sniffLineEnding(sample: string): CsvDialect['lineEnding'] {
+  const crlf = count(sample, /\r\n/g);
+  const lf = count(sample, /(?<!\r)\n/g);
+  const cr = count(sample, /\r(?!\n)/g);
+  if (crlf > 0 && crlf >= lf && crlf >= cr) {
+    return '\r\n';
+  }
+  return cr > lf ? '\r' : '\n';
+}
+
+/**
+ * The quote character that encloses whole fields in the most records. A
+ * quote has to do so in several records, so that apostrophes at the start
+ * of a few fields, as in `'tis`, don't turn them into quotes.
+ */
+function sniffQuote(sample: string): string {
+  const delimiter = `[${escapeRegExp(CANDIDATE_DELIMITERS.join(''))}]`;
+  const lines = sample.split(/\r\n|\r|\n/);
+  const [best] = CANDIDATE_QUOTES.map(quote => {
+    const q = escapeRegExp(quote);
+    const field = new RegExp(
+      `(?:^|${delimiter})${q}(?:[^${q}\\\\]|${q}${q}|\\\\.)*${q}(?:$|${delimiter})`
+    );
+    return { quote, records: lines.filter(line => field.test(line)).length };
+  }).sort((a, b) => b.records - a.records);
+  return best.records >= MIN_QUOTED_RECORDS
+    ? best.quote
+    : DEFAULT_DIALECT.quote;
+}
+
+/**
+ * Backslash escapes when quotes are escaped with backslashes more often than
+ * they are doubled inside a field
+ */
+function sniffEscape(sample: string, quote: string): string {
+  const q = escapeRegExp(quote);
+  const boundary = `[${escapeRegExp(CANDIDATE_DELIMITERS.join(''))}\\r\\n]`;
+  const backslashed = count(sample, new RegExp(`\\\\${q}`, 'g'));
+  // Doubled quotes that are not a whole empty field, such as `,"",`
+  const doubled = count(
+    sample,
+    new RegExp(`(?<!^|${boundary})${q}${q}|${q}${q}(?!$|${boundary})`, 'gm')
+  );
+  return backslashed > doubled ? '\\' : quote;
+}
+
+/**
+ * Split a sample into records, keeping line breaks inside quoted fields
+ */
+function splitRecords(sample: string, quote: string, escape: string): string[] {
+  const records: string[] = [];
+  let inQuotes = false;
+  let start = 0;
+
+  for (let i = 0; i < sample.length; i++) {
+    const ch = sample[i];
+    if (inQuotes && escape !== quote && ch === escape) {
+      i++;
+    } else if (ch === quote) {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      records.push(sample.slice(start, i));
+      if (ch === '\r' && sample[i + 1] === '\n') {
+        i++;
+      }
+      start = i + 1;
+    }
+  }
+  records.push(sample.slice(start));
+  return records.filter(record => record.trim() !== '');
+}
+
+function countFields(
+  record: string,
+  delimiter: string,
+  quote: string,
+  escape: string
+): number {
+  let fields = 1;
+  let inQuotes = false;
+  for (let i = 0; i < record.length; i++) {
+    const ch = record[i];
+    if (inQuotes && escape !== quote && ch === escape) {
+      i++;
+    } else if (ch === quote) {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && ch === delimiter) {
+      fields++;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Detect the dialect of delimited text: the delimiter that splits the most
+ * records into the same number of fields, the quote character, how quotes
+ * are escaped and the line endings
+ * @param sample The start of the file
+ * @param fallbackDelimiter Used when no candidate splits the records, e.g.
+ * for files with a single column
+ * @param truncated Whether the sample was cut off, so its last record may
+ * be incomplete
+ */
+export function sniffDialect(
+  sample: string,
+  fallbackDelimiter = DEFAULT_DIALECT.delimiter,
+  truncated = false
+): CsvDialect {
+  const text = sample.replace(/^\uFEFF/, '');
+  const quote = sniffQuote(text);
+  const escape = sniffEscape(text, quote);
+  let records = splitRecords(text, quote, escape);
+  if (truncated && records.length > 1) {
+    records = records.slice(0, -1);
+  }
+  records = records.slice(0, SAMPLE_RECORDS);
+
+  let delimiter = fallbackDelimiter;
+  let best = { consistency: 0, fields: 1 };
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const counts = records.map(record =>
+      countFields(record, candidate, quote, escape)
+    );
+
+    // The most common field count, and how many records have it
+    const frequency = new Map<number, number>();
+    counts.forEach(fields =>
+      frequency.set(fields, (frequency.get(fields) ?? 0) + 1)
+    );
+    const [fields, matches] = [...frequency.entries()].sort(
+      (a, b) => b[1] - a[1] || b[0] - a[0]
+    )[0] ?? [1, 0];
+    const consistency = matches / counts.length;
+
+    if (
+      fields > 1 &&
+      (consistency > best.consistency ||
+        (consistency === best.consistency && fields > best.fields))
+    ) {
+      delimiter = candidate;
+      best = { consistency, fields };
+    }
+  }
+
+  return { delimiter, quote, escape, lineEnding: sniffLineEnding(text) };
+}
+
+/**
+ * Detect the dialect of a delimited file from its first bytes
+ * @param filePath The file to sniff
+ * @param fallbackDelimiter Used when no delimiter can be detected
+ */
+export function sniffFileDialect(
+  filePath: string,
+  fallbackDelimiter = DEFAULT_DIALECT.delimiter
+): CsvDialect {
+  const buffer = Buffer.alloc(SAMPLE_BYTES);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return sniffDialect(
+      buffer.toString('utf8', 0, bytesRead),
+      fallbackDelimiter,
+      bytesRead === buffer.length
+    );
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Apply explicit settings on top of a detected dialect
+ * @param detected The sniffed dialect
+ * @param overrides Parts of the dialect chosen by the user
+ */
+export function resolveDialect(
+  detected: CsvDialect,
+  overrides: Partial<CsvDialect> = {}
+): CsvDialect {
+  // Empty values in the overrides keep the detected setting
+  const chosen = Object.entries(overrides).filter(([, value]) => value);
+  return { ...detected, ...Object.fromEntries(chosen) };
+}
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+  ' ': 'Space',
+};
+
+const LINE_ENDING_NAMES: Record<CsvDialect['lineEnding'], string> = {
+  '\n': 'LF',
+  '\r\n': 'CRLF',
+  '\r': 'CR',
+};
+
+/**
+ * Name a delimiter for display, e.g. `Tab`
+ * @param delimiter The delimiter
+ */
+export const describeDelimiter = (delimiter: string): string =>
+  DELIMITER_NAMES[delimiter] ?? `"${delimiter}"`;
+
+/**
+ * Describe a dialect for display, e.g.
+ * `Tab delimited, " quotes, doubled quote escapes, CRLF line endings`
+ * @param dialect The dialect
+ */
+export function describeDialect(dialect: CsvDialect): string {
+  const escape =
+    dialect.escape === dialect.quote
+      ? 'doubled quote escapes'
+      : `${dialect.escape} escapes`;
+  return [
+    `${describeDelimiter(dialect.delimiter)} delimited`,
+    `${dialect.quote} quotes`,
+    escape,
+    `${LINE_ENDING_NAMES[dialect.lineEnding]} line endings`,
+  ].join(', ');
+}
+
+/**
+ * Read a delimiter setting, where `\t` and `tab` stand for a tab character
+ * @param value The setting value
+ */
+export const parseDelimiter = (value: string): string =>
+  value === '\\t' || value.toLowerCase() === 'tab' ? '\t' : value;
@@ -4,111 +4,171 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as XLSX from 'xlsx';
-import * as Papa from 'papaparse';
-import { parse as csvParse } from 'csv-parse/sync';
-import { stringify as csvStringify } from 'csv-stringify/sync';
 
-// Data converter utility functions
+// Format registry and conversion
 import {
-  csvToJson,
-  jsonToCsv,
-  excelToJson,
-  excelToCsv,
-  jsonToExcel,
-  csvToExcel,
-  detectFileType,
-  createWebWorker,
-} from './utils';
+  DataFormat,
+  getOutputExtension,
+  getOutputPath,
+} from './formatRegistry';
+import { formatRegistry } from './formats';
+import {
+  convertText,
+  getConversionOutputPaths,
+  readFileDataset,
+  runCombineFiles,
+  runConversion,
+} from './conversion';
+import { AUTO_RECORD_PATH, findRecordArrays } from './recordPath';
+import {
+  delimitedTextFormat,
+  getFileDialect,
+  inferFileColumnTypes,
+} from './formats/csv';
+import { fixedWidthFormat } from './formats/fixedWidth';
+import { parseYamlDocument } from './formats/yaml';
+import { EXCEL_FLAVORS, ExcelFlavor } from './formats/excel';
+import { generateSchema, getSchemaPath } from './jsonSchema';
+import {
+  INFERRED_TYPES,
+  InferredType,
+  readColumnTypes,
+  writeColumnTypes,
+} from './columnTypes';
+import {
+  generateTypeScript,
+  generateZod,
+  toTypeName,
+  TYPE_OUTPUTS,
+  TypeOutput,
+} from './typeGeneration';
+import {
+  CsvDialect,
+  describeDelimiter,
+  describeDialect,
+  parseDelimiter,
+  resolveDialect,
+} from './dialect';
+import {
+  askForDelimiter,
+  askForExcelFlavor,
+  askForJsonRecordPath,
+  askForSheet,
+  getConversionSettings,
+  getDialectOverrides,
+  getSchemaSettings,
+  getTypeOutput,
+  useWorkerThreads,
+} from './settings';
+import { CancellationError, disposeWorkerPool } from './workerPool';
 
 // Web panels and views
 import { DataPreviewPanel } from './dataPreview';
+import { FixedWidthLayoutPanel } from './fixedWidthLayout';
 import { BatchConversionProvider } from './batchConversion';
+import { ValidationDiagnostics } from './validationDiagnostics';
+
+/**
+ * API returned from `activate` for other extensions to use
+ */
+export interface DataConverterApi {
+  /**
+   * Register an additional data format. It becomes available to the convert
+   * commands, context menus, batch conversion and preview.
+   */
+  registerFormat(format: DataFormat): vscode.Disposable;
+}
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): DataConverterApi {
   console.log('Data Format Converter extension is now active!');
 
+  // Register a convert command for every format that declares one, and keep
+  // the context menus in sync with the registered formats
+  const formatCommands = new Map<string, vscode.Disposable>();
+  const syncFormats = () => {
+    const writable = formatRegistry.writable();
+    for (const [formatId, command] of formatCommands) {
+      if (!writable.some(format => format.id === formatId)) {
+        command.dispose();
+        formatCommands.delete(formatId);
+      }
+    }
+    for (const format of writable) {
+      if (format.commandId && !formatCommands.has(format.id)) {
+        formatCommands.set(
+          format.id,
+          vscode.commands.registerCommand(
+            format.commandId,
+            (fileUri?: vscode.Uri) => convertToFormat(fileUri, format.id)
+          )
+        );
+      }
+    }
+    updateFormatContextKeys();
+  };
+  syncFormats();
+  context.subscriptions.push(
+    formatRegistry.onDidChange(syncFormats),
+    new vscode.Disposable(() => {
+      formatCommands.forEach(command => command.dispose());
+    })
+  );
+
   // Register data preview provider
   const dataPreviewProvider = new DataPreviewPanel(context.extensionUri);
 
   // Register batch conversion provider
   const batchConversionProvider = new BatchConversionProvider();
 
-  // Register convert to JSON command
-  const convertToJsonCommand = vscode.commands.registerCommand(
-    'dataconverter.convertToJSON',
-    async (fileUri?: vscode.Uri) => {
-      try {
-        // Get the file URI if not provided via right-click
-        const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
-        if (!uri) {
-          vscode.window.showErrorMessage(
-            'No file selected. Please open a file first.'
-          );
-          return;
-        }
+  // Report the records of open data files that don't match their schema
+  const validationDiagnostics = new ValidationDiagnostics();
 
-        const fileExtension = path.extname(uri.fsPath).toLowerCase();
-        const outputPath = uri.fsPath.replace(/\.(csv|xlsx)$/i, '.json');
-
-        // Check if output file already exists
-        if (fs.existsSync(outputPath)) {
-          const overwrite = await vscode.window.showWarningMessage(
-            `File ${path.basename(outputPath)} already exists. Overwrite?`,
-            'Yes',
-            'No'
-          );
-          if (overwrite !== 'Yes') {
-            return;
-          }
-        }
+  // Register generic convert command, which asks for the target format
+  const convertToCommand = vscode.commands.registerCommand(
+    'dataconverter.convertTo',
+    async (fileUri?: vscode.Uri, targetFormatId?: string) => {
+      const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
+        vscode.window.showErrorMessage(
+          'No file selected. Please open a file first.'
+        );
+        return;
+      }
 
-        let result;
-        const useWebWorkers = vscode.workspace
-          .getConfiguration('dataconverter')
-          .get('useWebWorkers', true);
-
-        if (fileExtension === '.csv') {
-          if (useWebWorkers) {
-            result = await createWebWorker(
-              'csvToJson',
-              fs.readFileSync(uri.fsPath, 'utf8')
-            );
-          } else {
-            result = await csvToJson(uri.fsPath);
-          }
-        } else if (fileExtension === '.xlsx') {
-          result = await excelToJson(uri.fsPath);
-        } else {
-          vscode.window.showErrorMessage(
-            'Unsupported file format. Please select a CSV or Excel file.'
-          );
+      if (!targetFormatId) {
+        const source = formatRegistry.getByPath(uri.fsPath);
+        if (!checkDataFile(source, uri.fsPath)) {
           return;
         }
-
-        // Write the result to file
-        fs.writeFileSync(outputPath, JSON.stringify(result, null, 2));
-
-        vscode.window.showInformationMessage(
-          `Successfully converted to JSON: ${path.basename(outputPath)}`
-        );
-
-        // Open the new file in the editor
-        const document = await vscode.workspace.openTextDocument(outputPath);
-        await vscode.window.showTextDocument(document);
-      } catch (error: any) {
-        vscode.window.showErrorMessage(
-          `Error converting file: ${error.message}`
+        const targets = formatRegistry
+          .writable()
+          .filter(
+            format => !source || formatRegistry.canConvert(source.id, format.id)
+          );
+        const selection = await vscode.window.showQuickPick(
+          targets.map(format => ({
+            label: format.displayName,
+            description: format.extensions.join(', '),
+            formatId: format.id,
+          })),
+          { placeHolder: 'Select target format for conversion' }
         );
+        if (!selection) {
+          return; // User cancelled
+        }
+        targetFormatId = selection.formatId;
       }
+
+      await convertToFormat(uri, targetFormatId);
     }
   );
 
-  // Register convert to CSV command
-  const convertToCsvCommand = vscode.commands.registerCommand(
-    'dataconverter.convertToCSV',
+  // Register preview data command
+  const previewDataCommand = vscode.commands.registerCommand(
+    'dataconverter.previewData', // Changed from 'datamorph.previewData' to match package.json
     async (fileUri?: vscode.Uri) => {
       try {
-        // Get the file URI if not provided
+        // Get the file URI if not provided via right-click
         const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
         if (!uri) {
           vscode.window.showErrorMessage(
@@ -118,131 +178,93 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         const fileExtension = path.extname(uri.fsPath).toLowerCase();
-        const outputPath = uri.fsPath.replace(/\.(json|xlsx)$/i, '.csv');
-
-        // Check if output file already exists
-        if (fs.existsSync(outputPath)) {
-          const overwrite = await vscode.window.showWarningMessage(
-            `File ${path.basename(outputPath)} already exists. Overwrite?`,
-            'Yes',
-            'No'
-          );
-          if (overwrite !== 'Yes') {
-            return;
-          }
-        }
-
-        let result;
-        const useWebWorkers = vscode.workspace
-          .getConfiguration('dataconverter')
-          .get('useWebWorkers', true);
-
-        if (fileExtension === '.json') {
-          if (useWebWorkers) {
-            const jsonContent = fs.readFileSync(uri.fsPath, 'utf8');
-            result = await createWebWorker('jsonToCsv', jsonContent);
-          } else {
-            result = await jsonToCsv(uri.fsPath);
-          }
-        } else if (fileExtension === '.xlsx') {
-          result = await excelToCsv(uri.fsPath);
-        } else {
-          vscode.window.showErrorMessage(
-            'Unsupported file format. Please select a JSON or Excel file.'
-          );
-          return;
-        }
-
-        // Write the result to file
-        fs.writeFileSync(outputPath, result);
-
-        vscode.window.showInformationMessage(
-          `Successfully converted to CSV: ${path.basename(outputPath)}`
+        await dataPreviewProvider.show(uri);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error previewing file: ${(error as Error).message}`
         );
+      }
+    }
+  );
 
-        // Open the new file in the editor
-        const document = await vscode.workspace.openTextDocument(outputPath);
-        await vscode.window.showTextDocument(document);
-      } catch (error: any) {
+  // Register the layout editor of fixed-width files
+  const editFixedWidthLayoutCommand = vscode.commands.registerCommand(
+    'dataconverter.editFixedWidthLayout',
+    (fileUri?: vscode.Uri) => {
+      const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
         vscode.window.showErrorMessage(
-          `Error converting file: ${error.message}`
+          'No file selected. Please open a file first.'
+        );
+        return;
+      }
+      try {
+        FixedWidthLayoutPanel.create().show(uri);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error editing the layout: ${(error as Error).message}`
         );
       }
     }
   );
 
-  // Register convert to Excel command
-  const convertToExcelCommand = vscode.commands.registerCommand(
-    'dataconverter.convertToExcel',
+  // Register the command that pins the type of a column of a delimited file
+  const setColumnTypeCommand = vscode.commands.registerCommand(
+    'dataconverter.setColumnType',
     async (fileUri?: vscode.Uri) => {
-      try {
-        // Get the file URI if not provided
-        const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
-        if (!uri) {
-          vscode.window.showErrorMessage(
-            'No file selected. Please open a file first.'
-          );
-          return;
-        }
-
-        const fileExtension = path.extname(uri.fsPath).toLowerCase();
-        const outputPath = uri.fsPath.replace(/\.(json|csv)$/i, '.xlsx');
-
-        // Check if output file already exists
-        if (fs.existsSync(outputPath)) {
-          const overwrite = await vscode.window.showWarningMessage(
-            `File ${path.basename(outputPath)} already exists. Overwrite?`,
-            'Yes',
-            'No'
-          );
-          if (overwrite !== 'Yes') {
-            return;
-          }
-        }
-
-        if (fileExtension === '.json') {
-          await jsonToExcel(uri.fsPath, outputPath);
-        } else if (fileExtension === '.csv') {
-          await csvToExcel(uri.fsPath, outputPath);
-        } else {
-          vscode.window.showErrorMessage(
-            'Selected file must be a JSON or CSV file.'
-          );
-          return;
-        }
-
-        vscode.window.showInformationMessage(
-          `Successfully converted ${path.basename(uri.fsPath)} to Excel.`
+      const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
+        vscode.window.showErrorMessage(
+          'No file selected. Please open a file first.'
         );
-      } catch (error) {
+        return;
+      }
+      await setColumnType(uri);
+    }
+  );
+
+  // Register the command that documents a data file with a JSON Schema
+  const generateJsonSchemaCommand = vscode.commands.registerCommand(
+    'dataconverter.generateJsonSchema',
+    async (fileUri?: vscode.Uri) => {
+      const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
         vscode.window.showErrorMessage(
-          `Error converting file: ${(error as Error).message}`
+          'No file selected. Please open a file first.'
         );
+        return;
       }
+      await generateJsonSchema(uri);
     }
   );
 
-  // Register preview data command
-  const previewDataCommand = vscode.commands.registerCommand(
-    'dataconverter.previewData', // Changed from 'datamorph.previewData' to match package.json
+  // Register the command that writes TypeScript types for a data file
+  const generateTypesCommand = vscode.commands.registerCommand(
+    'dataconverter.generateTypes',
     async (fileUri?: vscode.Uri) => {
-      try {
-        // Get the file URI if not provided via right-click
-        const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
-        if (!uri) {
-          vscode.window.showErrorMessage(
-            'No file selected. Please open a file first.'
-          );
-          return;
-        }
+      const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
+        vscode.window.showErrorMessage(
+          'No file selected. Please open a file first.'
+        );
+        return;
+      }
+      await generateTypes(uri);
+    }
+  );
 
-        const fileExtension = path.extname(uri.fsPath).toLowerCase();
-        await dataPreviewProvider.show(uri);
-      } catch (error) {
+  // Register the command that validates a data file against its schema
+  const validateDataCommand = vscode.commands.registerCommand(
+    'dataconverter.validateData',
+    async (fileUri?: vscode.Uri) => {
+      const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
         vscode.window.showErrorMessage(
-          `Error previewing file: ${(error as Error).message}`
+          'No file selected. Please open a file first.'
         );
+        return;
       }
+      await validateData(validationDiagnostics, uri);
     }
   );
 
@@ -276,6 +298,36 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register combine command, which puts the selected files into the sheets
+  // of one workbook
+  const combineIntoWorkbookCommand = vscode.commands.registerCommand(
+    'dataconverter.combineIntoWorkbook',
+    async (fileUri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+      const uris =
+        selectedUris && selectedUris.length > 0
+          ? selectedUris
+          : fileUri
+            ? [fileUri]
+            : await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: true,
+                openLabel: 'Combine',
+                filters: {
+                  'Data files': formatRegistry
+                    .readable()
+                    .flatMap(format =>
+                      format.extensions.map(ext => ext.slice(1))
+                    ),
+                },
+              });
+      if (!uris || uris.length === 0) {
+        return; // User cancelled the file selection
+      }
+      await combineIntoWorkbook(uris);
+    }
+  );
+
   // Register create sample Excel file command
   const createSampleExcelCommand = vscode.commands.registerCommand(
     'dataconverter.createSampleExcel', // Changed from 'datamorph.createSampleExcel' to match package.json
@@ -431,13 +483,769 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    convertToJsonCommand,
-    convertToCsvCommand,
-    convertToExcelCommand,
+    convertToCommand,
     previewDataCommand,
+    editFixedWidthLayoutCommand,
+    setColumnTypeCommand,
+    generateJsonSchemaCommand,
+    generateTypesCommand,
+    validateDataCommand,
+    validationDiagnostics,
     batchConvertCommand,
+    combineIntoWorkbookCommand,
     createSampleExcelCommand
   );
+
+  return {
+    registerFormat: format =>
+      new vscode.Disposable(formatRegistry.register(format).dispose),
+  };
+}
+
+/**
+ * Convert a file into the given format and open the result
+ * @param fileUri The file to convert, defaults to the active editor
+ * @param targetFormatId The id of the target format
+ */
+async function convertToFormat(
+  fileUri: vscode.Uri | undefined,
+  targetFormatId: string
+): Promise<void> {
+  try {
+    // Get the file URI if not provided via right-click
+    const uri = fileUri || vscode.window.activeTextEditor?.document.uri;
+    if (!uri) {
+      vscode.window.showErrorMessage(
+        'No file selected. Please open a file first.'
+      );
+      return;
+    }
+
+    const target = formatRegistry.get(targetFormatId);
+    if (!target) {
+      vscode.window.showErrorMessage(`Unknown format: ${targetFormatId}`);
+      return;
+    }
+
+    // Formats such as tables convert just the selected text when there is
+    // a selection in the file
+    const editor = vscode.window.activeTextEditor;
+    if (
+      target.convertsSelections &&
+      editor &&
+      !editor.selection.isEmpty &&
+      editor.document.uri.toString() === uri.toString()
+    ) {
+      await convertSelection(editor, target);
+      return;
+    }
+
+    const source = formatRegistry.getByPath(uri.fsPath);
+    if (!checkDataFile(source, uri.fsPath)) {
+      return;
+    }
+    if (!source || !formatRegistry.canConvert(source.id, target.id)) {
+      const supported = formatRegistry
+        .readable()
+        .filter(format => format.id !== target.id)
+        .map(format => format.displayName)
+        .join(', ');
+      vscode.window.showErrorMessage(
+        `Unsupported file format. Please select one of: ${supported}.`
+      );
+      return;
+    }
+
+    const settings = getConversionSettings();
+    if (
+      (source.id === 'json' || source.id === 'yaml') &&
+      askForJsonRecordPath()
+    ) {
+      const recordPath = await pickRecordPath(source, uri.fsPath);
+      if (recordPath === undefined) {
+        return;
+      }
+      settings.read.recordPath = recordPath;
+    }
+    if (source.delimiter && askForDelimiter()) {
+      const dialect = await pickDialect(source, uri.fsPath);
+      if (!dialect) {
+        return;
+      }
+      settings.read.dialect = dialect;
+    }
+    if (source.listSheets && askForSheet()) {
+      const selection = await pickSheet(source, target, uri.fsPath);
+      if (!selection) {
+        return;
+      }
+      settings.read.sheet = selection.sheet;
+      settings.read.query = selection.query;
+      settings.allSheets = selection.allSheets;
+    }
+
+    if (target.id === 'excel' && askForExcelFlavor()) {
+      const flavor = await pickExcelFlavor();
+      if (!flavor) {
+        return;
+      }
+      settings.write.excelFlavor = flavor;
+    }
+
+    const outputPath = getOutputPath(uri.fsPath, target, settings.write);
+
+    // Check if output files already exist
+    const existing = (
+      await getConversionOutputPaths(
+        uri.fsPath,
+        target.id,
+        outputPath,
+        settings.allSheets
+      )
+    ).filter(outputFile => fs.existsSync(outputFile));
+    if (existing.length > 0) {
+      const names = existing.map(outputFile => path.basename(outputFile));
+      const overwrite = await vscode.window.showWarningMessage(
+        existing.length === 1
+          ? `File ${names[0]} already exists. Overwrite?`
+          : `Files ${names.join(', ')} already exist. Overwrite?`,
+        'Yes',
+        'No'
+      );
+      if (overwrite !== 'Yes') {
+        return;
+      }
+    }
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Converting ${path.basename(uri.fsPath)} to ${
+          target.displayName
+        }`,
+        cancellable: true,
+      },
+      (progress, token) =>
+        runConversion(
+          uri.fsPath,
+          target.id,
+          outputPath,
+          { ...settings, onProgress: p => progress.report(p) },
+          useWorkerThreads(),
+          token
+        )
+    );
+
+    vscode.window.showInformationMessage(
+      `Successfully converted to ${target.displayName}: ${result.outputPaths
+        .map(outputFile => path.basename(outputFile))
+        .join(', ')}`
+    );
+    if (result.warnings.length > 0) {
+      vscode.window.showWarningMessage(result.warnings.join('\n'));
+    }
+
+    // Open the new file in the editor
+    if (!target.binary && result.outputPaths.length === 1) {
+      const document = await vscode.workspace.openTextDocument(
+        result.outputPaths[0]
+      );
+      await vscode.window.showTextDocument(document);
+    }
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      vscode.window.showInformationMessage('Conversion cancelled.');
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Error converting file: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a JSON Schema from a sample of the records of a data file, save
+ * it next to the file and open it
+ * @param uri The data file
+ */
+async function generateJsonSchema(uri: vscode.Uri): Promise<void> {
+  try {
+    if (!formatRegistry.getByPath(uri.fsPath)?.capabilities.read) {
+      vscode.window.showErrorMessage(
+        `Unsupported file type: ${path.basename(uri.fsPath)}`
+      );
+      return;
+    }
+
+    const schemaPath = getSchemaPath(uri.fsPath);
+    if (fs.existsSync(schemaPath)) {
+      const overwrite = await vscode.window.showWarningMessage(
+        `File ${path.basename(schemaPath)} already exists. Overwrite?`,
+        'Yes',
+        'No'
+      );
+      if (overwrite !== 'Yes') {
+        return;
+      }
+    }
+
+    const settings = getConversionSettings();
+    const dataset = await readFileDataset(
+      uri.fsPath,
+      settings.read,
+      useWorkerThreads()
+    );
+    const schema = generateSchema(
+      dataset.rows,
+      path.basename(uri.fsPath),
+      getSchemaSettings()
+    );
+    fs.writeFileSync(
+      schemaPath,
+      JSON.stringify(schema, null, settings.write.indentation) + '\n'
+    );
+
+    const document = await vscode.workspace.openTextDocument(schemaPath);
+    await vscode.window.showTextDocument(document);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error generating JSON Schema: ${(error as Error).message}`
+    );
+  }
 }
 
-export function deactivate() {}
+/**
+ * Pin the type of a column of a delimited file, or let it be inferred
+ * again. The types are saved to a sidecar file that every reader of the
+ * file honours.
+ * @param uri The delimited file
+ */
+async function setColumnType(uri: vscode.Uri): Promise<void> {
+  const fileName = path.basename(uri.fsPath);
+  try {
+    const format = formatRegistry.getByPath(uri.fsPath);
+    if (!format?.delimiter) {
+      vscode.window.showErrorMessage(
+        `Column types can only be set for CSV, TSV and other delimited files, not ${fileName}`
+      );
+      return;
+    }
+
+    const pinned = readColumnTypes(uri.fsPath);
+    const inferred = inferFileColumnTypes(
+      uri.fsPath,
+      getFileDialect(format, uri.fsPath, getDialectOverrides()),
+      {}
+    );
+    const column = await vscode.window.showQuickPick(
+      Object.keys(inferred).map(name => ({
+        label: name,
+        description: pinned[name]
+          ? `${pinned[name]} (pinned)`
+          : `${inferred[name]} (inferred)`,
+      })),
+      { placeHolder: `Select a column of ${fileName}` }
+    );
+    if (!column) {
+      return; // User cancelled
+    }
+
+    const name = column.label;
+    const type = await vscode.window.showQuickPick(
+      [
+        {
+          label: 'Infer from the data',
+          description: inferred[name],
+          type: undefined,
+        },
+        ...(Object.keys(INFERRED_TYPES) as InferredType[]).map(id => ({
+          label: id,
+          description: INFERRED_TYPES[id],
+          type: id,
+        })),
+      ],
+      { placeHolder: `Select the type of ${name}` }
+    );
+    if (!type) {
+      return; // User cancelled
+    }
+
+    const types = { ...pinned };
+    delete types[name];
+    if (type.type) {
+      types[name] = type.type;
+    }
+    writeColumnTypes(uri.fsPath, types);
+    vscode.window.showInformationMessage(
+      type.type
+        ? `Column ${name} of ${fileName} is read as ${type.type}.`
+        : `The type of column ${name} of ${fileName} is inferred from the data.`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error setting the column type: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate TypeScript interfaces or a Zod schema for the records of a data
+ * file, from the same inferred schema as Generate JSON Schema, and open
+ * them in a new editor
+ * @param uri The data file
+ */
+async function generateTypes(uri: vscode.Uri): Promise<void> {
+  try {
+    if (!formatRegistry.getByPath(uri.fsPath)?.capabilities.read) {
+      vscode.window.showErrorMessage(
+        `Unsupported file type: ${path.basename(uri.fsPath)}`
+      );
+      return;
+    }
+
+    let output = getTypeOutput();
+    if (!output) {
+      const selection = await vscode.window.showQuickPick(
+        (Object.keys(TYPE_OUTPUTS) as TypeOutput[]).map(id => ({
+          label: TYPE_OUTPUTS[id],
+          output: id,
+        })),
+        { placeHolder: 'Select the code to generate' }
+      );
+      if (!selection) {
+        return; // User cancelled
+      }
+      output = selection.output;
+    }
+
+    const fileName = path.basename(uri.fsPath);
+    const dataset = await readFileDataset(
+      uri.fsPath,
+      getConversionSettings().read,
+      useWorkerThreads()
+    );
+    const schema = generateSchema(dataset.rows, fileName, getSchemaSettings());
+    const generate = output === 'zod' ? generateZod : generateTypeScript;
+
+    const document = await vscode.workspace.openTextDocument({
+      content: generate(schema, toTypeName(fileName), fileName),
+      language: 'typescript',
+    });
+    await vscode.window.showTextDocument(document);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error generating types: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Validate a data file against its JSON Schema, report the records that
+ * don't match as problems and sum up the result
+ * @param diagnostics Reports the problems
+ * @param uri The data file
+ */
+async function validateData(
+  diagnostics: ValidationDiagnostics,
+  uri: vscode.Uri
+): Promise<void> {
+  const fileName = path.basename(uri.fsPath);
+  try {
+    if (!formatRegistry.getByPath(uri.fsPath)?.capabilities.read) {
+      vscode.window.showErrorMessage(`Unsupported file type: ${fileName}`);
+      return;
+    }
+
+    const result = await diagnostics.validate(uri);
+    if (!result) {
+      const generate = await vscode.window.showInformationMessage(
+        `${fileName} has no JSON Schema. Set one in the dataconverter.schemas setting, or generate one from the file.`,
+        'Generate JSON Schema'
+      );
+      if (generate) {
+        await generateJsonSchema(uri);
+      }
+      return;
+    }
+
+    const schemaName = path.basename(result.schemaPath);
+    if (result.errors.length === 0) {
+      vscode.window.showInformationMessage(
+        `${fileName} matches ${schemaName}.`
+      );
+    } else {
+      vscode.window.showWarningMessage(
+        `${fileName} has ${result.errors.length} validation errors against ${schemaName}. See the Problems panel for details.`
+      );
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error validating ${fileName}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Convert the text selected in an editor, open the result next to it and
+ * copy it to the clipboard
+ * @param editor The editor with the selection
+ * @param target The format to convert to
+ */
+async function convertSelection(
+  editor: vscode.TextEditor,
+  target: DataFormat
+): Promise<void> {
+  const text = editor.document.getText(editor.selection);
+  const source = getSelectionFormat(editor.document, text);
+  if (!source) {
+    vscode.window.showErrorMessage(
+      `Cannot convert a selection of ${path.basename(editor.document.fileName)}`
+    );
+    return;
+  }
+
+  const result = await convertText(
+    text,
+    source.id,
+    target.id,
+    getConversionSettings()
+  );
+  await vscode.env.clipboard.writeText(result.text);
+  const document = await vscode.workspace.openTextDocument({
+    content: result.text,
+    language: target.id,
+  });
+  await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+
+  vscode.window.showInformationMessage(
+    `Converted the selection to ${target.displayName} and copied it to the clipboard`
+  );
+  if (result.warnings.length > 0) {
+    vscode.window.showWarningMessage(result.warnings.join('\n'));
+  }
+}
+
+/**
+ * Find the format of text selected in a document: the format of the file,
+ * the format named by the document's language, or a guess from the text
+ * for untitled and plain text documents
+ * @param document The document holding the selection
+ * @param text The selected text
+ */
+function getSelectionFormat(
+  document: vscode.TextDocument,
+  text: string
+): DataFormat | undefined {
+  const format = formatRegistry.getByPath(document.fileName);
+  if (format?.capabilities.read && format.id !== delimitedTextFormat.id) {
+    return format;
+  }
+
+  const byLanguage = formatRegistry
+    .readable()
+    .find(
+      readable =>
+        readable.id === document.languageId ||
+        readable.extensions.includes(`.${document.languageId}`)
+    );
+  if (byLanguage) {
+    return byLanguage;
+  }
+
+  const start = text.trimStart();
+  return start.startsWith('[') || start.startsWith('{')
+    ? formatRegistry.get('json')
+    : start.startsWith('<')
+      ? formatRegistry.get('xml')
+      : formatRegistry.get(delimitedTextFormat.id);
+}
+
+/**
+ * Combine files into one Excel workbook with a worksheet per file, and open
+ * it
+ * @param uris The files to combine, in sheet order
+ */
+async function combineIntoWorkbook(uris: vscode.Uri[]): Promise<void> {
+  try {
+    const unsupported = uris.filter(
+      uri => !formatRegistry.getByPath(uri.fsPath)?.capabilities.read
+    );
+    if (unsupported.length > 0) {
+      vscode.window.showErrorMessage(
+        `Unsupported file format: ${unsupported
+          .map(uri => path.basename(uri.fsPath))
+          .join(', ')}`
+      );
+      return;
+    }
+
+    const target = formatRegistry.get('excel')!;
+    const settings = getConversionSettings();
+    const extension = getOutputExtension(target, settings.write);
+    const outputUri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(path.dirname(uris[0].fsPath), 'combined' + extension)
+      ),
+      filters: {
+        [target.displayName]: target.extensions.map(ext => ext.slice(1)),
+      },
+      saveLabel: 'Combine',
+    });
+    if (!outputUri) {
+      return; // User cancelled
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Combining ${uris.length} files into ${path.basename(
+          outputUri.fsPath
+        )}`,
+        cancellable: true,
+      },
+      (progress, token) =>
+        runCombineFiles(
+          uris.map(uri => uri.fsPath),
+          target.id,
+          outputUri.fsPath,
+          { ...settings, onProgress: p => progress.report(p) },
+          useWorkerThreads(),
+          token
+        )
+    );
+
+    vscode.window.showInformationMessage(
+      `Combined ${uris.length} files into ${path.basename(outputUri.fsPath)}`
+    );
+    vscode.commands.executeCommand('vscode.open', outputUri);
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      vscode.window.showInformationMessage('Conversion cancelled.');
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Error combining files: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Let the user choose the file type of a written workbook. Resolves to
+ * `undefined` when the user cancels.
+ */
+async function pickExcelFlavor(): Promise<ExcelFlavor | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    (Object.keys(EXCEL_FLAVORS) as ExcelFlavor[]).map(flavor => ({
+      label: `.${flavor}`,
+      description: EXCEL_FLAVORS[flavor],
+      flavor,
+    })),
+    { placeHolder: 'Select the file type of the workbook' }
+  );
+  return picked?.flavor;
+}
+
+/**
+ * Let the user choose which sheet of a multi-sheet file to convert, or all
+ * of them, or enter a query for formats that support one. Resolves to an
+ * empty selection when there is nothing to choose, and to `undefined` when
+ * the user cancels.
+ * @param source The format of the file
+ * @param target The format to convert to
+ * @param filePath The file
+ */
+async function pickSheet(
+  source: DataFormat,
+  target: DataFormat,
+  filePath: string
+): Promise<
+  { sheet?: string; allSheets?: boolean; query?: string } | undefined
+> {
+  const sheetNames = await source.listSheets!(filePath);
+  if (sheetNames.length <= 1 && !source.queryable) {
+    return {};
+  }
+
+  const allSheets = {
+    label: 'All sheets',
+    description: target.writeSheets
+      ? `One ${target.displayName} file keyed by sheet name`
+      : `One ${target.extensions[0]} file per sheet`,
+  };
+  const runQuery = {
+    label: 'Run a query...',
+    description: 'Convert the result of a SQL query',
+  };
+  const picked = await vscode.window.showQuickPick(
+    [
+      ...(sheetNames.length > 1 ? [allSheets] : []),
+      ...sheetNames.map(name => ({ label: name, description: '' })),
+      ...(source.queryable ? [runQuery] : []),
+    ],
+    {
+      placeHolder: source.queryable
+        ? 'Select the table to convert, or run a query'
+        : 'Select the sheet to convert',
+    }
+  );
+  if (!picked) {
+    return undefined;
+  }
+  if (picked === runQuery) {
+    const query = await vscode.window.showInputBox({
+      prompt: `Enter the query to run on ${path.basename(filePath)}`,
+      placeHolder: 'SELECT * FROM orders WHERE total > 100',
+      validateInput: value =>
+        value.trim() ? undefined : 'The query cannot be empty',
+    });
+    return query ? { query } : undefined;
+  }
+  return picked === allSheets ? { allSheets: true } : { sheet: picked.label };
+}
+
+/**
+ * Let the user choose which array of objects in a JSON or YAML document
+ * holds the records. Resolves to `auto` when there is nothing to choose
+ * from, and to `undefined` when the user cancels.
+ * @param format The format of the file, JSON or YAML
+ * @param filePath The JSON or YAML file
+ */
+async function pickRecordPath(
+  format: DataFormat,
+  filePath: string
+): Promise<string | undefined> {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const document =
+    format.id === 'yaml' ? parseYamlDocument(text) : JSON.parse(text);
+  const candidates = findRecordArrays(document);
+  if (candidates.length <= 1) {
+    return AUTO_RECORD_PATH;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    candidates.map(candidate => ({
+      label: candidate.path,
+      description: `${candidate.records.length} records`,
+      detail: candidate.pointer,
+    })),
+    { placeHolder: 'Select the array of records to convert' }
+  );
+  return picked?.label;
+}
+
+/**
+ * Check that a file holds data of its format before it is converted, and
+ * tell the user when it doesn't, e.g. for YAML transformation rules. The
+ * context menus offer conversions by extension only.
+ * @param format The format of the file
+ * @param filePath The file
+ * @returns Whether the file can be converted
+ */
+function checkDataFile(
+  format: DataFormat | undefined,
+  filePath: string
+): boolean {
+  if (!format?.isData || format.isData(filePath)) {
+    return true;
+  }
+  vscode.window.showErrorMessage(
+    `${path.basename(filePath)} is not a ${format.displayName} data file and cannot be converted.`
+  );
+  return false;
+}
+
+/**
+ * Let the user confirm the sniffed dialect of a delimited file or choose
+ * another delimiter. Resolves to `undefined` when the user cancels.
+ * @param format The delimited format of the file
+ * @param filePath The delimited file
+ */
+async function pickDialect(
+  format: DataFormat,
+  filePath: string
+): Promise<CsvDialect | undefined> {
+  const detected = getFileDialect(format, filePath);
+  const items = [
+    {
+      label: `Detected: ${describeDelimiter(detected.delimiter)}`,
+      description: describeDialect(detected),
+      delimiter: detected.delimiter,
+    },
+    ...[',', '\t', ';', '|']
+      .filter(delimiter => delimiter !== detected.delimiter)
+      .map(delimiter => ({
+        label: describeDelimiter(delimiter),
+        description: '',
+        delimiter,
+      })),
+    { label: 'Other...', description: '', delimiter: '' },
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select the delimiter of ${path.basename(filePath)}`,
+  });
+  if (!picked) {
+    return undefined;
+  }
+
+  let delimiter = picked.delimiter;
+  if (!delimiter) {
+    const input = await vscode.window.showInputBox({
+      prompt: 'Enter the delimiter (use \\t for a tab)',
+      validateInput: value =>
+        value ? undefined : 'The delimiter cannot be empty',
+    });
+    if (!input) {
+      return undefined;
+    }
+    delimiter = parseDelimiter(input);
+  }
+  return resolveDialect(detected, { delimiter });
+}
+
+/**
+ * Publish the extensions of the registered formats as context keys, which
+ * the `when` clauses of the context menus in package.json test against
+ */
+function updateFormatContextKeys(): void {
+  const extensionsOf = (formats: DataFormat[]) =>
+    formats.flatMap(format =>
+      format.extensions.flatMap(ext => [ext, ext.toUpperCase()])
+    );
+
+  vscode.commands.executeCommand(
+    'setContext',
+    'dataconverter.readableExtensions',
+    extensionsOf(formatRegistry.readable())
+  );
+  vscode.commands.executeCommand(
+    'setContext',
+    'dataconverter.previewableExtensions',
+    extensionsOf(formatRegistry.previewable())
+  );
+  vscode.commands.executeCommand(
+    'setContext',
+    'dataconverter.fixedWidthExtensions',
+    extensionsOf([fixedWidthFormat])
+  );
+  vscode.commands.executeCommand(
+    'setContext',
+    'dataconverter.delimitedExtensions',
+    extensionsOf(formatRegistry.readable().filter(format => format.delimiter))
+  );
+  for (const target of formatRegistry.writable()) {
+    vscode.commands.executeCommand(
+      'setContext',
+      `dataconverter.sourcesFor.${target.id}`,
+      extensionsOf(
+        formatRegistry
+          .readable()
+          .filter(source => formatRegistry.canConvert(source.id, target.id))
+      )
+    );
+  }
+}
+
+export function deactivate() {
+  disposeWorkerPool();
+}
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  FixedWidthLayout,
+  getLayoutPath,
+  readLayout,
+  suggestLayout,
+  writeLayout,
+} from './formats/fixedWidth';
+import { escapeHtml } from './formats/table';
+
+/** Lines of the file shown in the editor */
+const SAMPLE_LINES = 30;
+/** Bytes read from the start of the file for the sample lines */
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Read the first lines of a file without loading all of it
+ * @param filePath The file
+ */
+function readSampleLines(filePath: string): string[] {
+  const buffer = Buffer.alloc(SAMPLE_BYTES);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, buffer, 0, SAMPLE_BYTES, 0);
+    return buffer
+      .toString('utf8', 0, bytesRead)
+      .split(/\r?\n/)
+      .slice(0, SAMPLE_LINES);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Editor for the column layout of a fixed-width file. Shows the first lines
+ * of the file, where clicking a position starts or removes a column, and
+ * saves the layout to the sidecar file the fixed-width reader uses.
+ */
+export class FixedWidthLayoutPanel {
+  public static currentPanel: FixedWidthLayoutPanel | undefined;
+  private readonly _panel: vscode.WebviewPanel;
+  private _fileUri: vscode.Uri | undefined;
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._panel = vscode.window.createWebviewPanel(
+      'datamorphFixedWidthLayout',
+      'Fixed-Width Layout',
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    this._panel.webview.onDidReceiveMessage(
+      message => {
+        switch (message.command) {
+          case 'save':
+            this._save(message.layout);
+            return;
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    // Clean up resources when panel is closed
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+  }
+
+  public static create(): FixedWidthLayoutPanel {
+    if (FixedWidthLayoutPanel.currentPanel) {
+      FixedWidthLayoutPanel.currentPanel._panel.reveal();
+    } else {
+      FixedWidthLayoutPanel.currentPanel = new FixedWidthLayoutPanel();
+    }
+    return FixedWidthLayoutPanel.currentPanel;
+  }
+
+  /**
+   * Edit the layout of a file, starting from its saved layout or, when it
+   * has none, from columns suggested by the blank positions of its lines
+   * @param fileUri The fixed-width file
+   */
+  public show(fileUri: vscode.Uri): void {
+    const lines = readSampleLines(fileUri.fsPath);
+    const layout = fs.existsSync(getLayoutPath(fileUri.fsPath))
+      ? readLayout(fileUri.fsPath)
+      : suggestLayout(lines);
+
+    this._fileUri = fileUri;
+    this._panel.title = `Fixed-Width Layout: ${path.basename(fileUri.fsPath)}`;
+    this._panel.webview.html = this._getWebviewContent(
+      path.basename(fileUri.fsPath),
+      lines,
+      layout
+    );
+  }
+
+  private _save(layout: FixedWidthLayout): void {
+    const fileUri = this._fileUri;
+    if (!fileUri) {
+      return;
+    }
+    try {
+      writeLayout(fileUri.fsPath, layout);
+    } catch (error) {
+      vscode.window.showErrorMessage((error as Error).message);
+      return;
+    }
+    vscode.window
+      .showInformationMessage(
+        `Saved the layout to ${path.basename(getLayoutPath(fileUri.fsPath))}`,
+        'Preview Data'
+      )
+      .then(action => {
+        if (action === 'Preview Data') {
+          vscode.commands.executeCommand('dataconverter.previewData', fileUri);
+        }
+      });
+  }
+
+  private _getWebviewContent(
+    fileName: string,
+    lines: string[],
+    layout: FixedWidthLayout
+  ): string {
+    // Embedded in a script, so the closing tag must not appear in the data
+    const state = JSON.stringify({ lines, layout }).replace(/</g, '\\u003c');
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Fixed-Width Layout</title>
+        <style>
+          body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            padding: 10px;
+          }
+
+          .toolbar {
+            margin-bottom: 12px;
+          }
+
+          .toolbar input {
+            width: 4em;
+            margin-right: 12px;
+          }
+
+          .sample {
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre;
+            overflow-x: auto;
+            margin-bottom: 20px;
+            cursor: pointer;
+          }
+
+          .sample span.column-0 {
+            background-color: var(--vscode-editor-selectionBackground);
+          }
+
+          .sample span.column-1 {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+          }
+
+          .sample span.start {
+            box-shadow: inset 2px 0 var(--vscode-focusBorder);
+          }
+
+          .sample span.skipped {
+            opacity: 0.5;
+          }
+
+          .ruler {
+            opacity: 0.6;
+          }
+
+          table {
+            border-collapse: collapse;
+          }
+
+          th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 8px;
+            text-align: left;
+          }
+        </style>
+      </head>
+      <body>
+        <h2>${escapeHtml(fileName)}</h2>
+        <p>Click a position to start a column there, or the start of a column to remove it.</p>
+        <div class="toolbar">
+          <label for="skipLines">Lines to skip:</label>
+          <input id="skipLines" type="number" min="0">
+          <button id="save">Save Layout</button>
+        </div>
+        <div class="sample" id="sample"></div>
+        <table>
+          <thead>
+            <tr><th>Name</th><th>Start</th><th>Width</th><th>Type</th></tr>
+          </thead>
+          <tbody id="columns"></tbody>
+        </table>
+        <script>
+          const vscode = acquireVsCodeApi();
+          const { lines, layout } = ${state};
+          let columns = layout.columns
+            .map(column => ({ type: 'string', ...column }))
+            .sort((a, b) => a.start - b.start);
+          const lineLength = Math.max(1, ...lines.map(line => line.length));
+
+          const columnAt = position =>
+            columns.findIndex(
+              column => position >= column.start && position < column.start + column.width
+            );
+
+          // Split the column at a 1-based position, or start a new column
+          // there, or remove the column starting there
+          function toggleBoundary(position) {
+            const index = columnAt(position);
+            if (index < 0) {
+              const next = columns.find(column => column.start > position);
+              columns.push({
+                name: 'column' + (columns.length + 1),
+                start: position,
+                width: (next ? next.start : lineLength + 1) - position,
+                type: 'string',
+              });
+            } else if (columns[index].start === position) {
+              const [removed] = columns.splice(index, 1);
+              if (index > 0 && columns[index - 1].start + columns[index - 1].width === position) {
+                columns[index - 1].width += removed.width;
+              }
+            } else {
+              const column = columns[index];
+              const width = position - column.start;
+              columns.push({
+                name: 'column' + (columns.length + 1),
+                start: position,
+                width: column.width - width,
+                type: column.type,
+              });
+              column.width = width;
+            }
+            columns.sort((a, b) => a.start - b.start);
+            render();
+          }
+
+          function escape(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+          }
+
+          function renderSample() {
+            const skipLines = Number(document.getElementById('skipLines').value) || 0;
+            let ruler = '';
+            for (let position = 1; position <= lineLength; position++) {
+              ruler += position % 10 === 0 ? String(position / 10 % 10) : position % 5 === 0 ? '+' : '.';
+            }
+            const rows = lines.map((line, lineIndex) => {
+              let html = '';
+              for (let position = 1; position <= lineLength; position++) {
+                const index = columnAt(position);
+                const classes = [];
+                if (index >= 0) {
+                  classes.push('column-' + (index % 2));
+                  if (columns[index].start === position) {
+                    classes.push('start');
+                  }
+                }
+                if (lineIndex < skipLines) {
+                  classes.push('skipped');
+                }
+                html += '<span data-position="' + position + '" class="' + classes.join(' ') + '">' +
+                  escape(line[position - 1] || ' ') + '</span>';
+              }
+              return html;
+            });
+            document.getElementById('sample').innerHTML =
+              '<div class="ruler">' + ruler + '</div>' + rows.join('\\n');
+          }
+
+          function renderColumns() {
+            document.getElementById('columns').innerHTML = columns
+              .map((column, index) =>
+                '<tr>' +
+                '<td><input data-index="' + index + '" data-field="name" value="' + escape(column.name) + '"></td>' +
+                '<td><input data-index="' + index + '" data-field="start" type="number" min="1" value="' + column.start + '"></td>' +
+                '<td><input data-index="' + index + '" data-field="width" type="number" min="1" value="' + column.width + '"></td>' +
+                '<td><select data-index="' + index + '" data-field="type">' +
+                ['string', 'number', 'boolean']
+                  .map(type => '<option' + (type === column.type ? ' selected' : '') + '>' + type + '</option>')
+                  .join('') +
+                '</select></td>' +
+                '</tr>'
+              )
+              .join('');
+          }
+
+          function render() {
+            renderSample();
+            renderColumns();
+          }
+
+          document.getElementById('sample').addEventListener('click', event => {
+            const position = Number(event.target.dataset.position);
+            if (position) {
+              toggleBoundary(position);
+            }
+          });
+
+          document.getElementById('columns').addEventListener('change', event => {
+            const { index, field } = event.target.dataset;
+            const column = columns[Number(index)];
+            column[field] = field === 'start' || field === 'width'
+              ? Number(event.target.value)
+              : event.target.value;
+            columns.sort((a, b) => a.start - b.start);
+            render();
+          });
+
+          document.getElementById('skipLines').value = layout.skipLines || 0;
+          document.getElementById('skipLines').addEventListener('input', renderSample);
+
+          document.getElementById('save').addEventListener('click', () => {
+            vscode.postMessage({
+              command: 'save',
+              layout: {
+                skipLines: Number(document.getElementById('skipLines').value) || 0,
+                columns,
+              },
+            });
+          });
+
+          render();
+        </script>
+      </body>
+      </html>
+    `;
+  }
+
+  public dispose() {
+    FixedWidthLayoutPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
@@ -0,0 +1,332 @@
+import { createDataset, Dataset, DataRecord } from './dataset';
+import { stringifyJson } from './precision';
+
+/**
+ * How arrays are written when flattening:
+ * - `index`: one column per element, e.g. `tags[0]`, `tags[1]`
+ * - `join`: arrays of plain values are joined into one cell
+ * - `json`: the array is written as a JSON string
+ */
+export type ArrayFlattenMode = 'index' | 'join' | 'json';
+
+export interface FlattenOptions {
+  /** Placed between the keys of nested objects, e.g. `address.city` */
+  separator: string;
+  arrays: ArrayFlattenMode;
+  /** Placed between array elements in `join` mode */
+  arrayJoiner: string;
+  /** Values nested deeper than this are written as JSON strings; 0 means no limit */
+  maxDepth: number;
+}
+
+export const DEFAULT_FLATTEN_OPTIONS: FlattenOptions = {
+  separator: '.',
+  arrays: 'index',
+  arrayJoiner: ';',
+  maxDepth: 0,
+};
+
+const isPlainObject = (value: unknown): value is DataRecord =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+/**
+ * Flatten a record so that nested objects and arrays become columns of
+ * their own, e.g. `{ address: { city: 'Austin' } }` becomes
+ * `{ 'address.city': 'Austin' }`
+ * @param record The record to flatten
+ * @param options How to name columns and handle arrays
+ */
+export function flattenRecord(
+  record: DataRecord,
+  options: FlattenOptions = DEFAULT_FLATTEN_OPTIONS
+): DataRecord {
+  const result: DataRecord = {};
+
+  const visit = (value: unknown, key: string, depth: number) => {
+    const atDepthLimit = options.maxDepth > 0 && depth >= options.maxDepth;
+
+    if (isPlainObject(value)) {
+      const entries = Object.entries(value);
+      if (entries.length === 0 || atDepthLimit) {
+        result[key] = stringifyJson(value);
+        return;
+      }
+      entries.forEach(([childKey, childValue]) =>
+        visit(childValue, `${key}${options.separator}${childKey}`, depth + 1)
+      );
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length === 0 || atDepthLimit || options.arrays === 'json') {
+        result[key] = stringifyJson(value);
+      } else if (options.arrays === 'join') {
+        result[key] = value.some(item => typeof item === 'object' && item)
+          ? stringifyJson(value)
+          : value.join(options.arrayJoiner);
+      } else {
+        value.forEach((item, index) =>
+          visit(item, `${key}[${index}]`, depth + 1)
+        );
+      }
+      return;
+    }
+
+    result[key] = value;
+  };
+
+  Object.entries(record).forEach(([key, value]) => visit(value, key, 1));
+  return result;
+}
+
+/**
+ * Flatten every row of a dataset
+ * @param dataset The dataset to flatten
+ * @param options How to name columns and handle arrays
+ */
+export function flattenDataset(
+  dataset: Dataset,
+  options: FlattenOptions = DEFAULT_FLATTEN_OPTIONS
+): Dataset {
+  const rows = dataset.rows.map(row =>
+    isPlainObject(row) ? flattenRecord(row, options) : row
+  );
+
+  // Keep columns that only some rows have next to their siblings, so
+  // `tags[2]` follows `tags[1]` even if it first appears in a later row
+  const columns: string[] = [];
+  rows.forEach(row => {
+    let insertAt = 0;
+    Object.keys(row).forEach(key => {
+      const index = columns.indexOf(key);
+      if (index >= 0) {
+        insertAt = index + 1;
+      } else {
+        columns.splice(insertAt++, 0, key);
+      }
+    });
+  });
+
+  return createDataset(rows, columns);
+}
+
+export interface UnflattenOptions {
+  /** Rebuild nested objects and arrays from headers like `items[0].sku` */
+  headers: boolean;
+  /** Separator between nested keys in the headers */
+  separator: string;
+  /** Parse cells holding JSON object or array text back into structures */
+  parseJsonCells: boolean;
+}
+
+export const DEFAULT_UNFLATTEN_OPTIONS: UnflattenOptions = {
+  headers: true,
+  separator: '.',
+  parseJsonCells: true,
+};
+
+type PathSegment = string | number;
+
+/**
+ * Split a flattened column name into object keys and array indexes, e.g.
+ * `items[0].sku` becomes `['items', 0, 'sku']`. Columns with an index of
+ * `maxIndex` or more stay a single key, since a flattened array has a
+ * column per item and indexes like `a[4294967294]` would fill huge arrays.
+ * @param column The column name
+ * @param separator Separator between nested keys
+ * @param maxIndex The first index that is not read as one
+ */
+function parsePath(
+  column: string,
+  separator: string,
+  maxIndex: number
+): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const parts = separator ? column.split(separator) : [column];
+
+  for (const part of parts) {
+    const match = /^([^[\]]*)((?:\[\d+\])*)$/.exec(part);
+    if (!match || (!match[1] && segments.length === 0)) {
+      return [column];
+    }
+    if (match[1]) {
+      segments.push(match[1]);
+    } else if (!match[2]) {
+      // An empty key, e.g. from a doubled separator, is not a path
+      return [column];
+    }
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      if (Number(index[1]) >= maxIndex) {
+        return [column];
+      }
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Parse text that looks like a JSON object or array, leaving anything else
+ * as it is
+ */
+function parseJsonCell(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const text = value.trim();
+  if (
+    !(text.startsWith('{') && text.endsWith('}')) &&
+    !(text.startsWith('[') && text.endsWith(']'))
+  ) {
+    return value;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Keys that would reach the prototypes of the rebuilt objects, e.g. a
+ * `__proto__.polluted` header
+ */
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Set a value at a path, creating objects and arrays along the way.
+ * Returns false when the path collides with a value that is already set,
+ * or goes through a key that is not safe to set.
+ */
+function setPath(
+  target: DataRecord,
+  segments: PathSegment[],
+  value: unknown
+): boolean {
+  if (segments.some(segment => UNSAFE_SEGMENTS.has(String(segment)))) {
+    return false;
+  }
+  let node: any = target;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    const container = typeof segments[i + 1] === 'number' ? [] : {};
+    if (node[segment] === undefined || node[segment] === null) {
+      node[segment] = container;
+    } else if (
+      typeof node[segment] !== 'object' ||
+      node[segment] === null ||
+      Array.isArray(node[segment]) !== Array.isArray(container)
+    ) {
+      return false;
+    }
+    node = node[segment];
+  }
+
+  const last = segments[segments.length - 1];
+  if (node[last] !== undefined && node[last] !== null) {
+    return false;
+  }
+  node[last] = value;
+  return true;
+}
+
+/**
+ * Fill holes left in arrays by empty cells, so `[1, , 3]` becomes
+ * `[1, null, 3]`
+ */
+function fillArrayHoles(value: unknown): void {
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      if (!(i in value)) {
+        value[i] = null;
+      }
+      fillArrayHoles(value[i]);
+    }
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(fillArrayHoles);
+  }
+}
+
+/**
+ * Reverse {@link flattenRecord}: rebuild nested objects and arrays from
+ * dot-path columns, e.g. `{ 'address.city': 'Austin' }` becomes
+ * `{ address: { city: 'Austin' } }`. Empty cells inside arrays are dropped,
+ * so rows with shorter arrays than others keep their original length.
+ * @param record The flat record
+ * @param options Which columns and cells to expand
+ */
+export function unflattenRecord(
+  record: DataRecord,
+  options: UnflattenOptions = DEFAULT_UNFLATTEN_OPTIONS
+): DataRecord {
+  const result: DataRecord = {};
+  const collisions: [string, unknown][] = [];
+  const columns = Object.keys(record);
+  const paths = columns.map(column =>
+    options.headers
+      ? parsePath(column, options.separator, columns.length)
+      : [column]
+  );
+
+  // Columns that clash with a filled plain column, e.g. `a.b` next to `a`,
+  // or with each other, are kept under their flat name
+  const cells = Object.values(record);
+  const plainColumns = new Set(
+    paths
+      .filter(
+        (path, index) =>
+          path.length === 1 &&
+          cells[index] !== null &&
+          cells[index] !== undefined
+      )
+      .map(path => path[0])
+  );
+
+  Object.entries(record).forEach(([column, cell], index) => {
+    const value = options.parseJsonCells ? parseJsonCell(cell) : cell;
+    const segments = paths[index];
+
+    if (segments.length > 1) {
+      const insideArray = segments.some(segment => typeof segment === 'number');
+      if (insideArray && (value === null || value === undefined)) {
+        return;
+      }
+      if (plainColumns.has(segments[0])) {
+        collisions.push([column, value]);
+        return;
+      }
+    }
+    if (!setPath(result, segments, value)) {
+      collisions.push([column, value]);
+    }
+  });
+  collisions
+    .filter(([, value]) => value !== null && value !== undefined)
+    .forEach(([column, value]) => {
+      // Defined rather than assigned, so a `__proto__` column stays a column
+      Object.defineProperty(result, column, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    });
+
+  fillArrayHoles(result);
+  return result;
+}
+
+/**
+ * Unflatten every row of a dataset
+ * @param dataset The flat dataset
+ * @param options Which columns and cells to expand
+ */
+export function unflattenDataset(
+  dataset: Dataset,
+  options: UnflattenOptions = DEFAULT_UNFLATTEN_OPTIONS
+): Dataset {
+  return createDataset(dataset.rows.map(row => unflattenRecord(row, options)));
+}
@@ -0,0 +1,364 @@
+import * as path from 'path';
+import { Dataset, SheetDataset } from './dataset';
+import { FlattenOptions, UnflattenOptions } from './flatten';
+import { CsvDialect } from './dialect';
+import { TableOptions } from './formats/table';
+import { SqlOptions } from './formats/sql';
+import { ParquetCompression } from './formats/parquet';
+import { ExcelFlavor } from './formats/excel';
+import { LargeIntegers } from './precision';
+import { DateOptions } from './dates';
+import { ColumnTypes } from './columnTypes';
+
+/**
+ * Options passed to a format reader
+ */
+export interface FormatReadOptions {
+  preserveTypes?: boolean;
+  /** Sheet to read from multi-sheet files; the first sheet when omitted */
+  sheet?: string;
+  /**
+   * JSONPath or JSON Pointer of the records in a document, or `auto`;
+   * hierarchical readers only
+   */
+  recordPath?: string;
+  /** Rebuild nested values from flattened columns; tabular readers only */
+  unflatten?: UnflattenOptions;
+  /**
+   * Parts of the dialect of delimited files that replace the sniffed ones,
+   * e.g. `{ delimiter: ';' }`
+   */
+  dialect?: Partial<CsvDialect>;
+  /** Query whose result is read instead of a sheet; queryable formats only */
+  query?: string;
+  /** Name of the element holding each record, or `auto`; XML readers only */
+  recordElement?: string;
+  /**
+   * Read integers beyond ±2^53 as text or as `BigInt`s; text by default.
+   * Other numbers that would lose digits are always kept as text.
+   */
+  largeIntegers?: LargeIntegers;
+  /** Receives problems that did not stop the file from being read */
+  onWarning?: (message: string) => void;
+  [key: string]: any;
+}
+
+/**
+ * Options passed to a format writer
+ */
+export interface FormatWriteOptions {
+  indentation?: number;
+  /** Column delimiter of written CSV files; TSV and PSV keep their own */
+  delimiter?: string;
+  /** Expand nested objects and arrays into columns; tabular writers only */
+  flatten?: FlattenOptions;
+  /** Element around all records; XML writers only */
+  rootElement?: string;
+  /** Element of each record; XML writers only */
+  rowElement?: string;
+  /** Alignment and truncation limits; table writers only */
+  table?: Partial<TableOptions>;
+  /** Dialect, table name and batch size; SQL writers only */
+  sql?: Partial<SqlOptions>;
+  /** Compression codec of the column chunks; Parquet writers only */
+  compression?: ParquetCompression;
+  /** File type of written workbooks; Excel writers only */
+  excelFlavor?: ExcelFlavor;
+  /**
+   * Format and time zone of written dates. Formats that store dates apply
+   * them to their date cells; the dates of other formats are rewritten
+   * before they are written.
+   */
+  dates?: DateOptions;
+  /**
+   * Types of the columns, as pinned by the user or all `string` when types
+   * are not preserved. Formats that store dates write date cells only for
+   * `date` columns, and for columns without a type here whose values are
+   * all dates.
+   */
+  columnTypes?: ColumnTypes;
+  /** Receives problems that did not stop the file from being written */
+  onWarning?: (message: string) => void;
+  [key: string]: any;
+}
+
+/**
+ * A column of the schema embedded in a file, e.g. of a Parquet file
+ */
+export interface SchemaField {
+  name: string;
+  /** Type as named by the file format, e.g. `Int64` */
+  type: string;
+  nullable: boolean;
+}
+
+/**
+ * What a format can be used for. The commands, context menus, batch dialog
+ * and preview only offer a format for the operations it declares here.
+ */
+export interface FormatCapabilities {
+  read: boolean;
+  write: boolean;
+  preview: boolean;
+}
+
+/**
+ * A data format that can be registered with the {@link FormatRegistry}
+ */
+export interface DataFormat {
+  /** Unique identifier, e.g. `csv` */
+  id: string;
+  /** Name shown in pickers and dialogs, e.g. `CSV` */
+  displayName: string;
+  /** Lower-case file extensions including the leading dot; the first one is used for output files */
+  extensions: string[];
+  capabilities: FormatCapabilities;
+  /** Output files are binary and should not be opened in a text editor */
+  binary?: boolean;
+  /**
+   * Files hold dates as dates, e.g. the date cells of workbooks. Writers
+   * apply the `dates` write option themselves instead of being given
+   * rewritten text.
+   */
+  storesDates?: boolean;
+  /**
+   * Writing adds to an existing output file instead of replacing it, e.g.
+   * the tables of a database
+   */
+  mergesIntoOutput?: boolean;
+  /** Command that converts the active or selected file into this format */
+  commandId?: string;
+  /**
+   * Extension of written files when it depends on the writer options, e.g.
+   * the file type of workbooks; the first extension otherwise
+   */
+  getOutputExtension?(options: FormatWriteOptions): string;
+  /**
+   * The commands of the format convert the text selected in the editor,
+   * when there is a selection, and open the result in a new editor instead
+   * of writing a file. For formats that are pasted elsewhere, e.g. tables.
+   */
+  convertsSelections?: boolean;
+  /**
+   * Column delimiter of delimited text formats such as CSV. Files of these
+   * formats are sniffed for their dialect and can be streamed like CSV.
+   */
+  delimiter?: string;
+  read?(filePath: string, options: FormatReadOptions): Promise<Dataset>;
+  write?(
+    dataset: Dataset,
+    outputPath: string,
+    options: FormatWriteOptions
+  ): Promise<void>;
+  /**
+   * Check whether a file with one of the format's extensions holds data.
+   * Files that don't, such as YAML transformation rules, are skipped by
+   * batch conversion and refused by the convert commands. Also decides between formats that share an
+   * extension, e.g. fixed-width and delimited text files.
+   */
+  isData?(filePath: string): boolean;
+  /**
+   * Files can be read through a query in the `query` read option, e.g. the
+   * tables of a database
+   */
+  queryable?: boolean;
+  /** Read the schema embedded in a file, shown above the preview */
+  readSchema?(filePath: string): Promise<SchemaField[]>;
+  /** List the sheets of a multi-sheet file, e.g. the worksheets of a workbook */
+  listSheets?(filePath: string): Promise<string[]>;
+  /**
+   * Convert every sheet whenever the target format can hold several, not
+   * only when asked to, e.g. JSON objects of arrays into workbooks
+   */
+  sheetsByDefault?: boolean;
+  /**
+   * Read every sheet of a multi-sheet file, in file order. Files that don't
+   * hold several sheets may return an empty list.
+   */
+  readSheets?(
+    filePath: string,
+    options: FormatReadOptions
+  ): Promise<SheetDataset[]>;
+  /** Write several named datasets into a single file */
+  writeSheets?(
+    sheets: SheetDataset[],
+    outputPath: string,
+    options: FormatWriteOptions
+  ): Promise<void>;
+}
+
+/**
+ * Minimal disposable shape, compatible with `vscode.Disposable`
+ */
+export interface RegistryDisposable {
+  dispose(): void;
+}
+
+/**
+ * Keeps track of every data format the extension knows how to read and write
+ */
+export class FormatRegistry {
+  private readonly _formats = new Map<string, DataFormat>();
+  private readonly _listeners: Array<() => void> = [];
+
+  /**
+   * Register a format. Returns a disposable that unregisters it again.
+   * @param format The format definition
+   */
+  public register(format: DataFormat): RegistryDisposable {
+    if (this._formats.has(format.id)) {
+      throw new Error(`Format '${format.id}' is already registered`);
+    }
+    if (format.capabilities.read && !format.read) {
+      throw new Error(`Format '${format.id}' declares read but has no reader`);
+    }
+    if (format.capabilities.preview && !format.read) {
+      throw new Error(
+        `Format '${format.id}' declares preview but has no reader`
+      );
+    }
+    if (format.capabilities.write && !format.write) {
+      throw new Error(`Format '${format.id}' declares write but has no writer`);
+    }
+
+    this._formats.set(format.id, {
+      ...format,
+      extensions: format.extensions.map(ext => ext.toLowerCase()),
+    });
+    this._notify();
+
+    return {
+      dispose: () => {
+        if (this._formats.delete(format.id)) {
+          this._notify();
+        }
+      },
+    };
+  }
+
+  /**
+   * Listen for formats being registered or unregistered
+   * @param listener Called after every change
+   */
+  public onDidChange(listener: () => void): RegistryDisposable {
+    this._listeners.push(listener);
+    return {
+      dispose: () => {
+        const index = this._listeners.indexOf(listener);
+        if (index >= 0) {
+          this._listeners.splice(index, 1);
+        }
+      },
+    };
+  }
+
+  public get(id: string): DataFormat | undefined {
+    return this._formats.get(id);
+  }
+
+  /**
+   * Find the format responsible for a file based on its extension, and
+   * on its content when several formats share the extension
+   * @param filePath The file path or name
+   */
+  public getByPath(filePath: string): DataFormat | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!extension) {
+      return undefined;
+    }
+    const formats = this.list().filter(format =>
+      format.extensions.includes(extension)
+    );
+    if (formats.length < 2) {
+      return formats[0];
+    }
+    // A format that recognizes the file wins over formats that don't check
+    return (
+      formats.find(format => format.isData?.(filePath)) ??
+      formats.find(format => !format.isData) ??
+      formats[0]
+    );
+  }
+
+  public list(): DataFormat[] {
+    return [...this._formats.values()];
+  }
+
+  public readable(): DataFormat[] {
+    return this.list().filter(format => format.capabilities.read);
+  }
+
+  public writable(): DataFormat[] {
+    return this.list().filter(format => format.capabilities.write);
+  }
+
+  public previewable(): DataFormat[] {
+    return this.list().filter(format => format.capabilities.preview);
+  }
+
+  /**
+   * Check whether a file of one format can be converted to another
+   * @param sourceId The source format id
+   * @param targetId The target format id
+   */
+  public canConvert(sourceId: string, targetId: string): boolean {
+    const source = this.get(sourceId);
+    const target = this.get(targetId);
+    return (
+      !!source &&
+      !!target &&
+      source.id !== target.id &&
+      source.capabilities.read &&
+      target.capabilities.write
+    );
+  }
+
+  private _notify(): void {
+    this._listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Build the output path for a file converted into the given format
+ * @param filePath The source file path
+ * @param format The target format
+ * @param options Writer options, which may decide the extension
+ */
+export function getOutputPath(
+  filePath: string,
+  format: DataFormat,
+  options: FormatWriteOptions = {}
+): string {
+  const extension = path.extname(filePath);
+  const basePath = extension ? filePath.slice(0, -extension.length) : filePath;
+  return basePath + getOutputExtension(format, options);
+}
+
+/**
+ * Get the extension of files written in the given format
+ * @param format The target format
+ * @param options Writer options, which may decide the file type
+ */
+export const getOutputExtension = (
+  format: DataFormat,
+  options: FormatWriteOptions = {}
+): string => format.getOutputExtension?.(options) ?? format.extensions[0];
+
+/**
+ * Get the output path for one sheet of a multi-sheet conversion, e.g.
+ * `report.Summary.csv` for the `Summary` sheet of `report.csv`. Characters
+ * that are not allowed in file names are replaced.
+ * @param outputPath The output path of the whole conversion
+ * @param sheetName The sheet name
+ */
+export function getSheetOutputPath(
+  outputPath: string,
+  sheetName: string
+): string {
+  const extension = path.extname(outputPath);
+  const basePath = extension
+    ? outputPath.slice(0, -extension.length)
+    : outputPath;
+  const safeName = sheetName.replace(/[\\/:*?"<>|]/g, '_');
+  return `${basePath}.${safeName}${extension}`;
+}
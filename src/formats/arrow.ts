@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import {
+  Bool,
+  DataType,
+  Field,
+  Float64,
+  Int32,
+  Int64,
+  Table,
+  tableFromIPC,
+  tableToIPC,
+  Utf8,
+  Vector,
+  vectorFromArray,
+} from 'apache-arrow';
+import {
+  DataFormat,
+  FormatReadOptions,
+  FormatWriteOptions,
+  SchemaField,
+} from '../formatRegistry';
+import { createDataset, Dataset, DataRecord, DatasetColumn } from '../dataset';
+import { flattenDataset, unflattenDataset } from '../flatten';
+import {
+  DEFAULT_LARGE_INTEGERS,
+  describeTextNumbers,
+  LargeIntegers,
+  stringifyJson,
+} from '../precision';
+
+const isInt32 = (value: number): boolean =>
+  value >= -2147483648 && value <= 2147483647;
+
+/**
+ * Convert a value read from an Arrow column into a dataset value. 64-bit
+ * integers that don't fit a number are read as text or as `BigInt`s, as
+ * `largeIntegers` asks, timestamps and dates as ISO 8601 text, and binary
+ * data as base64.
+ * @param value The value
+ * @param type The Arrow type of the value
+ * @param largeIntegers How integers beyond ±2^53 are read
+ * @param onTextNumber Called for each integer kept as text
+ */
+function fromArrowValue(
+  value: unknown,
+  type: DataType,
+  largeIntegers: LargeIntegers,
+  onTextNumber: () => void
+): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'bigint') {
+    if (Number.isSafeInteger(Number(value))) {
+      return Number(value);
+    }
+    if (largeIntegers === 'number') {
+      return value;
+    }
+    onTextNumber();
+    return value.toString();
+  }
+  if (DataType.isTimestamp(type) || DataType.isDate(type)) {
+    return new Date(Number(value)).toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (DataType.isList(type) || DataType.isFixedSizeList(type)) {
+    const itemType = type.children[0].type;
+    return [...(value as Vector)].map(item =>
+      fromArrowValue(item, itemType, largeIntegers, onTextNumber)
+    );
+  }
+  if (DataType.isStruct(type)) {
+    const struct = value as Record<string, unknown>;
+    return Object.fromEntries(
+      type.children.map(child => [
+        child.name,
+        fromArrowValue(
+          struct[child.name],
+          child.type,
+          largeIntegers,
+          onTextNumber
+        ),
+      ])
+    );
+  }
+  if (DataType.isMap(type)) {
+    return (value as { toJSON(): unknown }).toJSON();
+  }
+  if (typeof value === 'object') {
+    return String(value);
+  }
+  return value;
+}
+
+/**
+ * Read an Arrow table as a dataset. Integers kept as text because a
+ * JavaScript number would not hold them are reported as a warning.
+ * @param table The Arrow table
+ * @param options Reader options
+ */
+export function tableToDataset(
+  table: Table,
+  options: FormatReadOptions = {}
+): Dataset {
+  const { preserveTypes = true, largeIntegers = DEFAULT_LARGE_INTEGERS } =
+    options;
+  const fields = table.schema.fields;
+  const columns = fields.map(field => table.getChild(field.name));
+  const textColumns = new Set<string>();
+  let textNumbers = 0;
+
+  const rows: DataRecord[] = [];
+  for (let i = 0; i < table.numRows; i++) {
+    const row: DataRecord = {};
+    fields.forEach((field, index) => {
+      const value = fromArrowValue(
+        columns[index]?.get(i),
+        field.type,
+        largeIntegers,
+        () => {
+          textNumbers++;
+          textColumns.add(field.name);
+        }
+      );
+      row[field.name] =
+        preserveTypes || value === null || typeof value === 'object'
+          ? value
+          : String(value);
+    });
+    rows.push(row);
+  }
+  if (textNumbers > 0) {
+    options.onWarning?.(describeTextNumbers(textNumbers, [...textColumns]));
+  }
+
+  const dataset = createDataset(
+    rows,
+    fields.map(field => field.name)
+  );
+  return options.unflatten
+    ? unflattenDataset(dataset, options.unflatten)
+    : dataset;
+}
+
+/**
+ * Choose the Arrow type of a column from its inferred type. Integers that
+ * don't fit 32 bits become 64-bit integers, and nested or mixed values text.
+ */
+function getArrowType(column: DatasetColumn, values: unknown[]): DataType {
+  switch (column.type) {
+    case 'number':
+      if (
+        values.some(
+          value => typeof value === 'number' && !Number.isInteger(value)
+        )
+      ) {
+        return new Float64();
+      }
+      return values.every(
+        value => typeof value !== 'number' || isInt32(value)
+      ) && !values.some(value => typeof value === 'bigint')
+        ? new Int32()
+        : new Int64();
+    case 'boolean':
+      return new Bool();
+    default:
+      return new Utf8();
+  }
+}
+
+/**
+ * Convert a dataset value for an Arrow column of the given type. Empty text
+ * is null in columns of other types, e.g. the empty cells of CSV numbers.
+ */
+function toArrowValue(value: unknown, type: DataType): unknown {
+  if (
+    value === null ||
+    value === undefined ||
+    (value === '' && !DataType.isUtf8(type))
+  ) {
+    return null;
+  }
+  if (DataType.isInt(type) && type.bitWidth === 64) {
+    return BigInt(value as number | bigint);
+  }
+  if (DataType.isUtf8(type)) {
+    return typeof value === 'object' ? stringifyJson(value) : String(value);
+  }
+  return value;
+}
+
+/**
+ * Create an Arrow table from a dataset, with column types mapped from the
+ * inferred ones. Nested values are expanded into columns when flattening is
+ * enabled, and written as JSON text otherwise.
+ * @param dataset The dataset
+ * @param options Writer options
+ */
+export function datasetToTable(
+  dataset: Dataset,
+  options: FormatWriteOptions = {}
+): Table {
+  if (options.flatten) {
+    dataset = flattenDataset(dataset, options.flatten);
+  }
+
+  const vectors: Record<string, Vector> = {};
+  for (const column of dataset.columns) {
+    const values = dataset.rows.map(row => row?.[column.name]);
+    const type = getArrowType(column, values);
+    vectors[column.name] = vectorFromArray(
+      values.map(value => toArrowValue(value, type)),
+      type
+    );
+  }
+  return new Table(vectors);
+}
+
+/**
+ * Describe the fields of an Arrow schema, e.g. for the preview
+ * @param fields The schema fields
+ */
+export const describeFields = (fields: Field[]): SchemaField[] =>
+  fields.map(field => ({
+    name: field.name,
+    type: String(field.type),
+    nullable: field.nullable,
+  }));
+
+/**
+ * Read an Arrow IPC file, in the file or the stream format
+ * @param filePath The file
+ */
+export const readArrowTable = (filePath: string): Table =>
+  tableFromIPC(fs.readFileSync(filePath));
+
+export const arrowFormat: DataFormat = {
+  id: 'arrow',
+  displayName: 'Arrow IPC',
+  extensions: ['.arrow'],
+  capabilities: { read: true, write: true, preview: true },
+  binary: true,
+  commandId: 'dataconverter.convertToArrow',
+  read: async (filePath, options) =>
+    tableToDataset(readArrowTable(filePath), options),
+  write: async (dataset, outputPath, options) => {
+    fs.writeFileSync(
+      outputPath,
+      tableToIPC(datasetToTable(dataset, options), 'file')
+    );
+  },
+  readSchema: async filePath =>
+    describeFields(readArrowTable(filePath).schema.fields),
+};
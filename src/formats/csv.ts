@@ -0,0 +1,295 @@
+import * as fs from 'fs';
+import * as Papa from 'papaparse';
+import { stringify as csvStringify } from 'csv-stringify/sync';
+import {
+  DataFormat,
+  FormatReadOptions,
+  FormatWriteOptions,
+} from '../formatRegistry';
+import { createDataset, Dataset, DataRecord, getColumnNames } from '../dataset';
+import { flattenDataset, FlattenOptions, unflattenDataset } from '../flatten';
+import {
+  CsvDialect,
+  resolveDialect,
+  sniffDialect,
+  sniffFileDialect,
+} from '../dialect';
+import {
+  applyColumnTypes,
+  ColumnTypes,
+  inferColumnTypes,
+  readColumnTypes,
+} from '../columnTypes';
+import { stringifyJson } from '../precision';
+
+/** Bytes read from the start of a file to infer its column types */
+const TYPE_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Parse CSV text into a dataset
+ * @param csvString The CSV content
+ * @param preserveTypes Convert text to the inferred type of its column
+ * @param dialect The delimiter and quoting of the text; sniffed from the
+ * text when omitted
+ * @param columnTypes Column types that replace the inferred ones
+ * @param options How large integers are read, and where numbers kept as
+ * text are reported
+ */
+export const parseCsv = async (
+  csvString: string,
+  preserveTypes = true,
+  dialect: CsvDialect = sniffDialect(csvString.slice(0, 64 * 1024)),
+  columnTypes?: ColumnTypes,
+  options: Pick<FormatReadOptions, 'largeIntegers' | 'onWarning'> = {}
+): Promise<Dataset> => {
+  return new Promise((resolve, reject) => {
+    try {
+      // Use PapaParse for more robust CSV parsing. The delimiter is always
+      // given, since its own detection fails on single-column files. Values
+      // are read as text and typed by column, so that e.g. ZIP codes with
+      // leading zeros stay text.
+      Papa.parse<DataRecord>(csvString, {
+        header: true,
+        skipEmptyLines: true,
+        delimiter: dialect.delimiter,
+        quoteChar: dialect.quote,
+        escapeChar: dialect.escape,
+        complete: results => {
+          if (results.errors.length > 0) {
+            reject(
+              new Error(`CSV parsing error: ${results.errors[0].message}`)
+            );
+          } else {
+            const fields = results.meta.fields ?? [];
+            resolve(
+              createDataset(
+                preserveTypes
+                  ? applyColumnTypes(
+                      results.data,
+                      fields,
+                      columnTypes,
+                      options.largeIntegers,
+                      options.onWarning
+                    )
+                  : results.data,
+                fields
+              )
+            );
+          }
+        },
+        error: (error: Error) =>
+          reject(new Error(`CSV parsing error: ${error.message}`)),
+      });
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Infer the column types of a delimited file from its first records, with
+ * the types pinned for the file taking precedence. Used where the file is
+ * not read all at once, e.g. when it is streamed.
+ * @param filePath The file
+ * @param dialect The dialect of the file
+ * @param pinned Types that replace the inferred ones; those pinned in the
+ * sidecar file of the file when omitted
+ */
+export function inferFileColumnTypes(
+  filePath: string,
+  dialect: CsvDialect,
+  pinned: ColumnTypes = readColumnTypes(filePath)
+): ColumnTypes {
+  const buffer = Buffer.alloc(TYPE_SAMPLE_BYTES);
+  const fd = fs.openSync(filePath, 'r');
+  let sample: string;
+  try {
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    sample = buffer.toString('utf8', 0, bytesRead);
+    // The last line of a partial sample may be cut off
+    if (bytesRead === buffer.length) {
+      sample = sample.slice(0, sample.lastIndexOf('\n') + 1);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const results = Papa.parse<DataRecord>(sample, {
+    header: true,
+    skipEmptyLines: true,
+    delimiter: dialect.delimiter,
+    quoteChar: dialect.quote,
+    escapeChar: dialect.escape,
+  });
+  return inferColumnTypes(results.data, results.meta.fields ?? [], pinned);
+}
+
+/**
+ * Casts of written CSV values. Booleans are written as `true` and `false`
+ * rather than csv-stringify's `1` and an empty cell, so they read back as
+ * booleans.
+ */
+export const CSV_CAST = {
+  boolean: (value: boolean): string => String(value),
+};
+
+/**
+ * Serialize a dataset to CSV text. Nested values are expanded into columns
+ * when flattening is enabled, and written as JSON strings otherwise.
+ * @param dataset The dataset to serialize
+ * @param delimiter The column delimiter
+ * @param flatten How to flatten nested values, if at all
+ */
+export const serializeCsv = (
+  dataset: Dataset,
+  delimiter = ',',
+  flatten?: FlattenOptions
+): string => {
+  if (dataset.rows.length === 0) {
+    return '';
+  }
+  if (flatten) {
+    dataset = flattenDataset(dataset, flatten);
+  }
+
+  const columns = getColumnNames(dataset);
+  const rows = dataset.rows.map(item =>
+    columns.map(column => {
+      const value = item?.[column];
+      if (value === null || value === undefined) {
+        return '';
+      }
+      return typeof value === 'object' ? stringifyJson(value) : value;
+    })
+  );
+
+  // Use csv-stringify for reliable CSV generation
+  return csvStringify(rows, {
+    header: true,
+    columns,
+    delimiter,
+    cast: CSV_CAST,
+  });
+};
+
+/**
+ * Get the dialect of a delimited file: sniffed from its first bytes, with
+ * the user's overrides applied
+ * @param format The delimited format of the file
+ * @param filePath The file
+ * @param overrides Parts of the dialect chosen by the user
+ */
+export function getFileDialect(
+  format: DataFormat,
+  filePath: string,
+  overrides?: Partial<CsvDialect>
+): CsvDialect {
+  return resolveDialect(
+    sniffFileDialect(filePath, format.delimiter),
+    overrides
+  );
+}
+
+/**
+ * Get the delimiter a delimited format writes with. Only CSV honours the
+ * `delimiter` option, so that TSV and PSV files keep their own.
+ * @param format The delimited target format
+ * @param options The writer options
+ */
+export function getOutputDelimiter(
+  format: DataFormat,
+  options: FormatWriteOptions
+): string {
+  return format.id === 'csv'
+    ? (options.delimiter ?? format.delimiter ?? ',')
+    : (format.delimiter ?? ',');
+}
+
+interface DelimitedFormatDefinition {
+  id: string;
+  displayName: string;
+  extensions: string[];
+  /** Written, and assumed when reading files without a detectable one */
+  delimiter: string;
+  commandId?: string;
+  /** Whether the format is only read, e.g. delimited `.txt` files */
+  readOnly?: boolean;
+}
+
+/**
+ * Create a format for delimited text. Files are sniffed for their dialect
+ * when read, and nested values are flattened into columns when written.
+ * @param definition The format's id, names, extensions and delimiter
+ */
+function createDelimitedFormat(
+  definition: DelimitedFormatDefinition
+): DataFormat {
+  const format: DataFormat = {
+    id: definition.id,
+    displayName: definition.displayName,
+    extensions: definition.extensions,
+    capabilities: {
+      read: true,
+      write: !definition.readOnly,
+      preview: true,
+    },
+    commandId: definition.commandId,
+    delimiter: definition.delimiter,
+    read: async (filePath, options) => {
+      const dataset = await parseCsv(
+        fs.readFileSync(filePath, 'utf8'),
+        options.preserveTypes,
+        getFileDialect(format, filePath, options.dialect),
+        readColumnTypes(filePath),
+        options
+      );
+      return options.unflatten
+        ? unflattenDataset(dataset, options.unflatten)
+        : dataset;
+    },
+  };
+  if (!definition.readOnly) {
+    format.write = async (dataset, outputPath, options) => {
+      fs.writeFileSync(
+        outputPath,
+        serializeCsv(
+          dataset,
+          getOutputDelimiter(format, options),
+          options.flatten
+        )
+      );
+    };
+  }
+  return format;
+}
+
+export const csvFormat = createDelimitedFormat({
+  id: 'csv',
+  displayName: 'CSV',
+  extensions: ['.csv'],
+  delimiter: ',',
+  commandId: 'dataconverter.convertToCSV',
+});
+
+export const tsvFormat = createDelimitedFormat({
+  id: 'tsv',
+  displayName: 'TSV',
+  extensions: ['.tsv', '.tab'],
+  delimiter: '\t',
+  commandId: 'dataconverter.convertToTSV',
+});
+
+export const psvFormat = createDelimitedFormat({
+  id: 'psv',
+  displayName: 'PSV (pipe-separated)',
+  extensions: ['.psv'],
+  delimiter: '|',
+});
+
+export const delimitedTextFormat = createDelimitedFormat({
+  id: 'txt',
+  displayName: 'Delimited Text',
+  extensions: ['.txt'],
+  delimiter: '\t',
+  readOnly: true,
+});
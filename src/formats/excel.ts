@@ -0,0 +1,543 @@
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { DataFormat } from '../formatRegistry';
+import {
+  createDataset,
+  Dataset,
+  DatasetColumn,
+  DataRecord,
+  getColumnNames,
+  SheetDataset,
+} from '../dataset';
+import { flattenDataset, FlattenOptions, unflattenDataset } from '../flatten';
+import { SAFE_DIGITS, significantDigits, stringifyJson } from '../precision';
+import { ColumnTypes, inferType } from '../columnTypes';
+import {
+  DateOptions,
+  DateParts,
+  formatDate,
+  fromUtcTime,
+  ISO_DATE_FORMAT,
+  parseIsoDate,
+  toTimeZone,
+  toUtcTime,
+} from '../dates';
+
+/**
+ * File type of written workbooks
+ */
+export type ExcelFlavor = 'xlsx' | 'xls' | 'ods' | 'xlsb';
+
+export const DEFAULT_EXCEL_FLAVOR: ExcelFlavor = 'xlsx';
+
+/** Description of each workbook file type, shown when choosing one */
+export const EXCEL_FLAVORS: Record<ExcelFlavor, string> = {
+  xlsx: 'Excel Workbook',
+  xls: 'Excel 97-2003 Workbook',
+  ods: 'OpenDocument Spreadsheet',
+  xlsb: 'Excel Binary Workbook',
+};
+
+/** Book types of SheetJS for the workbook file extensions */
+const BOOK_TYPES: Record<string, XLSX.BookType> = {
+  '.xlsx': 'xlsx',
+  '.xls': 'biff8',
+  '.ods': 'ods',
+  '.xlsb': 'xlsb',
+};
+
+/** Largest worksheets of legacy .xls workbooks */
+const XLS_MAX_ROWS = 65536;
+const XLS_MAX_COLUMNS = 256;
+
+/**
+ * Write a workbook in the file type of its extension. Legacy .xls
+ * worksheets that would be cut off are refused.
+ * @param workbook The workbook
+ * @param outputPath The workbook path
+ */
+function writeWorkbook(workbook: XLSX.WorkBook, outputPath: string): void {
+  const bookType = BOOK_TYPES[path.extname(outputPath).toLowerCase()];
+  if (bookType === 'biff8') {
+    for (const name of workbook.SheetNames) {
+      const ref = workbook.Sheets[name]['!ref'];
+      const range = ref ? XLSX.utils.decode_range(ref) : undefined;
+      if (
+        range &&
+        (range.e.r >= XLS_MAX_ROWS || range.e.c >= XLS_MAX_COLUMNS)
+      ) {
+        throw new Error(
+          `Sheet "${name}" has more than the ${XLS_MAX_ROWS} rows or ${XLS_MAX_COLUMNS} columns an .xls workbook can hold; use .xlsx instead`
+        );
+      }
+    }
+  }
+  if (bookType === 'ods') {
+    // The OpenDocument writer drops number formats, so date cells would
+    // turn into plain serial numbers
+    Object.values(workbook.Sheets).forEach(formatDateCells);
+  }
+  XLSX.writeFile(workbook, outputPath, { bookType: bookType ?? 'xlsx' });
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+/** Day 0 of Excel date serials; the 1904 date system counts from 1904-01-01 */
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const EXCEL_1904_EPOCH = Date.UTC(1904, 0, 1);
+/**
+ * Serials below this one fall before the 29 February 1900 that Excel counts
+ * although it did not exist
+ */
+const EXCEL_LEAP_DAY = 61;
+
+/**
+ * Convert an Excel date serial to a date, or a date and time
+ * @param serial Days since the start of the date system
+ * @param date1904 Whether the workbook uses the 1904 date system
+ * @param hasTime Whether the value has a time
+ */
+function fromExcelSerial(
+  serial: number,
+  date1904: boolean,
+  hasTime: boolean
+): DateParts {
+  if (date1904) {
+    return fromUtcTime(EXCEL_1904_EPOCH + Math.round(serial * DAY), hasTime);
+  }
+  const days = serial < EXCEL_LEAP_DAY ? serial + 1 : serial;
+  return fromUtcTime(EXCEL_EPOCH + Math.round(days * DAY), hasTime);
+}
+
+/**
+ * Convert a date, or a date and time, to an Excel date serial of the 1900
+ * date system
+ * @param parts The date; its offset is ignored
+ */
+function toExcelSerial(parts: DateParts): number {
+  const days = (toUtcTime(parts) - EXCEL_EPOCH) / DAY;
+  return days < EXCEL_LEAP_DAY ? days - 1 : days;
+}
+
+/** Number format codes of Excel for the tokens of date format patterns */
+const EXCEL_DATE_TOKENS: Record<string, string> = {
+  yyyy: 'yyyy',
+  MM: 'mm',
+  dd: 'dd',
+  HH: 'hh',
+  mm: 'mm',
+  ss: 'ss',
+  '.SSS': '.000',
+  SSS: '000',
+  XXX: '',
+};
+
+/**
+ * Get the Excel number format of date cells for a date format. Cells hold
+ * no offset, so that of the pattern is left out. Other characters are
+ * escaped, since e.g. the dots of `dd.MM.yyyy` would start a fraction of a
+ * second.
+ * @param format `iso`, or a pattern such as `dd.MM.yyyy HH:mm`
+ * @param hasTime Whether the values have a time
+ */
+function toNumberFormat(format: string | undefined, hasTime: boolean): string {
+  if (!format || format === ISO_DATE_FORMAT) {
+    return hasTime ? 'yyyy-mm-dd hh:mm:ss' : 'yyyy-mm-dd';
+  }
+  return format
+    .replace(
+      /yyyy|MM|dd|HH|mm|ss|\.?SSS|XXX|[^\s\-/:]/g,
+      token => EXCEL_DATE_TOKENS[token] ?? `\\${token}`
+    )
+    .trim();
+}
+
+/**
+ * Whether a number format shows a time, such as `yyyy-mm-dd hh:mm`, leaving
+ * out quoted text and colors and conditions in brackets
+ */
+const showsTime = (format: string) =>
+  /[hs]/i.test(format.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+/**
+ * Replace the cells of a worksheet that hold dates, numbers with a date
+ * format, by their ISO 8601 text. Dates have a time when the format shows
+ * one or the serial has a fraction. Times of day without a date are left
+ * as numbers.
+ * @param worksheet The worksheet, read with number formats
+ * @param date1904 Whether the workbook uses the 1904 date system
+ */
+function readDateCells(worksheet: XLSX.WorkSheet, date1904: boolean): void {
+  for (const [address, cell] of Object.entries(worksheet)) {
+    if (
+      address.startsWith('!') ||
+      cell.t !== 'n' ||
+      typeof cell.z !== 'string' ||
+      cell.v < 1 ||
+      !XLSX.SSF.is_date(cell.z)
+    ) {
+      continue;
+    }
+    const hasTime = !Number.isInteger(cell.v) || showsTime(cell.z);
+    worksheet[address] = {
+      t: 's',
+      v: formatDate(fromExcelSerial(cell.v, date1904, hasTime)),
+    };
+  }
+}
+
+/**
+ * Replace the date cells of a worksheet by the text of their number format
+ * @param worksheet The worksheet
+ */
+function formatDateCells(worksheet: XLSX.WorkSheet): void {
+  for (const [address, cell] of Object.entries(worksheet)) {
+    if (
+      !address.startsWith('!') &&
+      cell.t === 'n' &&
+      typeof cell.z === 'string' &&
+      XLSX.SSF.is_date(cell.z)
+    ) {
+      worksheet[address] = { t: 's', v: XLSX.SSF.format(cell.z, cell.v) };
+    }
+  }
+}
+
+/**
+ * Read a workbook with the number formats of its cells, which tell dates
+ * apart from numbers
+ * @param filePath The workbook path
+ */
+const readWorkbook = (filePath: string): XLSX.WorkBook =>
+  XLSX.readFile(filePath, { cellNF: true });
+
+/** Whether a workbook counts dates from 1904, as older Mac workbooks do */
+const isDate1904 = (workbook: XLSX.WorkBook): boolean =>
+  Boolean(workbook.Workbook?.WBProps?.date1904);
+
+/**
+ * Read a worksheet as a dataset. Numbers are rounded to the 15 significant
+ * digits Excel keeps, which drops float artifacts of calculated cells such
+ * as `0.30000000000000004`. Date cells of worksheets read with number
+ * formats become ISO 8601 text, e.g. `2024-01-15` or `2024-01-15T10:30:00`.
+ * @param worksheet The worksheet
+ * @param date1904 Whether the workbook uses the 1904 date system
+ */
+export const sheetToDataset = (
+  worksheet: XLSX.WorkSheet,
+  date1904 = false
+): Dataset => {
+  readDateCells(worksheet, date1904);
+  return createDataset(
+    XLSX.utils
+      .sheet_to_json<DataRecord>(worksheet, { defval: null })
+      .map(row => {
+        for (const [key, value] of Object.entries(row)) {
+          if (typeof value === 'number' && !Number.isInteger(value)) {
+            row[key] = Number(value.toPrecision(SAFE_DIGITS));
+          }
+        }
+        return row;
+      })
+  );
+};
+
+/**
+ * Create a date cell for ISO 8601 text. Times with an offset are written in
+ * the time zone of the options, or in UTC without one, since cells hold no
+ * offset. Dates before 1900, which Excel cannot show, stay text.
+ * @param text The text
+ * @param dates The date format and time zone
+ * @returns The cell, or `undefined` when the text is not a date
+ */
+function toDateCell(
+  text: string,
+  dates: DateOptions
+): XLSX.CellObject | undefined {
+  const parts = parseIsoDate(text);
+  if (!parts || parts.year < 1900) {
+    return undefined;
+  }
+  const zoned =
+    parts.hasTime && (dates.timeZone || parts.offset !== undefined)
+      ? toTimeZone(parts, dates.timeZone || 'UTC')
+      : parts;
+  return {
+    t: 'n',
+    v: toExcelSerial(zoned),
+    z: toNumberFormat(dates.format, zoned.hasTime),
+  };
+}
+
+/**
+ * Find the columns written as date cells: those of `date` type, or without
+ * a type whose text values are all ISO 8601 dates
+ * @param dataset The dataset
+ * @param columnTypes The types of the columns, e.g. pinned ones
+ */
+function getDateColumns(
+  dataset: Dataset,
+  columnTypes: ColumnTypes
+): Set<string> {
+  const isDateColumn = (column: DatasetColumn) =>
+    column.name in columnTypes
+      ? columnTypes[column.name] === 'date'
+      : column.type === 'string' &&
+        inferType(
+          dataset.rows.map(row => {
+            const value = row?.[column.name];
+            return typeof value === 'string' ? value : '';
+          })
+        ) === 'date';
+  return new Set(
+    dataset.columns.filter(isDateColumn).map(column => column.name)
+  );
+}
+
+/**
+ * Convert a value for a cell, keeping the digits that Excel numbers would
+ * lose: integers of more than 15 digits, such as IDs, become text, and
+ * other numbers are rounded to 15 significant digits. ISO 8601 dates of
+ * date columns become date cells.
+ * @returns The cell value, and whether digits were kept as text or rounded
+ */
+function toCellValue(
+  value: unknown,
+  dates?: DateOptions
+): [unknown, ('text' | 'rounded')?] {
+  if (typeof value === 'string') {
+    return [(dates && toDateCell(value, dates)) ?? value];
+  }
+  if (typeof value === 'bigint') {
+    if (!Number.isSafeInteger(Number(value))) {
+      return [value.toString(), 'text'];
+    }
+    value = Number(value);
+  }
+  if (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    significantDigits(value) > SAFE_DIGITS
+  ) {
+    return Number.isInteger(value)
+      ? [String(value), 'text']
+      : [Number(value.toPrecision(SAFE_DIGITS)), 'rounded'];
+  }
+  return [
+    typeof value === 'object' && value !== null && !(value instanceof Date)
+      ? stringifyJson(value)
+      : value,
+  ];
+}
+
+/**
+ * Create a worksheet from a dataset. Nested values are expanded into columns
+ * when flattening is enabled, and written as JSON strings otherwise.
+ * Numbers with more digits than Excel keeps are written as text or rounded,
+ * and reported as warnings. ISO 8601 dates of date columns are written as
+ * date cells.
+ * @param dataset The dataset
+ * @param flatten How to flatten nested values, if at all
+ * @param onWarning Receives the columns of numbers that would lose digits
+ * @param dates The number format and time zone of date cells
+ * @param columnTypes The types of the columns, which decide the date columns
+ */
+export const datasetToSheet = (
+  dataset: Dataset,
+  flatten?: FlattenOptions,
+  onWarning?: (message: string) => void,
+  dates: DateOptions = {},
+  columnTypes: ColumnTypes = {}
+): XLSX.WorkSheet => {
+  if (flatten) {
+    dataset = flattenDataset(dataset, flatten);
+  }
+  const dateColumns = getDateColumns(dataset, columnTypes);
+  const textColumns = new Set<string>();
+  const roundedColumns = new Set<string>();
+  const rows = dataset.rows.map(row => {
+    const cells: DataRecord = {};
+    Object.entries(row).forEach(([key, value]) => {
+      const [cell, change] = toCellValue(
+        value,
+        dateColumns.has(key) ? dates : undefined
+      );
+      cells[key] = cell;
+      if (change === 'text') {
+        textColumns.add(key);
+      } else if (change === 'rounded') {
+        roundedColumns.add(key);
+      }
+    });
+    return cells;
+  });
+  textColumns.forEach(column =>
+    onWarning?.(
+      `Column "${column}" has integers with more than the ${SAFE_DIGITS} digits Excel numbers keep; they were written as text`
+    )
+  );
+  roundedColumns.forEach(column =>
+    onWarning?.(
+      `Column "${column}" has numbers with more than the ${SAFE_DIGITS} significant digits Excel keeps; they were rounded`
+    )
+  );
+  return XLSX.utils.json_to_sheet(rows, { header: getColumnNames(dataset) });
+};
+
+/**
+ * Read a worksheet of a workbook as a dataset
+ * @param filePath The workbook path
+ * @param sheetName The worksheet to read; the first one when omitted
+ */
+export const readSheet = (filePath: string, sheetName?: string): Dataset => {
+  const workbook = readWorkbook(filePath);
+  const name = sheetName ?? workbook.SheetNames[0];
+  if (!workbook.SheetNames.includes(name)) {
+    throw new Error(`Sheet "${name}" not found in ${path.basename(filePath)}`);
+  }
+  return sheetToDataset(workbook.Sheets[name], isDate1904(workbook));
+};
+
+/**
+ * List the worksheet names of a workbook without reading their cells
+ * @param filePath The workbook path
+ */
+export const listSheetNames = (filePath: string): string[] =>
+  XLSX.readFile(filePath, { bookSheets: true }).SheetNames;
+
+/**
+ * Read every worksheet of a workbook, in workbook order
+ * @param filePath The workbook path
+ */
+export const readAllSheets = (filePath: string): SheetDataset[] => {
+  const workbook = readWorkbook(filePath);
+  return workbook.SheetNames.map(name => ({
+    name,
+    dataset: sheetToDataset(workbook.Sheets[name], isDate1904(workbook)),
+  }));
+};
+
+/**
+ * Write a dataset to a workbook with a single `Sheet1` worksheet
+ * @param dataset The dataset to write
+ * @param outputPath The workbook path; its extension decides the file type
+ * @param flatten How to flatten nested values, if at all
+ * @param onWarning Receives the columns of numbers that would lose digits
+ * @param dates The number format and time zone of date cells
+ * @param columnTypes The types of the columns, which decide the date columns
+ */
+export const writeSingleSheet = (
+  dataset: Dataset,
+  outputPath: string,
+  flatten?: FlattenOptions,
+  onWarning?: (message: string) => void,
+  dates?: DateOptions,
+  columnTypes?: ColumnTypes
+): void => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    datasetToSheet(dataset, flatten, onWarning, dates, columnTypes),
+    'Sheet1'
+  );
+  writeWorkbook(workbook, outputPath);
+};
+
+/**
+ * Make a name usable as a worksheet name: at most 31 characters, none of
+ * `: \ / ? * [ ]`, and unique within the workbook
+ * @param name The preferred name
+ * @param taken Names already used in the workbook, compared case-insensitively
+ */
+export const toSheetName = (name: string, taken: string[] = []): string => {
+  const base =
+    name
+      .replace(/[:\\/?*[\]]/g, '_')
+      .replace(/^'+|'+$/g, '')
+      .slice(0, 31) || 'Sheet';
+  const used = new Set(taken.map(existing => existing.toLowerCase()));
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  return candidate;
+};
+
+/**
+ * Write named datasets to a workbook with one worksheet each
+ * @param sheets The datasets to write
+ * @param outputPath The workbook path; its extension decides the file type
+ * @param flatten How to flatten nested values, if at all
+ * @param onWarning Receives the columns of numbers that would lose digits
+ * @param dates The number format and time zone of date cells
+ * @param columnTypes The types of the columns, which decide the date columns
+ */
+export const writeSheets = (
+  sheets: SheetDataset[],
+  outputPath: string,
+  flatten?: FlattenOptions,
+  onWarning?: (message: string) => void,
+  dates?: DateOptions,
+  columnTypes?: ColumnTypes
+): void => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(({ name, dataset }) => {
+    const sheetName = toSheetName(name, workbook.SheetNames);
+    XLSX.utils.book_append_sheet(
+      workbook,
+      datasetToSheet(
+        dataset,
+        flatten,
+        onWarning && (message => onWarning(`Sheet "${sheetName}": ${message}`)),
+        dates,
+        columnTypes
+      ),
+      sheetName
+    );
+  });
+  writeWorkbook(workbook, outputPath);
+};
+
+export const excelFormat: DataFormat = {
+  id: 'excel',
+  displayName: 'Excel',
+  extensions: ['.xlsx', '.xls', '.xlsb', '.ods'],
+  capabilities: { read: true, write: true, preview: true },
+  binary: true,
+  storesDates: true,
+  commandId: 'dataconverter.convertToExcel',
+  getOutputExtension: options =>
+    '.' + (options.excelFlavor ?? DEFAULT_EXCEL_FLAVOR),
+  read: async (filePath, options) => {
+    const dataset = readSheet(filePath, options.sheet);
+    return options.unflatten
+      ? unflattenDataset(dataset, options.unflatten)
+      : dataset;
+  },
+  listSheets: async filePath => listSheetNames(filePath),
+  readSheets: async (filePath, options) =>
+    readAllSheets(filePath).map(({ name, dataset }) => ({
+      name,
+      dataset: options.unflatten
+        ? unflattenDataset(dataset, options.unflatten)
+        : dataset,
+    })),
+  write: async (dataset, outputPath, options) =>
+    writeSingleSheet(
+      dataset,
+      outputPath,
+      options.flatten,
+      options.onWarning,
+      options.dates,
+      options.columnTypes
+    ),
+  writeSheets: async (sheets, outputPath, options) =>
+    writeSheets(
+      sheets,
+      outputPath,
+      options.flatten,
+      options.onWarning,
+      options.dates,
+      options.columnTypes
+    ),
+};
@@ -0,0 +1,324 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataFormat, FormatReadOptions } from '../formatRegistry';
+import { createDataset, Dataset, DataRecord } from '../dataset';
+import { unflattenDataset } from '../flatten';
+import {
+  DEFAULT_LARGE_INTEGERS,
+  describeTextNumbers,
+  isExactNumber,
+  LargeIntegers,
+} from '../precision';
+
+export type FixedWidthType = 'string' | 'number' | 'boolean';
+
+/**
+ * A column of a fixed-width file
+ */
+export interface FixedWidthColumn {
+  name: string;
+  /** 1-based position of the first character of the column */
+  start: number;
+  /** Number of characters */
+  width: number;
+  /** Type the trimmed text is read as; `string` when omitted */
+  type?: FixedWidthType;
+}
+
+/**
+ * The column layout of a fixed-width file, stored next to it in a
+ * `<file>.layout.json` sidecar file
+ */
+export interface FixedWidthLayout {
+  columns: FixedWidthColumn[];
+  /** Lines at the top of the file that hold no records, e.g. a header */
+  skipLines?: number;
+}
+
+/** Suffix of the sidecar file holding the layout of a fixed-width file */
+export const LAYOUT_SUFFIX = '.layout.json';
+
+/** Values that could not be read as their column type and are listed individually in warnings */
+const MAX_REPORTED_VALUES = 10;
+
+const TYPES: FixedWidthType[] = ['string', 'number', 'boolean'];
+
+/**
+ * Decimal numbers as extracts write them, with optional sign and leading
+ * zeros, e.g. `-3`, `00042` or `12.50`; not hex, exponents or `Infinity`
+ */
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)$/;
+
+const isNumber = (text: string) => NUMBER.test(text);
+
+const INTEGER = /^[-+]?\d+$/;
+
+/**
+ * Get the path of the layout sidecar file of a fixed-width file
+ * @param filePath The fixed-width file
+ */
+export const getLayoutPath = (filePath: string): string =>
+  filePath + LAYOUT_SUFFIX;
+
+/**
+ * Check whether a file is the layout sidecar file of a fixed-width file
+ * @param filePath The file
+ */
+export const isLayoutFile = (filePath: string): boolean =>
+  filePath.toLowerCase().endsWith(LAYOUT_SUFFIX);
+
+/**
+ * Check that a parsed layout has named, non-overlapping columns with valid
+ * positions, and return it typed
+ * @param layout The parsed layout
+ * @param source Name of the layout in error messages
+ */
+export function validateLayout(
+  layout: unknown,
+  source = 'layout'
+): FixedWidthLayout {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ${source}: ${message}`);
+  };
+  const isPositive = (value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+  const { columns, skipLines = 0 } = (layout ?? {}) as FixedWidthLayout;
+  if (!Array.isArray(columns) || columns.length === 0) {
+    fail('expected a "columns" array with at least one column');
+  }
+  if (!Number.isInteger(skipLines) || skipLines < 0) {
+    fail('"skipLines" must be a whole number');
+  }
+
+  const names = new Set<string>();
+  let end = 0;
+  [...columns]
+    .sort((a, b) => a.start - b.start)
+    .forEach(column => {
+      const label = `column "${column.name}"`;
+      if (typeof column.name !== 'string' || !column.name) {
+        fail(`the column at ${column.start} has no name`);
+      }
+      if (names.has(column.name)) {
+        fail(`${label} is defined twice`);
+      }
+      if (!isPositive(column.start) || !isPositive(column.width)) {
+        fail(`${label} needs a "start" and "width" of at least 1`);
+      }
+      if (column.type !== undefined && !TYPES.includes(column.type)) {
+        fail(`${label} has an unknown type "${column.type}"`);
+      }
+      if (column.start <= end) {
+        fail(`${label} overlaps the column before it`);
+      }
+      names.add(column.name);
+      end = column.start + column.width - 1;
+    });
+
+  return { columns, skipLines };
+}
+
+/**
+ * Read the layout sidecar file of a fixed-width file
+ * @param filePath The fixed-width file
+ */
+export function readLayout(filePath: string): FixedWidthLayout {
+  const layoutPath = getLayoutPath(filePath);
+  if (!fs.existsSync(layoutPath)) {
+    throw new Error(
+      `No column layout found for ${path.basename(filePath)}. ` +
+        "Create one with 'Data Converter: Edit Fixed-Width Layout'."
+    );
+  }
+  return validateLayout(
+    JSON.parse(fs.readFileSync(layoutPath, 'utf8')),
+    path.basename(layoutPath)
+  );
+}
+
+/**
+ * Save the layout of a fixed-width file to its sidecar file
+ * @param filePath The fixed-width file
+ * @param layout The layout
+ */
+export function writeLayout(filePath: string, layout: FixedWidthLayout): void {
+  fs.writeFileSync(
+    getLayoutPath(filePath),
+    JSON.stringify(validateLayout(layout), null, 2) + '\n'
+  );
+}
+
+/**
+ * Convert the trimmed text of a field to its column type. Returns
+ * `undefined` when the text is not a value of the type. Numbers that a
+ * JavaScript number would not hold exactly stay text, or become `BigInt`s
+ * for integers when `largeIntegers` asks for numbers.
+ */
+function parseField(
+  text: string,
+  type: FixedWidthType = 'string',
+  largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS
+): unknown {
+  if (text === '' && type !== 'string') {
+    return null;
+  }
+  switch (type) {
+    case 'number':
+      if (!isNumber(text)) {
+        return undefined;
+      }
+      if (isExactNumber(text.replace(/^\+/, ''))) {
+        return Number(text);
+      }
+      return largeIntegers === 'number' && INTEGER.test(text)
+        ? BigInt(text)
+        : text;
+    case 'boolean':
+      return /^(true|yes|y|1)$/i.test(text)
+        ? true
+        : /^(false|no|n|0)$/i.test(text)
+          ? false
+          : undefined;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Split the lines of a fixed-width file into records. Fields are trimmed,
+ * blank lines are skipped, and fields past the end of short lines are
+ * empty. Values that don't match their column type are kept as text and
+ * reported as warnings, like numbers with more digits than a JavaScript
+ * number holds.
+ * @param text The file content
+ * @param layout The column layout
+ * @param options Reader options
+ */
+export function parseFixedWidth(
+  text: string,
+  layout: FixedWidthLayout,
+  options: FormatReadOptions = {}
+): Dataset {
+  const { preserveTypes = true, largeIntegers } = options;
+  const invalid: string[] = [];
+  const rows: DataRecord[] = [];
+  const textColumns = new Set<string>();
+  let textNumbers = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = layout.skipLines ?? 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line.trim()) {
+      continue;
+    }
+
+    const row: DataRecord = {};
+    for (const column of layout.columns) {
+      const field = line
+        .slice(column.start - 1, column.start - 1 + column.width)
+        .trim();
+      if (!preserveTypes) {
+        row[column.name] = field;
+        continue;
+      }
+      const value = parseField(field, column.type, largeIntegers);
+      if (value === undefined) {
+        invalid.push(
+          `Line ${index + 1}: "${field}" in column ${column.name} is not a ${column.type}`
+        );
+      } else if (column.type === 'number' && typeof value === 'string') {
+        textNumbers++;
+        textColumns.add(column.name);
+      }
+      row[column.name] = value === undefined ? field : value;
+    }
+    rows.push(row);
+  }
+
+  invalid
+    .slice(0, MAX_REPORTED_VALUES)
+    .forEach(warning => options.onWarning?.(warning));
+  if (invalid.length > MAX_REPORTED_VALUES) {
+    options.onWarning?.(
+      `${invalid.length - MAX_REPORTED_VALUES} more values did not match their column type`
+    );
+  }
+  if (textNumbers > 0) {
+    options.onWarning?.(describeTextNumbers(textNumbers, [...textColumns]));
+  }
+
+  const dataset = createDataset(
+    rows,
+    layout.columns.map(column => column.name)
+  );
+  return options.unflatten
+    ? unflattenDataset(dataset, options.unflatten)
+    : dataset;
+}
+
+/**
+ * Suggest a layout from the first lines of a fixed-width file. Columns
+ * start after runs of positions that are blank on every line, and a first
+ * line of text above numbers is taken as the header.
+ * @param lines The first lines of the file
+ */
+export function suggestLayout(lines: string[]): FixedWidthLayout {
+  lines = lines.filter(line => line.trim());
+  const length = Math.max(0, ...lines.map(line => line.length));
+  const isBlank = (position: number) =>
+    lines.every(line => (line[position] ?? ' ') === ' ');
+
+  const starts: number[] = [];
+  for (let position = 0; position < length; position++) {
+    if (!isBlank(position) && (position === 0 || isBlank(position - 1))) {
+      starts.push(position);
+    }
+  }
+
+  const fieldsOf = (line: string) =>
+    starts.map((start, index) =>
+      line.slice(start, starts[index + 1] ?? length).trim()
+    );
+
+  // A header has no numbers, above a column that holds only numbers
+  const [first = '', ...rest] = lines;
+  const header = fieldsOf(first);
+  const numeric = starts.map(
+    (_, index) =>
+      rest.length > 0 &&
+      rest.every(line => {
+        const field = fieldsOf(line)[index];
+        return field === '' || isNumber(field);
+      })
+  );
+  const hasHeader =
+    numeric.some(Boolean) &&
+    header.every(field => field === '' || !isNumber(field));
+
+  return {
+    skipLines: hasHeader ? 1 : 0,
+    columns: starts.map((start, index) => ({
+      name: (hasHeader && header[index]) || `column${index + 1}`,
+      start: start + 1,
+      width: (starts[index + 1] ?? length) - start,
+      type: numeric[index] ? 'number' : 'string',
+    })),
+  };
+}
+
+export const fixedWidthFormat: DataFormat = {
+  id: 'fixedWidth',
+  displayName: 'Fixed-Width Text',
+  extensions: ['.fwf', '.dat', '.txt'],
+  capabilities: { read: true, write: false, preview: true },
+  read: async (filePath, options) =>
+    parseFixedWidth(
+      fs.readFileSync(filePath, 'utf8'),
+      readLayout(filePath),
+      options
+    ),
+  // Text files are only read as fixed-width when they have a layout, and
+  // as delimited text otherwise
+  isData: filePath => fs.existsSync(getLayoutPath(filePath)),
+};
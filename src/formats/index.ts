@@ -0,0 +1,49 @@
+import { FormatRegistry } from '../formatRegistry';
+import { csvFormat, delimitedTextFormat, psvFormat, tsvFormat } from './csv';
+import { jsonFormat } from './json';
+import { ndjsonFormat } from './ndjson';
+import { excelFormat } from './excel';
+import { xmlFormat } from './xml';
+import { yamlFormat } from './yaml';
+import { htmlFormat, markdownFormat } from './table';
+import { sqlFormat } from './sql';
+import { sqliteFormat } from './sqlite';
+import { parquetFormat } from './parquet';
+import { arrowFormat } from './arrow';
+import { fixedWidthFormat } from './fixedWidth';
+
+/**
+ * The registry shared by the commands, batch conversion and preview.
+ * Built-in formats are registered here; other extensions can add their own
+ * through the API returned from `activate`.
+ */
+export const formatRegistry = new FormatRegistry();
+
+const builtinFormats = [
+  csvFormat,
+  tsvFormat,
+  psvFormat,
+  delimitedTextFormat,
+  jsonFormat,
+  ndjsonFormat,
+  excelFormat,
+  xmlFormat,
+  yamlFormat,
+  markdownFormat,
+  htmlFormat,
+  sqlFormat,
+  sqliteFormat,
+  parquetFormat,
+  arrowFormat,
+  fixedWidthFormat,
+];
+builtinFormats.forEach(format => formatRegistry.register(format));
+
+/**
+ * Check whether a format ships with the extension. Only built-in formats are
+ * available on worker threads.
+ * @param id The format id
+ */
+export function isBuiltinFormat(id: string): boolean {
+  return builtinFormats.some(format => format.id === id);
+}
@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import { DataFormat, FormatReadOptions } from '../formatRegistry';
+import { createDataset, Dataset, DataRecord, SheetDataset } from '../dataset';
+import { AUTO_RECORD_PATH, selectRecords } from '../recordPath';
+import { isLayoutFile } from './fixedWidth';
+import { isSchemaFile } from '../jsonSchema';
+import { isColumnTypesFile } from '../columnTypes';
+import {
+  describeTextNumbers,
+  parseExactJson,
+  stringifyJson,
+} from '../precision';
+
+/**
+ * Turn a parsed JSON document into an array of records. A single object is
+ * treated as an array with one item.
+ * @param jsonData The parsed JSON value
+ */
+export const toRecords = (jsonData: unknown): DataRecord[] => {
+  if (Array.isArray(jsonData)) {
+    return jsonData;
+  }
+  if (typeof jsonData === 'object' && jsonData !== null) {
+    return [jsonData as DataRecord];
+  }
+  throw new Error(
+    'Invalid JSON structure. Expected an array of objects or a single object.'
+  );
+};
+
+/**
+ * Split a JSON object whose values are all arrays of objects, such as
+ * `{ "users": [...], "orders": [...] }`, into one dataset per key.
+ * Returns an empty list for any other document.
+ * @param jsonData The parsed JSON value
+ */
+export const toSheets = (jsonData: unknown): SheetDataset[] => {
+  if (
+    typeof jsonData !== 'object' ||
+    jsonData === null ||
+    Array.isArray(jsonData)
+  ) {
+    return [];
+  }
+  const entries = Object.entries(jsonData);
+  const isTable = (value: unknown) =>
+    Array.isArray(value) &&
+    value.every(
+      item => typeof item === 'object' && item !== null && !Array.isArray(item)
+    );
+  if (entries.length === 0 || !entries.every(([, value]) => isTable(value))) {
+    return [];
+  }
+  return entries.map(([name, rows]) => ({
+    name,
+    dataset: createDataset(rows),
+  }));
+};
+
+/**
+ * Parse a JSON document without losing the digits of its numbers. Numbers
+ * kept as text are reported as a warning.
+ * @param jsonString The JSON content
+ * @param options How large integers are read, and where numbers kept as
+ * text are reported
+ */
+export function parseJsonDocument(
+  jsonString: string,
+  options: Pick<FormatReadOptions, 'largeIntegers' | 'onWarning'> = {}
+): unknown {
+  let textNumbers = 0;
+  const document = parseExactJson(
+    jsonString,
+    options.largeIntegers,
+    () => textNumbers++
+  );
+  if (textNumbers > 0) {
+    options.onWarning?.(describeTextNumbers(textNumbers));
+  }
+  return document;
+}
+
+/**
+ * Parse JSON text into a dataset
+ * @param jsonString The JSON content
+ * @param recordPath Where the records are in the document; the whole
+ * document is used when omitted
+ * @param options How large integers are read, and where numbers kept as
+ * text are reported
+ */
+export const parseJson = (
+  jsonString: string,
+  recordPath?: string,
+  options: Pick<FormatReadOptions, 'largeIntegers' | 'onWarning'> = {}
+): Dataset => {
+  const document = parseJsonDocument(jsonString, options);
+  return createDataset(
+    toRecords(
+      recordPath === undefined ? document : selectRecords(document, recordPath)
+    )
+  );
+};
+
+/**
+ * Serialize a dataset to a JSON array of records. Large integers read as
+ * `BigInt`s are written as plain numbers.
+ * @param dataset The dataset to serialize
+ * @param indentation Number of spaces to indent with
+ */
+export const serializeJson = (dataset: Dataset, indentation = 2): string =>
+  stringifyJson(dataset.rows, indentation);
+
+/**
+ * Serialize several named datasets to a JSON object keyed by name, with the
+ * records of each dataset as an array
+ * @param sheets The datasets to serialize
+ * @param indentation Number of spaces to indent with
+ */
+export const serializeJsonSheets = (
+  sheets: SheetDataset[],
+  indentation = 2
+): string =>
+  stringifyJson(
+    Object.fromEntries(sheets.map(({ name, dataset }) => [name, dataset.rows])),
+    indentation
+  );
+
+export const jsonFormat: DataFormat = {
+  id: 'json',
+  displayName: 'JSON',
+  extensions: ['.json'],
+  capabilities: { read: true, write: true, preview: true },
+  commandId: 'dataconverter.convertToJSON',
+  read: async (filePath, options) =>
+    parseJson(fs.readFileSync(filePath, 'utf8'), options.recordPath, options),
+  write: async (dataset, outputPath, options) => {
+    fs.writeFileSync(outputPath, serializeJson(dataset, options.indentation));
+  },
+  // Column layouts of fixed-width files, schemas and pinned column types
+  // describe data files
+  isData: filePath =>
+    !isLayoutFile(filePath) &&
+    !isSchemaFile(filePath) &&
+    !isColumnTypesFile(filePath),
+  sheetsByDefault: true,
+  readSheets: async (filePath, options) => {
+    // A record path picks a single array, so the document is one table
+    const recordPath = options.recordPath ?? AUTO_RECORD_PATH;
+    if (recordPath !== AUTO_RECORD_PATH) {
+      return [];
+    }
+    // Documents that are not split are read again, and warned about, by
+    // the reader
+    const warnings: string[] = [];
+    const sheets = toSheets(
+      parseJsonDocument(fs.readFileSync(filePath, 'utf8'), {
+        largeIntegers: options.largeIntegers,
+        onWarning: message => warnings.push(message),
+      })
+    );
+    if (sheets.length > 0) {
+      warnings.forEach(warning => options.onWarning?.(warning));
+    }
+    return sheets;
+  },
+  writeSheets: async (sheets, outputPath, options) => {
+    fs.writeFileSync(
+      outputPath,
+      serializeJsonSheets(sheets, options.indentation)
+    );
+  },
+};
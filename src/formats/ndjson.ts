@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DataFormat } from '../formatRegistry';
+import { createDataset, Dataset, DataRecord } from '../dataset';
+import { BadLine, describeBadLines, NdjsonParser } from '../streaming';
+import {
+  describeTextNumbers,
+  LargeIntegers,
+  stringifyJson,
+} from '../precision';
+
+/**
+ * Records read from a newline-delimited JSON file, along with the lines
+ * that were skipped
+ */
+export interface NdjsonReadResult {
+  dataset: Dataset;
+  badLines: BadLine[];
+  /** Number of values kept as text because they would lose digits */
+  textNumbers: number;
+}
+
+/**
+ * Read a newline-delimited JSON (NDJSON, JSON Lines) file line by line. Each
+ * line holds one JSON object; lines that don't are skipped and returned
+ * with their line numbers.
+ * @param filePath The file to read
+ * @param largeIntegers Read integers beyond ±2^53 as text or as `BigInt`s
+ */
+export async function readNdjson(
+  filePath: string,
+  largeIntegers?: LargeIntegers
+): Promise<NdjsonReadResult> {
+  const parser = new NdjsonParser(largeIntegers);
+  const rows: DataRecord[] = [];
+
+  await pipeline(
+    fs.createReadStream(filePath),
+    parser,
+    new Writable({
+      objectMode: true,
+      write(record: DataRecord, _encoding, callback) {
+        rows.push(record);
+        callback();
+      },
+    })
+  );
+
+  return {
+    dataset: createDataset(rows),
+    badLines: parser.badLines,
+    textNumbers: parser.textNumbers,
+  };
+}
+
+/**
+ * Serialize a dataset to newline-delimited JSON, one record per line
+ * @param dataset The dataset to serialize
+ */
+export const serializeNdjson = (dataset: Dataset): string =>
+  dataset.rows.map(row => stringifyJson(row) + '\n').join('');
+
+export const ndjsonFormat: DataFormat = {
+  id: 'ndjson',
+  displayName: 'NDJSON',
+  extensions: ['.ndjson', '.jsonl'],
+  capabilities: { read: true, write: true, preview: true },
+  commandId: 'dataconverter.convertToNDJSON',
+  read: async (filePath, options) => {
+    const { dataset, badLines, textNumbers } = await readNdjson(
+      filePath,
+      options.largeIntegers
+    );
+    describeBadLines(badLines).forEach(warning => options.onWarning?.(warning));
+    if (textNumbers > 0) {
+      options.onWarning?.(describeTextNumbers(textNumbers));
+    }
+    return dataset;
+  },
+  write: async (dataset, outputPath) => {
+    fs.writeFileSync(outputPath, serializeNdjson(dataset));
+  },
+};
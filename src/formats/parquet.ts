@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import { tableFromIPC, tableToIPC } from 'apache-arrow';
+import {
+  Compression,
+  readParquet,
+  readSchema,
+  Table as WasmTable,
+  writeParquet,
+  WriterPropertiesBuilder,
+} from 'parquet-wasm';
+import { DataFormat } from '../formatRegistry';
+import { Dataset } from '../dataset';
+import { datasetToTable, describeFields, tableToDataset } from './arrow';
+
+export type ParquetCompression =
+  'uncompressed' | 'snappy' | 'gzip' | 'brotli' | 'zstd' | 'lz4';
+
+export const DEFAULT_PARQUET_COMPRESSION: ParquetCompression = 'snappy';
+
+const CODECS: Record<ParquetCompression, Compression> = {
+  uncompressed: Compression.UNCOMPRESSED,
+  snappy: Compression.SNAPPY,
+  gzip: Compression.GZIP,
+  brotli: Compression.BROTLI,
+  zstd: Compression.ZSTD,
+  lz4: Compression.LZ4_RAW,
+};
+
+/**
+ * Serialize a dataset to Parquet. The data goes through Arrow, so column
+ * types are mapped the way they are for Arrow IPC files.
+ * @param dataset The dataset to serialize
+ * @param compression The compression codec of the column chunks
+ * @param options Writer options, e.g. how to flatten nested values
+ */
+export function serializeParquet(
+  dataset: Dataset,
+  compression: ParquetCompression = DEFAULT_PARQUET_COMPRESSION,
+  options: Parameters<typeof datasetToTable>[1] = {}
+): Uint8Array {
+  const table = WasmTable.fromIPCStream(
+    tableToIPC(datasetToTable(dataset, options), 'stream')
+  );
+  const properties = new WriterPropertiesBuilder()
+    .setCompression(CODECS[compression] ?? CODECS.snappy)
+    .build();
+  return writeParquet(table, properties);
+}
+
+const readParquetTable = (filePath: string) =>
+  tableFromIPC(readParquet(fs.readFileSync(filePath)).intoIPCStream());
+
+export const parquetFormat: DataFormat = {
+  id: 'parquet',
+  displayName: 'Parquet',
+  extensions: ['.parquet'],
+  capabilities: { read: true, write: true, preview: true },
+  binary: true,
+  commandId: 'dataconverter.convertToParquet',
+  read: async (filePath, options) =>
+    tableToDataset(readParquetTable(filePath), options),
+  write: async (dataset, outputPath, options) => {
+    fs.writeFileSync(
+      outputPath,
+      serializeParquet(dataset, options.compression, options)
+    );
+  },
+  // Only the footer is needed for the schema, but the file is read whole
+  readSchema: async filePath =>
+    describeFields(
+      tableFromIPC(readSchema(fs.readFileSync(filePath)).intoIPCStream()).schema
+        .fields
+    ),
+};
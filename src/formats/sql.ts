@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataFormat, FormatWriteOptions } from '../formatRegistry';
+import { Dataset, DatasetColumn, SheetDataset } from '../dataset';
+import { flattenDataset } from '../flatten';
+import { stringifyJson } from '../precision';
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'sqlserver';
+
+/**
+ * How SQL scripts are written
+ */
+export interface SqlOptions {
+  dialect: SqlDialect;
+  /** Name of the created table; the output file name when empty */
+  tableName: string;
+  /** Rows inserted by each `INSERT` statement */
+  batchSize: number;
+}
+
+export const DEFAULT_SQL_OPTIONS: SqlOptions = {
+  dialect: 'postgresql',
+  tableName: '',
+  batchSize: 100,
+};
+
+/** SQL Server accepts at most this many rows in one `VALUES` list */
+const SQL_SERVER_MAX_ROWS = 1000;
+
+/** Longest text stored in a `VARCHAR(255)` column instead of a text type */
+const SHORT_TEXT_LENGTH = 255;
+
+/**
+ * Kind of values of a column, which decides its SQL type
+ */
+type SqlColumnKind =
+  'integer' | 'bigint' | 'double' | 'boolean' | 'shortText' | 'text' | 'json';
+
+const COLUMN_TYPES: Record<SqlDialect, Record<SqlColumnKind, string>> = {
+  postgresql: {
+    integer: 'INTEGER',
+    bigint: 'BIGINT',
+    double: 'DOUBLE PRECISION',
+    boolean: 'BOOLEAN',
+    shortText: 'TEXT',
+    text: 'TEXT',
+    json: 'JSONB',
+  },
+  mysql: {
+    integer: 'INT',
+    bigint: 'BIGINT',
+    double: 'DOUBLE',
+    boolean: 'BOOLEAN',
+    shortText: 'VARCHAR(255)',
+    text: 'TEXT',
+    json: 'JSON',
+  },
+  sqlite: {
+    integer: 'INTEGER',
+    bigint: 'INTEGER',
+    double: 'REAL',
+    boolean: 'INTEGER',
+    shortText: 'TEXT',
+    text: 'TEXT',
+    json: 'TEXT',
+  },
+  sqlserver: {
+    integer: 'INT',
+    bigint: 'BIGINT',
+    double: 'FLOAT',
+    boolean: 'BIT',
+    shortText: 'NVARCHAR(255)',
+    text: 'NVARCHAR(MAX)',
+    json: 'NVARCHAR(MAX)',
+  },
+};
+
+const isInt32 = (value: number): boolean =>
+  value >= -2147483648 && value <= 2147483647;
+
+/**
+ * Decide the SQL type of a column from its values. Columns of several types
+ * become text.
+ */
+function getColumnKind(
+  column: DatasetColumn,
+  values: unknown[]
+): SqlColumnKind {
+  switch (column.type) {
+    case 'number': {
+      const numbers = values.filter(
+        (value): value is number | bigint =>
+          typeof value === 'number' || typeof value === 'bigint'
+      );
+      if (numbers.some(value => !Number.isInteger(Number(value)))) {
+        return 'double';
+      }
+      return numbers.every(value => isInt32(Number(value)))
+        ? 'integer'
+        : 'bigint';
+    }
+    case 'boolean':
+      return 'boolean';
+    case 'object':
+      return 'json';
+    default:
+      return values.every(
+        value => typeof value !== 'string' || value.length <= SHORT_TEXT_LENGTH
+      )
+        ? 'shortText'
+        : 'text';
+  }
+}
+
+/**
+ * Quote a table or column name
+ * @param name The identifier
+ * @param dialect The SQL dialect
+ */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  switch (dialect) {
+    case 'mysql':
+      return '`' + name.replace(/`/g, '``') + '`';
+    case 'sqlserver':
+      return '[' + name.replace(/]/g, ']]') + ']';
+    default:
+      return '"' + name.replace(/"/g, '""') + '"';
+  }
+}
+
+/**
+ * Quote a string literal. MySQL also treats backslashes as escapes, and
+ * SQL Server needs `N'...'` literals for Unicode text.
+ * @param text The string
+ * @param dialect The SQL dialect
+ */
+export function quoteString(text: string, dialect: SqlDialect): string {
+  const escaped = text.replace(/'/g, "''");
+  switch (dialect) {
+    case 'mysql':
+      return `'${escaped.replace(/\\/g, '\\\\')}'`;
+    case 'sqlserver':
+      return `N'${escaped}'`;
+    default:
+      return `'${escaped}'`;
+  }
+}
+
+const isTextKind = (kind: SqlColumnKind): boolean =>
+  kind === 'shortText' || kind === 'text';
+
+/**
+ * Write a value as a SQL literal. Missing values, and empty cells of columns
+ * that are not text, are written as `NULL`. Every value of a text column is
+ * quoted, since columns of mixed types become text.
+ */
+function toLiteral(
+  value: unknown,
+  kind: SqlColumnKind,
+  dialect: SqlDialect
+): string {
+  if (
+    value === null ||
+    value === undefined ||
+    (value === '' && !isTextKind(kind))
+  ) {
+    return 'NULL';
+  }
+  if (isTextKind(kind) && typeof value !== 'object') {
+    return quoteString(String(value), dialect);
+  }
+  switch (typeof value) {
+    case 'number':
+      return Number.isFinite(value) ? String(value) : 'NULL';
+    case 'bigint':
+      return value.toString();
+    case 'boolean':
+      return dialect === 'sqlite' || dialect === 'sqlserver'
+        ? String(Number(value))
+        : String(value).toUpperCase();
+    case 'object':
+      return quoteString(stringifyJson(value), dialect);
+    default:
+      return quoteString(String(value), dialect);
+  }
+}
+
+/**
+ * Serialize a dataset to a SQL script: a `CREATE TABLE` statement with
+ * column types inferred from the data, followed by `INSERT` statements of
+ * up to `batchSize` rows each
+ * @param dataset The dataset to serialize
+ * @param tableName The name of the table
+ * @param options The SQL dialect and batch size, and how to flatten nested
+ * values
+ */
+export function serializeSql(
+  dataset: Dataset,
+  tableName: string,
+  options: FormatWriteOptions = {}
+): string {
+  const sql = { ...DEFAULT_SQL_OPTIONS, ...options.sql };
+  if (options.flatten) {
+    dataset = flattenDataset(dataset, options.flatten);
+  }
+  if (dataset.columns.length === 0) {
+    return '';
+  }
+
+  const { dialect } = sql;
+  const table = quoteIdentifier(tableName, dialect);
+  const columns = dataset.columns.map(column => ({
+    name: column.name,
+    kind: getColumnKind(
+      column,
+      dataset.rows.map(row => row?.[column.name])
+    ),
+  }));
+
+  const definitions = columns.map(
+    column =>
+      `  ${quoteIdentifier(column.name, dialect)} ${
+        COLUMN_TYPES[dialect][column.kind]
+      }`
+  );
+  const statements = [
+    `CREATE TABLE ${table} (\n${definitions.join(',\n')}\n);`,
+  ];
+
+  const columnList = columns
+    .map(column => quoteIdentifier(column.name, dialect))
+    .join(', ');
+  const batchSize = Math.max(
+    1,
+    dialect === 'sqlserver'
+      ? Math.min(sql.batchSize, SQL_SERVER_MAX_ROWS)
+      : sql.batchSize
+  );
+  for (let i = 0; i < dataset.rows.length; i += batchSize) {
+    const values = dataset.rows
+      .slice(i, i + batchSize)
+      .map(
+        row =>
+          `  (${columns
+            .map(column => toLiteral(row?.[column.name], column.kind, dialect))
+            .join(', ')})`
+      );
+    statements.push(
+      `INSERT INTO ${table} (${columnList}) VALUES\n${values.join(',\n')};`
+    );
+  }
+
+  return statements.join('\n\n') + '\n';
+}
+
+/**
+ * The table name for a written file: the configured one, or the file name
+ */
+const getTableName = (outputPath: string, options: FormatWriteOptions) =>
+  options.sql?.tableName || path.basename(outputPath, path.extname(outputPath));
+
+export const sqlFormat: DataFormat = {
+  id: 'sql',
+  displayName: 'SQL',
+  extensions: ['.sql'],
+  capabilities: { read: false, write: true, preview: false },
+  commandId: 'dataconverter.convertToSQL',
+  write: async (dataset, outputPath, options) => {
+    fs.writeFileSync(
+      outputPath,
+      serializeSql(dataset, getTableName(outputPath, options), options)
+    );
+  },
+  writeSheets: async (sheets: SheetDataset[], outputPath, options) => {
+    // One table per sheet, named after it
+    fs.writeFileSync(
+      outputPath,
+      sheets
+        .map(({ name, dataset }) => serializeSql(dataset, name, options))
+        .join('\n')
+    );
+  },
+};
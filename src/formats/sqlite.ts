@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs = require('sql.js');
+import {
+  DataFormat,
+  FormatReadOptions,
+  FormatWriteOptions,
+} from '../formatRegistry';
+import { createDataset, Dataset, DataRecord, SheetDataset } from '../dataset';
+import { unflattenDataset } from '../flatten';
+import { quoteIdentifier, serializeSql } from './sql';
+import { DEFAULT_LARGE_INTEGERS, describeTextNumbers } from '../precision';
+
+let sqlJs: Promise<initSqlJs.SqlJsStatic> | undefined;
+
+/**
+ * Load the SQLite engine once, on first use
+ */
+const getSqlJs = (): Promise<initSqlJs.SqlJsStatic> => (sqlJs ??= initSqlJs());
+
+/**
+ * Open a database file, or a new database when the file does not exist
+ * @param filePath The database file
+ */
+async function openDatabase(filePath: string): Promise<initSqlJs.Database> {
+  const SQL = await getSqlJs();
+  return fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+}
+
+/**
+ * List the tables and views of an open database, in the order they were
+ * created
+ */
+const listTables = (db: initSqlJs.Database): string[] =>
+  (
+    db.exec(
+      "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') " +
+        "AND name NOT LIKE 'sqlite_%' ORDER BY rowid"
+    )[0]?.values ?? []
+  ).map(([name]) => String(name));
+
+/**
+ * Read the current row of a statement with its integers as `BigInt`s, an
+ * option of sql.js that its typings lack
+ */
+const getRowWithBigInts = (
+  statement: initSqlJs.Statement
+): Record<string, initSqlJs.SqlValue | bigint> =>
+  (
+    statement.getAsObject as (
+      params: undefined,
+      config: { useBigInt: boolean }
+    ) => Record<string, initSqlJs.SqlValue | bigint>
+  ).call(statement, undefined, { useBigInt: true });
+
+/**
+ * Run a query and read its result as a dataset. Blobs are read as base64
+ * text, and every value as text when types are not preserved. Integers
+ * beyond ±2^53 are read as text or as `BigInt`s, as `largeIntegers` asks,
+ * and those kept as text are reported as a warning.
+ */
+function queryDataset(
+  db: initSqlJs.Database,
+  query: string,
+  {
+    preserveTypes = true,
+    unflatten,
+    largeIntegers = DEFAULT_LARGE_INTEGERS,
+    onWarning,
+  }: FormatReadOptions
+): Dataset {
+  const statement = db.prepare(query);
+  try {
+    const rows: DataRecord[] = [];
+    let textNumbers = 0;
+    const textColumns = new Set<string>();
+    const toValue = (column: string, value: initSqlJs.SqlValue | bigint) => {
+      if (value instanceof Uint8Array) {
+        return Buffer.from(value).toString('base64');
+      }
+      if (value === null || !preserveTypes) {
+        return value === null ? null : String(value);
+      }
+      if (typeof value !== 'bigint') {
+        return value;
+      }
+      if (Number.isSafeInteger(Number(value))) {
+        return Number(value);
+      }
+      if (largeIntegers === 'number') {
+        return value;
+      }
+      textNumbers++;
+      textColumns.add(column);
+      return String(value);
+    };
+    while (statement.step()) {
+      const row: DataRecord = {};
+      Object.entries(getRowWithBigInts(statement)).forEach(
+        ([column, value]) => {
+          row[column] = toValue(column, value);
+        }
+      );
+      rows.push(row);
+    }
+    if (textNumbers > 0) {
+      onWarning?.(describeTextNumbers(textNumbers, [...textColumns]));
+    }
+    const dataset = createDataset(rows, statement.getColumnNames());
+    return unflatten ? unflattenDataset(dataset, unflatten) : dataset;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Read a table, or the result of a query, from a SQLite database file
+ * @param filePath The database file
+ * @param options `query` to run a query, otherwise `sheet` names the table
+ * to read, the first one when omitted
+ */
+export async function readSqlite(
+  filePath: string,
+  options: FormatReadOptions = {}
+): Promise<Dataset> {
+  const db = await openDatabase(filePath);
+  try {
+    if (options.query) {
+      return queryDataset(db, options.query, options);
+    }
+
+    const tables = listTables(db);
+    const table = options.sheet ?? tables[0];
+    if (!table) {
+      throw new Error(`${path.basename(filePath)} has no tables`);
+    }
+    if (!tables.includes(table)) {
+      throw new Error(
+        `Table "${table}" not found in ${path.basename(filePath)}`
+      );
+    }
+    return queryDataset(
+      db,
+      `SELECT * FROM ${quoteIdentifier(table, 'sqlite')}`,
+      options
+    );
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Write datasets into tables of a SQLite database file. Tables of the same
+ * name are replaced, and other tables of an existing file are kept.
+ * @param sheets The datasets, named after their tables
+ * @param outputPath The database file
+ * @param options Writer options; the SQL dialect is always SQLite
+ */
+export async function writeSqliteTables(
+  sheets: SheetDataset[],
+  outputPath: string,
+  options: FormatWriteOptions = {}
+): Promise<void> {
+  const db = await openDatabase(outputPath);
+  try {
+    db.exec('BEGIN');
+    for (const { name, dataset } of sheets) {
+      const script = serializeSql(dataset, name, {
+        ...options,
+        sql: { ...options.sql, dialect: 'sqlite', batchSize: 500 },
+      });
+      if (!script) {
+        continue; // Tables need at least one column
+      }
+      db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(name, 'sqlite')};`);
+      db.exec(script);
+    }
+    db.exec('COMMIT');
+    fs.writeFileSync(outputPath, db.export());
+  } finally {
+    db.close();
+  }
+}
+
+export const sqliteFormat: DataFormat = {
+  id: 'sqlite',
+  displayName: 'SQLite',
+  extensions: ['.sqlite', '.sqlite3', '.db'],
+  capabilities: { read: true, write: true, preview: true },
+  binary: true,
+  mergesIntoOutput: true,
+  commandId: 'dataconverter.convertToSQLite',
+  queryable: true,
+  read: readSqlite,
+  write: async (dataset, outputPath, options) => {
+    // The table is named like the file unless a table name is configured
+    const name =
+      options.sql?.tableName ||
+      path.basename(outputPath, path.extname(outputPath));
+    await writeSqliteTables([{ name, dataset }], outputPath, options);
+  },
+  listSheets: async filePath => {
+    const db = await openDatabase(filePath);
+    try {
+      return listTables(db);
+    } finally {
+      db.close();
+    }
+  },
+  readSheets: async (filePath, options) => {
+    if (options.query) {
+      return [];
+    }
+    const db = await openDatabase(filePath);
+    try {
+      return listTables(db).map(name => ({
+        name,
+        dataset: queryDataset(
+          db,
+          `SELECT * FROM ${quoteIdentifier(name, 'sqlite')}`,
+          options
+        ),
+      }));
+    } finally {
+      db.close();
+    }
+  },
+  writeSheets: writeSqliteTables,
+};
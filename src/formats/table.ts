@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import { DataFormat, FormatWriteOptions } from '../formatRegistry';
+import { Dataset, DatasetColumn, SheetDataset } from '../dataset';
+import { flattenDataset } from '../flatten';
+import { stringifyJson } from '../precision';
+
+export type TableAlignment = 'auto' | 'left' | 'center' | 'right';
+
+/**
+ * How datasets are written as Markdown and HTML tables
+ */
+export interface TableOptions {
+  /** Alignment of every column, or `auto` to right-align number columns */
+  alignment: TableAlignment;
+  /** Most rows written; 0 for no limit */
+  maxRows: number;
+  /** Most columns written; 0 for no limit */
+  maxColumns: number;
+  /** Longest cell text before it is cut off with an ellipsis; 0 for no limit */
+  maxCellLength: number;
+}
+
+export const DEFAULT_TABLE_OPTIONS: TableOptions = {
+  alignment: 'auto',
+  maxRows: 500,
+  maxColumns: 0,
+  maxCellLength: 0,
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ * @param text The text to escape
+ */
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+
+/**
+ * The cells of a dataset as text, cut down to the table limits
+ */
+interface Table {
+  columns: Array<{ name: string; alignment: Exclude<TableAlignment, 'auto'> }>;
+  rows: string[][];
+  /** Says what was left out, e.g. `Showing 500 of 1,200 rows.` */
+  note?: string;
+}
+
+const columnAlignment = (
+  column: DatasetColumn,
+  alignment: TableAlignment
+): Exclude<TableAlignment, 'auto'> =>
+  alignment !== 'auto'
+    ? alignment
+    : column.type === 'number'
+      ? 'right'
+      : 'left';
+
+const truncate = (text: string, maxLength: number): string =>
+  maxLength > 0 && text.length > maxLength
+    ? text.slice(0, Math.max(maxLength - 1, 0)) + '…'
+    : text;
+
+const limit = <T>(items: T[], max: number): T[] =>
+  max > 0 ? items.slice(0, max) : items;
+
+/**
+ * Turn a dataset into the cells of a table. Nested values are flattened into
+ * columns when flattening is enabled, and written as JSON otherwise.
+ */
+function toTable(dataset: Dataset, options: FormatWriteOptions): Table {
+  const table = { ...DEFAULT_TABLE_OPTIONS, ...options.table };
+  if (options.flatten) {
+    dataset = flattenDataset(dataset, options.flatten);
+  }
+
+  const columns = limit(dataset.columns, table.maxColumns);
+  const rows = limit(dataset.rows, table.maxRows).map(row =>
+    columns.map(({ name }) => {
+      const value = row?.[name];
+      if (value === null || value === undefined) {
+        return '';
+      }
+      const text =
+        typeof value === 'object' ? stringifyJson(value) : String(value);
+      return truncate(text, table.maxCellLength);
+    })
+  );
+
+  const omitted: string[] = [];
+  if (rows.length < dataset.rows.length) {
+    omitted.push(
+      `${rows.length.toLocaleString('en-US')} of ${dataset.rows.length.toLocaleString('en-US')} rows`
+    );
+  }
+  if (columns.length < dataset.columns.length) {
+    omitted.push(`${columns.length} of ${dataset.columns.length} columns`);
+  }
+
+  return {
+    columns: columns.map(column => ({
+      name: column.name,
+      alignment: columnAlignment(column, table.alignment),
+    })),
+    rows,
+    note: omitted.length > 0 ? `Showing ${omitted.join(' and ')}.` : undefined,
+  };
+}
+
+/**
+ * Escape a cell of a Markdown table: pipes would end the cell and line
+ * breaks the row, and HTML tags in the data would be rendered
+ */
+const escapeMarkdownCell = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n|\r/g, '<br>');
+
+const MARKDOWN_DELIMITER_ROWS = {
+  left: ':---',
+  center: ':---:',
+  right: '---:',
+};
+
+/**
+ * Serialize a dataset to a GitHub Flavored Markdown table, with a note below
+ * it when rows or columns were left out
+ * @param dataset The dataset to serialize
+ * @param options The table limits and alignment, and how to flatten nested
+ * values
+ */
+export function serializeMarkdownTable(
+  dataset: Dataset,
+  options: FormatWriteOptions = {}
+): string {
+  if (dataset.columns.length === 0) {
+    return '';
+  }
+
+  const table = toTable(dataset, options);
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |\n`;
+  const markdown =
+    line(table.columns.map(column => escapeMarkdownCell(column.name))) +
+    line(
+      table.columns.map(column => MARKDOWN_DELIMITER_ROWS[column.alignment])
+    ) +
+    table.rows.map(row => line(row.map(escapeMarkdownCell))).join('');
+  return table.note ? `${markdown}\n_${table.note}_\n` : markdown;
+}
+
+/**
+ * Serialize a dataset to an HTML `<table>` fragment that can be pasted into
+ * wikis and pull requests, with a note below it when rows or columns were
+ * left out
+ * @param dataset The dataset to serialize
+ * @param options The table limits and alignment, and how to flatten nested
+ * values
+ */
+export function serializeHtmlTable(
+  dataset: Dataset,
+  options: FormatWriteOptions = {}
+): string {
+  if (dataset.columns.length === 0) {
+    return '';
+  }
+
+  const table = toTable(dataset, options);
+  const cell = (tag: string, text: string, alignment: string) =>
+    `<${tag}${
+      alignment === 'left' ? '' : ` style="text-align: ${alignment}"`
+    }>${escapeHtml(text).replace(/\r?\n|\r/g, '<br>')}</${tag}>`;
+
+  const header = table.columns
+    .map(column => cell('th', column.name, column.alignment))
+    .join('');
+  const rows = table.rows.map(
+    row =>
+      `    <tr>${row
+        .map((text, i) => cell('td', text, table.columns[i].alignment))
+        .join('')}</tr>\n`
+  );
+  const html =
+    '<table>\n' +
+    `  <thead>\n    <tr>${header}</tr>\n  </thead>\n` +
+    `  <tbody>\n${rows.join('')}  </tbody>\n` +
+    '</table>\n';
+  return table.note
+    ? `${html}<p><em>${escapeHtml(table.note)}</em></p>\n`
+    : html;
+}
+
+/**
+ * Create a table format, which writes every sheet of a multi-sheet
+ * conversion as its own table below a heading
+ */
+function createTableFormat(
+  format: Omit<DataFormat, 'capabilities' | 'write' | 'writeSheets'>,
+  serialize: (dataset: Dataset, options: FormatWriteOptions) => string,
+  heading: (name: string) => string
+): DataFormat {
+  return {
+    ...format,
+    capabilities: { read: false, write: true, preview: false },
+    convertsSelections: true,
+    write: async (dataset, outputPath, options) => {
+      fs.writeFileSync(outputPath, serialize(dataset, options));
+    },
+    writeSheets: async (sheets: SheetDataset[], outputPath, options) => {
+      fs.writeFileSync(
+        outputPath,
+        sheets
+          .map(
+            ({ name, dataset }) => heading(name) + serialize(dataset, options)
+          )
+          .join('\n')
+      );
+    },
+  };
+}
+
+export const markdownFormat = createTableFormat(
+  {
+    id: 'markdown',
+    displayName: 'Markdown Table',
+    extensions: ['.md'],
+    commandId: 'dataconverter.convertToMarkdownTable',
+  },
+  serializeMarkdownTable,
+  name => `## ${name}\n\n`
+);
+
+export const htmlFormat = createTableFormat(
+  {
+    id: 'html',
+    displayName: 'HTML Table',
+    extensions: ['.html'],
+    commandId: 'dataconverter.convertToHTMLTable',
+  },
+  serializeHtmlTable,
+  name => `<h2>${escapeHtml(name)}</h2>\n`
+);
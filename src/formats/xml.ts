@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { DataFormat } from '../formatRegistry';
+import { createDataset, Dataset, DataRecord } from '../dataset';
+import { findRecordArrays } from '../recordPath';
+
+/**
+ * Record element setting that picks the most repeated element
+ */
+export const AUTO_RECORD_ELEMENT = 'auto';
+
+export const DEFAULT_ROOT_ELEMENT = 'records';
+export const DEFAULT_ROW_ELEMENT = 'record';
+
+/** Prefix of the columns that hold attributes, e.g. `@id` */
+const ATTRIBUTE_PREFIX = '@';
+/** Column holding the text of elements that also have attributes or children */
+const TEXT_COLUMN = '#text';
+
+const isObject = (value: unknown): value is DataRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collect every element with the given name, at any depth
+ */
+function findElements(node: unknown, name: string): unknown[] {
+  if (Array.isArray(node)) {
+    return node.flatMap(item => findElements(item, name));
+  }
+  if (!isObject(node)) {
+    return [];
+  }
+  return Object.entries(node).flatMap(([key, value]) =>
+    key === name
+      ? Array.isArray(value)
+        ? value
+        : [value]
+      : findElements(value, name)
+  );
+}
+
+/**
+ * Elements holding only text become a record with a single text column
+ */
+const toRecord = (element: unknown): DataRecord =>
+  isObject(element) ? element : { [TEXT_COLUMN]: element };
+
+/**
+ * Parse XML text into a dataset. Each record element becomes a row, with its
+ * attributes (`@id`) and child elements as columns. Nested child elements
+ * are kept as nested values and repeated ones as arrays.
+ * @param xml The XML content
+ * @param recordElement Name of the element holding each record, or `auto` to
+ * pick the most repeated element
+ * @param preserveTypes Parse numbers and booleans instead of keeping text
+ */
+export function parseXml(
+  xml: string,
+  recordElement: string = AUTO_RECORD_ELEMENT,
+  preserveTypes = true
+): Dataset {
+  const elementName = recordElement.trim() || AUTO_RECORD_ELEMENT;
+  const auto = elementName === AUTO_RECORD_ELEMENT;
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: ATTRIBUTE_PREFIX,
+    textNodeName: TEXT_COLUMN,
+    ignoreDeclaration: true,
+    ignorePiTags: true,
+    parseTagValue: preserveTypes,
+    parseAttributeValue: preserveTypes,
+    // Keep values like ZIP codes (`01234`) and hex strings as text
+    numberParseOptions: { leadingZeros: false, hex: false },
+    // A single configured record element is still a list of one record
+    isArray: (tagName, jPath, isLeafNode, isAttribute) =>
+      !auto && !isAttribute && tagName === elementName,
+  });
+
+  let document: unknown;
+  try {
+    document = parser.parse(xml, true);
+  } catch (error) {
+    throw new Error(`Invalid XML: ${(error as Error).message}`);
+  }
+  if (!isObject(document) || Object.keys(document).length === 0) {
+    throw new Error('Invalid XML: the document has no root element');
+  }
+
+  if (!auto) {
+    const elements = findElements(document, elementName);
+    if (elements.length === 0) {
+      throw new Error(`No <${elementName}> elements found`);
+    }
+    return createDataset(elements.map(toRecord));
+  }
+
+  // Repeated elements are parsed as arrays, so the largest array of objects
+  // below the root holds the records. Without one, the innermost element
+  // that wraps more than a single child is one record.
+  let root = Object.values(document)[0];
+  const candidate = findRecordArrays(root)[0];
+  if (candidate) {
+    return createDataset(candidate.records);
+  }
+  while (isObject(root)) {
+    const children = Object.values(root);
+    if (children.length !== 1 || !isObject(children[0])) {
+      break;
+    }
+    root = children[0];
+  }
+  return createDataset([toRecord(root)]);
+}
+
+/**
+ * Turn a column or setting into a valid XML element name by replacing
+ * characters that names cannot hold, e.g. `tags[0]` becomes `tags_0_`
+ * @param name The name to convert
+ */
+export function toXmlName(name: string): string {
+  const valid = name.replace(/[^\p{L}\p{N}_.-]/gu, '_');
+  return /^[\p{L}_]/u.test(valid) ? valid : `_${valid}`;
+}
+
+/**
+ * Prepare a value for the XML builder: keys become valid element or
+ * attribute names, empty values become empty elements and dates are
+ * written as ISO strings
+ */
+function toXmlValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toXmlValue);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => {
+        if (key === TEXT_COLUMN) {
+          return [key, toXmlValue(child)];
+        }
+        if (key.startsWith(ATTRIBUTE_PREFIX) && key.length > 1) {
+          return [
+            ATTRIBUTE_PREFIX + toXmlName(key.slice(1)),
+            toXmlValue(child),
+          ];
+        }
+        return [toXmlName(key), toXmlValue(child)];
+      })
+    );
+  }
+  return value;
+}
+
+/**
+ * Serialize a dataset to XML, with one row element per record inside a root
+ * element. Columns starting with `@` are written as attributes and nested
+ * values as nested elements.
+ * @param dataset The dataset to serialize
+ * @param rootElement Name of the element around all records
+ * @param rowElement Name of the element of each record
+ * @param indentation Number of spaces to indent with; 0 writes a single line
+ */
+export function serializeXml(
+  dataset: Dataset,
+  rootElement: string = DEFAULT_ROOT_ELEMENT,
+  rowElement: string = DEFAULT_ROW_ELEMENT,
+  indentation = 2
+): string {
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: ATTRIBUTE_PREFIX,
+    textNodeName: TEXT_COLUMN,
+    format: indentation > 0,
+    indentBy: ' '.repeat(indentation),
+    suppressEmptyNode: true,
+  });
+  const rows = dataset.rows.map(row => toXmlValue(toRecord(row)));
+  const body = builder.build({
+    [toXmlName(rootElement || DEFAULT_ROOT_ELEMENT)]: {
+      [toXmlName(rowElement || DEFAULT_ROW_ELEMENT)]: rows,
+    },
+  });
+
+  const newline = indentation > 0 ? '\n' : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>${newline}${body}`;
+}
+
+export const xmlFormat: DataFormat = {
+  id: 'xml',
+  displayName: 'XML',
+  extensions: ['.xml'],
+  capabilities: { read: true, write: true, preview: true },
+  commandId: 'dataconverter.convertToXML',
+  read: async (filePath, options) =>
+    parseXml(
+      fs.readFileSync(filePath, 'utf8'),
+      options.recordElement,
+      options.preserveTypes ?? true
+    ),
+  write: async (dataset, outputPath, options) => {
+    fs.writeFileSync(
+      outputPath,
+      serializeXml(
+        dataset,
+        options.rootElement,
+        options.rowElement,
+        options.indentation
+      )
+    );
+  },
+};
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { DataFormat, FormatReadOptions } from '../formatRegistry';
+import { createDataset, Dataset, SheetDataset } from '../dataset';
+import { AUTO_RECORD_PATH, selectRecords } from '../recordPath';
+import { toRecords, toSheets } from './json';
+import {
+  DEFAULT_LARGE_INTEGERS,
+  describeTextNumbers,
+  LargeIntegers,
+} from '../precision';
+
+/**
+ * Check whether a parsed YAML document is a transformation config for
+ * `applyYamlTransformations` rather than data, i.e. an object with a
+ * `transformations` list of filter, mapping or calculation rules
+ * @param document The parsed YAML document
+ */
+export function isTransformationConfig(document: unknown): boolean {
+  if (typeof document !== 'object' || document === null) {
+    return false;
+  }
+  const rules = (document as Record<string, unknown>).transformations;
+  return (
+    Array.isArray(rules) &&
+    rules.every(
+      rule =>
+        typeof rule === 'object' &&
+        rule !== null &&
+        ('condition' in rule || 'mapping' in rule || 'calculate' in rule)
+    )
+  );
+}
+
+// js-yaml exports its types at runtime, but its typings leave them out
+const { int: intType } = (yaml as unknown as { types: { int: yaml.Type } })
+  .types;
+
+/**
+ * The core schema with integers beyond ±2^53 read as text or as `BigInt`s,
+ * instead of the nearest JavaScript number
+ * @param largeIntegers How large integers are read
+ * @param onTextNumber Called for each integer kept as text
+ */
+const exactIntegerSchema = (
+  largeIntegers: LargeIntegers,
+  onTextNumber: () => void
+): yaml.Schema =>
+  yaml.CORE_SCHEMA.extend({
+    implicit: [
+      new yaml.Type('tag:yaml.org,2002:int', {
+        kind: 'scalar',
+        resolve: data => intType.resolve(data),
+        construct: (data: string) => {
+          const value = intType.construct(data);
+          if (Number.isSafeInteger(value)) {
+            return value;
+          }
+          // BigInt takes neither the sign of hex and octal numbers nor the
+          // underscores YAML allows between digits
+          const text = data.replace(/_/g, '');
+          const digits = BigInt(text.replace(/^[-+]/, ''));
+          const exact = text.startsWith('-') ? -digits : digits;
+          if (largeIntegers === 'number') {
+            return exact;
+          }
+          onTextNumber();
+          return exact.toString();
+        },
+      }),
+    ],
+  });
+
+/**
+ * Parse YAML text into a plain document. A stream of several documents
+ * (separated by `---`) is read as a list with one item per document.
+ * Timestamps are kept as text, like in JSON. Integers too large for
+ * JavaScript numbers are read as `largeIntegers` asks, and those kept as
+ * text are reported as a warning.
+ * @param text The YAML content
+ * @param preserveTypes Parse numbers, booleans and nulls instead of keeping
+ * every scalar as text
+ * @param options How large integers are read, and where numbers kept as
+ * text are reported
+ */
+export function parseYamlDocument(
+  text: string,
+  preserveTypes = true,
+  options: Pick<FormatReadOptions, 'largeIntegers' | 'onWarning'> = {}
+): unknown {
+  let textNumbers = 0;
+  const documents = yaml.loadAll(text, null, {
+    schema: preserveTypes
+      ? exactIntegerSchema(
+          options.largeIntegers ?? DEFAULT_LARGE_INTEGERS,
+          () => textNumbers++
+        )
+      : yaml.FAILSAFE_SCHEMA,
+  });
+  if (documents.length === 0) {
+    throw new Error('The YAML file is empty');
+  }
+  if (textNumbers > 0) {
+    options.onWarning?.(describeTextNumbers(textNumbers));
+  }
+  return documents.length === 1 ? documents[0] : documents;
+}
+
+/**
+ * Read a YAML data file, refusing transformation configs so they are not
+ * converted by mistake
+ */
+function readDocument(filePath: string, options: FormatReadOptions): unknown {
+  const document = parseYamlDocument(
+    fs.readFileSync(filePath, 'utf8'),
+    options.preserveTypes ?? true,
+    options
+  );
+  if (isTransformationConfig(document)) {
+    throw new Error(
+      `${path.basename(filePath)} is a YAML transformation file, not data`
+    );
+  }
+  return document;
+}
+
+const toDataset = (document: unknown, recordPath?: string): Dataset =>
+  createDataset(
+    toRecords(
+      recordPath === undefined ? document : selectRecords(document, recordPath)
+    )
+  );
+
+/**
+ * Parse YAML text into a dataset
+ * @param text The YAML content
+ * @param recordPath Where the records are in the document; the whole
+ * document is used when omitted
+ * @param preserveTypes Parse numbers, booleans and nulls
+ */
+export const parseYaml = (
+  text: string,
+  recordPath?: string,
+  preserveTypes = true
+): Dataset => toDataset(parseYamlDocument(text, preserveTypes), recordPath);
+
+// BigInts beyond ±2^53 are written as text, which YAML readers don't round
+// to the nearest number; smaller ones are plain numbers
+const dumpOptions = (indentation = 2): yaml.DumpOptions => ({
+  indent: Math.max(indentation, 1),
+  lineWidth: -1,
+  noRefs: true,
+  skipInvalid: true,
+  replacer: (_key, value) =>
+    typeof value !== 'bigint'
+      ? value
+      : Number.isSafeInteger(Number(value))
+        ? Number(value)
+        : value.toString(),
+});
+
+/**
+ * Serialize a dataset to a YAML list of records
+ * @param dataset The dataset to serialize
+ * @param indentation Number of spaces to indent with
+ */
+export const serializeYaml = (dataset: Dataset, indentation = 2): string =>
+  yaml.dump(dataset.rows, dumpOptions(indentation));
+
+/**
+ * Serialize several named datasets to a YAML mapping keyed by name, with the
+ * records of each dataset as a list
+ * @param sheets The datasets to serialize
+ * @param indentation Number of spaces to indent with
+ */
+export const serializeYamlSheets = (
+  sheets: SheetDataset[],
+  indentation = 2
+): string =>
+  yaml.dump(
+    Object.fromEntries(sheets.map(({ name, dataset }) => [name, dataset.rows])),
+    dumpOptions(indentation)
+  );
+
+export const yamlFormat: DataFormat = {
+  id: 'yaml',
+  displayName: 'YAML',
+  extensions: ['.yaml', '.yml'],
+  capabilities: { read: true, write: true, preview: true },
+  commandId: 'dataconverter.convertToYAML',
+  read: async (filePath, options) =>
+    toDataset(readDocument(filePath, options), options.recordPath),
+  write: async (dataset, outputPath, options) => {
+    fs.writeFileSync(outputPath, serializeYaml(dataset, options.indentation));
+  },
+  isData: filePath => {
+    try {
+      return !isTransformationConfig(
+        parseYamlDocument(fs.readFileSync(filePath, 'utf8'))
+      );
+    } catch {
+      // Let the reader report files that cannot be parsed
+      return true;
+    }
+  },
+  sheetsByDefault: true,
+  readSheets: async (filePath, options) => {
+    // A record path picks a single list, so the document is one table
+    const recordPath = options.recordPath ?? AUTO_RECORD_PATH;
+    return recordPath === AUTO_RECORD_PATH
+      ? toSheets(readDocument(filePath, options))
+      : [];
+  },
+  writeSheets: async (sheets, outputPath, options) => {
+    fs.writeFileSync(
+      outputPath,
+      serializeYamlSheets(sheets, options.indentation)
+    );
+  },
+};
@@ -0,0 +1,208 @@
+import * as path from 'path';
+import { isIsoDate } from './dates';
+
+/** Meta-schema of the generated schemas */
+export const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Suffix of the schema file generated for a data file */
+export const SCHEMA_SUFFIX = '.schema.json';
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * How schemas are inferred from data
+ */
+export interface SchemaOptions {
+  /** Most records the schema is inferred from */
+  sampleSize: number;
+  /**
+   * Most distinct values of a text field listed as its `enum`; 0 never
+   * lists them
+   */
+  maxEnumValues: number;
+}
+
+export const DEFAULT_SCHEMA_OPTIONS: SchemaOptions = {
+  sampleSize: 1000,
+  maxEnumValues: 10,
+};
+
+/**
+ * String formats recognized in the data, most specific first. A field gets
+ * a format when every one of its values matches it. Dates are checked
+ * against the calendar, as validators do, so `2024-02-30` is not a date.
+ */
+const STRING_FORMATS: Array<[string, (value: string) => boolean]> = [
+  [
+    'date-time',
+    value =>
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(
+        value
+      ) && isIsoDate(value),
+  ],
+  ['date', value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isIsoDate(value)],
+  ['email', value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)],
+  ['uri', value => /^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(value)],
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Get the path of the schema file generated for a data file, e.g.
+ * `people.schema.json` for `people.csv`
+ * @param filePath The data file
+ */
+export function getSchemaPath(filePath: string): string {
+  const extension = path.extname(filePath);
+  return (
+    (extension ? filePath.slice(0, -extension.length) : filePath) +
+    SCHEMA_SUFFIX
+  );
+}
+
+/**
+ * Check whether a file is a JSON Schema file generated for a data file
+ * @param filePath The file
+ */
+export const isSchemaFile = (filePath: string): boolean =>
+  filePath.toLowerCase().endsWith(SCHEMA_SUFFIX);
+
+function inferStringSchema(
+  values: string[],
+  options: SchemaOptions
+): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+  const format = STRING_FORMATS.find(([, matches]) => values.every(matches));
+  if (format) {
+    schema.format = format[0];
+    return schema;
+  }
+
+  // Text that repeats a few values, such as a status, is listed as an enum
+  const distinct = [...new Set(values)];
+  if (
+    distinct.length <= options.maxEnumValues &&
+    distinct.length * 2 <= values.length
+  ) {
+    schema.enum = distinct.sort();
+  }
+  return schema;
+}
+
+function inferObjectSchema(
+  objects: Record<string, unknown>[],
+  options: SchemaOptions
+): JsonSchema {
+  const keys = [...new Set(objects.flatMap(object => Object.keys(object)))];
+  const properties: JsonSchema = {};
+  keys.forEach(key => {
+    properties[key] = inferSchema(
+      objects.map(object => object[key]),
+      options
+    );
+  });
+
+  // Fields are required when every record has a value for them
+  const required = keys.filter(key =>
+    objects.every(object => object[key] !== undefined && object[key] !== null)
+  );
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/**
+ * Infer the schema of the values found at one place in the data. Values of
+ * several types give a schema with a list of types, whose other keywords
+ * each apply to one of the types.
+ * @param values The values; `undefined` for records without one
+ * @param options How the schema is inferred
+ */
+export function inferSchema(
+  values: unknown[],
+  options: SchemaOptions = DEFAULT_SCHEMA_OPTIONS
+): JsonSchema {
+  const schemas: JsonSchema[] = [];
+
+  const objects = values.filter(isObject);
+  if (objects.length > 0) {
+    schemas.push(inferObjectSchema(objects, options));
+  }
+  const arrays = values.filter(Array.isArray);
+  if (arrays.length > 0) {
+    const items = arrays.flat();
+    schemas.push(
+      items.length > 0
+        ? { type: 'array', items: inferSchema(items, options) }
+        : { type: 'array' }
+    );
+  }
+  const strings = values.filter(
+    (value): value is string => typeof value === 'string'
+  );
+  if (strings.length > 0) {
+    schemas.push(inferStringSchema(strings, options));
+  }
+  const numbers = values.filter(
+    value => typeof value === 'number' || typeof value === 'bigint'
+  );
+  if (numbers.length > 0) {
+    schemas.push({
+      type: numbers.every(
+        value => typeof value === 'bigint' || Number.isInteger(value)
+      )
+        ? 'integer'
+        : 'number',
+    });
+  }
+  if (values.some(value => typeof value === 'boolean')) {
+    schemas.push({ type: 'boolean' });
+  }
+  if (values.some(value => value === null)) {
+    schemas.push({ type: 'null' });
+  }
+
+  if (schemas.length < 2) {
+    return schemas[0] ?? {};
+  }
+
+  // Keywords such as `format` or `properties` only apply to their own type,
+  // so the schemas merge without conflicts. Enums would reject the values
+  // of the other types, except for null.
+  const types = schemas.map(schema => schema.type);
+  const merged: JsonSchema = Object.assign({}, ...schemas, { type: types });
+  if (merged.enum) {
+    if (types.length === 2 && types.includes('null')) {
+      merged.enum = [...merged.enum, null];
+    } else {
+      delete merged.enum;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Generate a JSON Schema for an array of records from a sample of them
+ * @param records The records, e.g. the rows of a dataset
+ * @param title Title of the schema, e.g. the name of the data file
+ * @param options How the schema is inferred
+ */
+export function generateSchema(
+  records: unknown[],
+  title?: string,
+  options: Partial<SchemaOptions> = {}
+): JsonSchema {
+  const resolved = { ...DEFAULT_SCHEMA_OPTIONS, ...options };
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    ...(title ? { title } : {}),
+    type: 'array',
+    items: inferSchema(records.slice(0, resolved.sampleSize), resolved),
+  };
+}
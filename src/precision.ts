@@ -0,0 +1,178 @@
+/**
+ * How integers too large for JavaScript numbers (beyond ±2^53) are read:
+ * kept as text, or as `BigInt`s that JSON writers output as plain numbers
+ */
+export type LargeIntegers = 'string' | 'number';
+
+export const DEFAULT_LARGE_INTEGERS: LargeIntegers = 'string';
+
+/** Significant digits that every JavaScript number holds exactly */
+export const SAFE_DIGITS = 15;
+
+const NUMBER = /^(-?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/;
+const INTEGER = /^-?\d+$/;
+
+/** Marks numbers and `BigInt`s that pass through JSON as strings */
+const MARKER = '\u0000';
+
+/**
+ * Reduce the text of a number to its sign, significant digits and the
+ * position of its decimal point, so that e.g. `1.50` and `15e-1` compare
+ * equal
+ */
+function normalizeNumber(text: string): string {
+  const match = NUMBER.exec(text);
+  if (!match) {
+    return text;
+  }
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  const allDigits = integer + fraction;
+  const digits = allDigits.replace(/^0+/, '');
+  const significant = digits.replace(/0+$/, '');
+  if (!significant) {
+    return '0';
+  }
+  const leadingZeros = allDigits.length - digits.length;
+  const point = Number(exponent) + integer.length - leadingZeros;
+  return `${sign}${significant}e${point}`;
+}
+
+/**
+ * Check whether a JavaScript number holds the value of the text of a number
+ * exactly, e.g. not for `9007199254740993` or `0.12345678901234567891`
+ * @param text The number, as written in JSON or CSV
+ */
+export function isExactNumber(text: string): boolean {
+  const value = Number(text);
+  return (
+    Number.isFinite(value) &&
+    normalizeNumber(String(value)) === normalizeNumber(text)
+  );
+}
+
+/**
+ * Count the significant digits of a number, e.g. 17 for the
+ * `0.30000000000000004` of `0.1 + 0.2`
+ * @param value The number
+ */
+export const significantDigits = (value: number): number =>
+  value.toExponential().replace(/^-|e.*$|\./g, '').length;
+
+/**
+ * Describe the numbers that a reader kept as text because a JavaScript
+ * number would not hold them exactly
+ * @param count The number of values
+ * @param columns The columns of the values, for tabular files
+ */
+export function describeTextNumbers(
+  count: number,
+  columns: string[] = []
+): string {
+  const where = columns.length
+    ? ` (${columns.length === 1 ? 'column' : 'columns'} ${columns
+        .map(column => `"${column}"`)
+        .join(', ')})`
+    : '';
+  return `${count} ${
+    count === 1 ? 'number has' : 'numbers have'
+  } more digits than a JavaScript number holds and ${
+    count === 1 ? 'was' : 'were'
+  } kept as text${where}`;
+}
+
+/**
+ * Convert a number that a JavaScript number does not hold exactly: large
+ * integers become `BigInt`s when asked to, everything else stays text
+ */
+const toExactValue = (text: string, largeIntegers: LargeIntegers) =>
+  largeIntegers === 'number' && INTEGER.test(text) ? BigInt(text) : text;
+
+/**
+ * Parse JSON text without losing digits. Numbers that a JavaScript number
+ * does not hold exactly are kept as text, or read as `BigInt`s when they
+ * are integers and `largeIntegers` is `number`.
+ * @param text The JSON content
+ * @param largeIntegers How integers beyond ±2^53 are read
+ * @param onTextNumber Called with each number kept as text
+ */
+export function parseExactJson(
+  text: string,
+  largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS,
+  onTextNumber?: (text: string) => void
+): any {
+  // Numbers of up to 15 digits are always exact
+  if (!/(?:\d\.?){16}|[eE][-+]?\d{3}/.test(text)) {
+    return JSON.parse(text);
+  }
+
+  // Numbers outside of strings that would lose digits are turned into
+  // marked strings, and revived after parsing
+  const token = /-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?/y;
+  const parts: string[] = [];
+  let copied = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === '"') {
+        inString = false;
+      }
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      token.lastIndex = i;
+      const number = token.exec(text)?.[0];
+      if (!number) {
+        continue;
+      }
+      if (!isExactNumber(number)) {
+        parts.push(text.slice(copied, i), `"\\u0000${number}"`);
+        copied = i + number.length;
+      }
+      i += number.length - 1;
+    }
+  }
+  if (parts.length === 0) {
+    return JSON.parse(text);
+  }
+  parts.push(text.slice(copied));
+
+  return JSON.parse(parts.join(''), (_key, value) => {
+    if (
+      typeof value !== 'string' ||
+      !value.startsWith(MARKER) ||
+      !NUMBER.test(value.slice(1))
+    ) {
+      return value;
+    }
+    const exact = toExactValue(value.slice(1), largeIntegers);
+    if (typeof exact === 'string') {
+      onTextNumber?.(exact);
+    }
+    return exact;
+  });
+}
+
+/**
+ * Serialize a value to JSON like `JSON.stringify`, writing `BigInt`s as
+ * plain numbers with all of their digits
+ * @param value The value
+ * @param indentation Number of spaces to indent with
+ */
+export function stringifyJson(value: unknown, indentation?: number): string {
+  let hasBigInts = false;
+  const json = JSON.stringify(
+    value,
+    (_key, item) => {
+      if (typeof item !== 'bigint') {
+        return item;
+      }
+      hasBigInts = true;
+      return MARKER + item.toString();
+    },
+    indentation
+  );
+  return hasBigInts ? json.replace(/"\\u0000(-?\d+)"/g, '$1') : json;
+}
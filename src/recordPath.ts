@@ -0,0 +1,231 @@
+import { DataRecord } from './dataset';
+
+/**
+ * Record path that picks the root array, or else the largest array of
+ * objects in the document
+ */
+export const AUTO_RECORD_PATH = 'auto';
+
+/**
+ * An array of objects found in a JSON document
+ */
+export interface RecordArrayCandidate {
+  /** JSONPath of the array, e.g. `$.data.items` */
+  path: string;
+  /** JSON Pointer of the array, e.g. `/data/items` */
+  pointer: string;
+  records: DataRecord[];
+}
+
+type PathToken =
+  | { type: 'child'; key: string | number }
+  | { type: 'descendant'; key: string | number }
+  | { type: 'wildcard'; deep: boolean };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null;
+
+const isRecordArray = (value: unknown): value is DataRecord[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(item => isObject(item) && !Array.isArray(item));
+
+const escapePointer = (key: string): string =>
+  key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const appendPathKey = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+
+/**
+ * Find every array of objects in a JSON document, largest first. Arrays are
+ * not searched inside other arrays, since their records would be spread
+ * over many paths.
+ * @param document The parsed JSON document
+ */
+export function findRecordArrays(document: unknown): RecordArrayCandidate[] {
+  const candidates: RecordArrayCandidate[] = [];
+
+  const visit = (value: unknown, path: string, pointer: string) => {
+    if (isRecordArray(value)) {
+      candidates.push({ path, pointer, records: value });
+      return;
+    }
+    if (isObject(value) && !Array.isArray(value)) {
+      Object.entries(value).forEach(([key, child]) =>
+        visit(
+          child,
+          appendPathKey(path, key),
+          `${pointer}/${escapePointer(key)}`
+        )
+      );
+    }
+  };
+
+  visit(document, '$', '');
+  // Stable sort keeps shallower arrays first among equal sizes
+  return candidates.sort((a, b) => b.records.length - a.records.length);
+}
+
+function parseJsonPath(expression: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let i = 1;
+
+  const readName = (): string => {
+    const match = /^[^.[\]]+/.exec(expression.slice(i));
+    if (!match) {
+      throw new Error(`Invalid JSONPath at position ${i}: ${expression}`);
+    }
+    i += match[0].length;
+    return match[0];
+  };
+
+  while (i < expression.length) {
+    let deep = false;
+    if (expression.startsWith('..', i)) {
+      deep = true;
+      i += 2;
+    } else if (expression[i] === '.') {
+      i += 1;
+    } else if (expression[i] !== '[') {
+      throw new Error(`Invalid JSONPath at position ${i}: ${expression}`);
+    }
+
+    let key: string | number | undefined;
+    if (expression[i] === '[') {
+      const match =
+        /^\[\s*(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\]/.exec(
+          expression.slice(i)
+        );
+      if (!match) {
+        throw new Error(`Invalid JSONPath at position ${i}: ${expression}`);
+      }
+      i += match[0].length;
+      const selector = match[1];
+      if (selector !== '*') {
+        key = /^\d+$/.test(selector)
+          ? Number(selector)
+          : selector.slice(1, -1).replace(/\\(.)/g, '$1');
+      }
+    } else {
+      const name = readName();
+      if (name !== '*') {
+        key = name;
+      }
+    }
+
+    if (key === undefined) {
+      tokens.push({ type: 'wildcard', deep });
+    } else {
+      tokens.push({ type: deep ? 'descendant' : 'child', key });
+    }
+  }
+  return tokens;
+}
+
+const childrenOf = (value: unknown): unknown[] =>
+  isObject(value) ? Object.values(value) : [];
+
+const descendantsOf = (value: unknown): unknown[] => {
+  const result = [value];
+  childrenOf(value).forEach(child => result.push(...descendantsOf(child)));
+  return result;
+};
+
+const childAt = (value: unknown, key: string | number): unknown[] => {
+  if (Array.isArray(value)) {
+    return typeof key === 'number' && key < value.length ? [value[key]] : [];
+  }
+  return isObject(value) && Object.prototype.hasOwnProperty.call(value, key)
+    ? [value[key]]
+    : [];
+};
+
+/**
+ * Evaluate a JSONPath expression. Supports the root `$`, child names
+ * (`.items`, `['items']`), array indexes (`[0]`), wildcards (`.*`, `[*]`)
+ * and recursive descent (`..items`).
+ */
+function evaluateJsonPath(document: unknown, expression: string): unknown[] {
+  return parseJsonPath(expression).reduce<unknown[]>(
+    (nodes, token) => {
+      const scope =
+        token.type === 'child' || (token.type === 'wildcard' && !token.deep)
+          ? nodes
+          : nodes.flatMap(descendantsOf);
+      return token.type === 'wildcard'
+        ? scope.flatMap(childrenOf)
+        : scope.flatMap(node => childAt(node, token.key));
+    },
+    [document]
+  );
+}
+
+/**
+ * Resolve a JSON Pointer (RFC 6901), e.g. `/data/items`
+ */
+function evaluatePointer(document: unknown, pointer: string): unknown[] {
+  if (pointer === '') {
+    return [document];
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown[]>(
+      (nodes, key) =>
+        nodes.flatMap(node =>
+          childAt(node, Array.isArray(node) ? Number(key) : key)
+        ),
+      [document]
+    );
+}
+
+/**
+ * Select the records of a JSON document
+ * @param document The parsed JSON document
+ * @param recordPath A JSONPath (`$.data.items`), a JSON Pointer
+ * (`/data/items`) or `auto` to pick the root array or the largest array of
+ * objects. Values matched by wildcards are combined into one array.
+ */
+export function selectRecords(
+  document: unknown,
+  recordPath: string = AUTO_RECORD_PATH
+): unknown {
+  const selector = recordPath.trim();
+
+  if (selector === AUTO_RECORD_PATH) {
+    if (Array.isArray(document)) {
+      return document;
+    }
+    return findRecordArrays(document)[0]?.records ?? document;
+  }
+
+  let matches: unknown[];
+  if (selector.startsWith('$')) {
+    matches = evaluateJsonPath(document, selector);
+  } else if (selector === '' || selector.startsWith('/')) {
+    matches = evaluatePointer(document, selector);
+  } else {
+    throw new Error(
+      `Invalid record path "${recordPath}". Use a JSONPath starting with $ or a JSON Pointer starting with /.`
+    );
+  }
+
+  if (matches.length === 0) {
+    throw new Error(`No records found at ${recordPath}`);
+  }
+  return matches.length === 1
+    ? matches[0]
+    : matches.flatMap(match => (Array.isArray(match) ? match : [match]));
+}
+
+/**
+ * Whether a record path always selects the root of the document
+ * @param recordPath The record path
+ */
+export function isRootRecordPath(recordPath?: string): boolean {
+  const selector = recordPath?.trim();
+  return selector === undefined || selector === '$' || selector === '';
+}
@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import { ConvertFileOptions } from './conversion';
+import { AUTO_RECORD_PATH } from './recordPath';
+import {
+  AUTO_RECORD_ELEMENT,
+  DEFAULT_ROOT_ELEMENT,
+  DEFAULT_ROW_ELEMENT,
+} from './formats/xml';
+import { CsvDialect, parseDelimiter } from './dialect';
+import { ArrayFlattenMode, FlattenOptions, UnflattenOptions } from './flatten';
+import {
+  DEFAULT_TABLE_OPTIONS,
+  TableAlignment,
+  TableOptions,
+} from './formats/table';
+import { DEFAULT_SQL_OPTIONS, SqlDialect, SqlOptions } from './formats/sql';
+import { DEFAULT_EXCEL_FLAVOR, ExcelFlavor } from './formats/excel';
+import { DEFAULT_SCHEMA_OPTIONS, SchemaOptions } from './jsonSchema';
+import { TypeOutput } from './typeGeneration';
+import {
+  findSchemaPath,
+  InvalidRecordPolicy,
+  SchemaAssociations,
+} from './validation';
+import {
+  DEFAULT_PARQUET_COMPRESSION,
+  ParquetCompression,
+} from './formats/parquet';
+import { DEFAULT_LARGE_INTEGERS, LargeIntegers } from './precision';
+import { DateOptions } from './dates';
+
+/**
+ * Build the reader and writer options for a conversion from the
+ * `dataconverter.*` settings
+ */
+export function getConversionSettings(): ConvertFileOptions {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+
+  return {
+    read: {
+      preserveTypes: config.get('preserveDataTypes', true),
+      largeIntegers: config.get<LargeIntegers>(
+        'largeIntegers',
+        DEFAULT_LARGE_INTEGERS
+      ),
+      recordPath: getJsonRecordPath(),
+      unflatten: getUnflattenSettings(),
+      recordElement: config.get('xmlRecordElement', AUTO_RECORD_ELEMENT),
+      dialect: getDialectOverrides(),
+    },
+    write: {
+      indentation: config.get('jsonIndentation', 2),
+      delimiter: parseDelimiter(config.get('csvDelimiter', ',')),
+      flatten: getFlattenSettings(),
+      rootElement: config.get('xmlRootElement', DEFAULT_ROOT_ELEMENT),
+      rowElement: config.get('xmlRowElement', DEFAULT_ROW_ELEMENT),
+      table: getTableSettings(),
+      sql: getSqlSettings(),
+      compression: config.get<ParquetCompression>(
+        'parquetCompression',
+        DEFAULT_PARQUET_COMPRESSION
+      ),
+      excelFlavor: getExcelFlavor(),
+      dates: getDateSettings(),
+    },
+    streamThresholdBytes: config.get('streamingThresholdMB', 50) * 1024 * 1024,
+    allSheets: config.get<string>('excelSheets', 'ask') === 'all',
+  };
+}
+
+/**
+ * How nested JSON is written to tabular formats, or `undefined` when nested
+ * values should be kept as JSON strings
+ */
+export function getFlattenSettings(): FlattenOptions | undefined {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+  if (config.get('nestedJson', 'flatten') !== 'flatten') {
+    return undefined;
+  }
+
+  return {
+    separator: config.get('flattenSeparator', '.'),
+    arrays: config.get<ArrayFlattenMode>('flattenArrays', 'index'),
+    arrayJoiner: config.get('flattenArrayJoiner', ';'),
+    maxDepth: config.get('flattenMaxDepth', 0),
+  };
+}
+
+/**
+ * How Markdown and HTML tables are aligned and cut down
+ */
+export function getTableSettings(): TableOptions {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+  return {
+    alignment: config.get<TableAlignment>(
+      'tableAlignment',
+      DEFAULT_TABLE_OPTIONS.alignment
+    ),
+    maxRows: config.get('tableMaxRows', DEFAULT_TABLE_OPTIONS.maxRows),
+    maxColumns: config.get('tableMaxColumns', DEFAULT_TABLE_OPTIONS.maxColumns),
+    maxCellLength: config.get(
+      'tableMaxCellLength',
+      DEFAULT_TABLE_OPTIONS.maxCellLength
+    ),
+  };
+}
+
+/**
+ * Which database SQL scripts are written for, and how
+ */
+export function getSqlSettings(): SqlOptions {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+  return {
+    dialect: config.get<SqlDialect>('sqlDialect', DEFAULT_SQL_OPTIONS.dialect),
+    tableName: config.get('sqlTableName', DEFAULT_SQL_OPTIONS.tableName),
+    batchSize: config.get('sqlBatchSize', DEFAULT_SQL_OPTIONS.batchSize),
+  };
+}
+
+/**
+ * Whether the convert commands ask which sheet of a workbook to convert
+ */
+export function askForSheet(): boolean {
+  return (
+    vscode.workspace
+      .getConfiguration('dataconverter')
+      .get<string>('excelSheets', 'ask') === 'ask'
+  );
+}
+
+/**
+ * How JSON Schemas are generated from data files
+ */
+export function getSchemaSettings(): SchemaOptions {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+  return {
+    sampleSize: config.get(
+      'schemaSampleSize',
+      DEFAULT_SCHEMA_OPTIONS.sampleSize
+    ),
+    maxEnumValues: config.get(
+      'schemaMaxEnumValues',
+      DEFAULT_SCHEMA_OPTIONS.maxEnumValues
+    ),
+  };
+}
+
+/**
+ * The code Generate Types writes, or `undefined` when the user is asked
+ * each time
+ */
+export function getTypeOutput(): TypeOutput | undefined {
+  const output = vscode.workspace
+    .getConfiguration('dataconverter')
+    .get<TypeOutput | 'ask'>('typesOutput', 'ask');
+  return output === 'ask' ? undefined : output;
+}
+
+/**
+ * Find the JSON Schema that a data file is validated against, from the
+ * `dataconverter.schemas` associations of its workspace folder or its
+ * schema sidecar file
+ * @param filePath The data file
+ */
+export function getSchemaForFile(filePath: string): string | undefined {
+  const uri = vscode.Uri.file(filePath);
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const associations = vscode.workspace
+    .getConfiguration('dataconverter', uri)
+    .get<SchemaAssociations>('schemas', {});
+  return folder
+    ? findSchemaPath(filePath, associations, folder.uri.fsPath)
+    : findSchemaPath(filePath);
+}
+
+/**
+ * Whether data files are validated against their schema when they are
+ * opened or saved
+ */
+export function validateDataFiles(): boolean {
+  return vscode.workspace
+    .getConfiguration('dataconverter')
+    .get('validateData', true);
+}
+
+/**
+ * What batch conversion does with records that don't match their schema
+ */
+export function getInvalidRecordPolicy(): InvalidRecordPolicy {
+  return vscode.workspace
+    .getConfiguration('dataconverter')
+    .get<InvalidRecordPolicy>('invalidRecords', 'keep');
+}
+
+/**
+ * The file type workbooks are written as. Returns the default when the
+ * user is asked on each conversion, since there is nobody to ask in batch
+ * conversions.
+ */
+export function getExcelFlavor(): ExcelFlavor {
+  const flavor = vscode.workspace
+    .getConfiguration('dataconverter')
+    .get<ExcelFlavor | 'ask'>('excelFormat', DEFAULT_EXCEL_FLAVOR);
+  return flavor === 'ask' ? DEFAULT_EXCEL_FLAVOR : flavor;
+}
+
+/**
+ * The format and time zone of written dates; dates keep the way they are
+ * written when neither is set
+ */
+export function getDateSettings(): DateOptions {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+  return {
+    format: config.get('dateFormat', '').trim() || undefined,
+    timeZone: config.get('timeZone', '').trim() || undefined,
+  };
+}
+
+/**
+ * Whether the Excel convert command asks which file type to write
+ */
+export function askForExcelFlavor(): boolean {
+  return (
+    vscode.workspace
+      .getConfiguration('dataconverter')
+      .get<string>('excelFormat', DEFAULT_EXCEL_FLAVOR) === 'ask'
+  );
+}
+
+/**
+ * Where the records of JSON documents are. Returns `auto` when the user
+ * is asked on each conversion, since there is nobody to ask in batch
+ * conversions and previews.
+ */
+export function getJsonRecordPath(): string {
+  const recordPath = vscode.workspace
+    .getConfiguration('dataconverter')
+    .get<string>('jsonRecordPath', AUTO_RECORD_PATH);
+  return recordPath === 'ask' ? AUTO_RECORD_PATH : recordPath;
+}
+
+/**
+ * Whether the convert commands ask which array of a JSON or YAML document
+ * to convert
+ */
+export function askForJsonRecordPath(): boolean {
+  return (
+    vscode.workspace
+      .getConfiguration('dataconverter')
+      .get<string>('jsonRecordPath', AUTO_RECORD_PATH) === 'ask'
+  );
+}
+
+/**
+ * How flattened CSV and Excel columns are read back into nested values, or
+ * `undefined` when they are read as they are
+ */
+export function getUnflattenSettings(): UnflattenOptions | undefined {
+  const config = vscode.workspace.getConfiguration('dataconverter');
+  const headers = config.get('unflattenHeaders', false);
+  const parseJsonCells = config.get('parseJsonCells', false);
+  if (!headers && !parseJsonCells) {
+    return undefined;
+  }
+
+  return {
+    headers,
+    separator: config.get('flattenSeparator', '.'),
+    parseJsonCells,
+  };
+}
+
+/**
+ * The delimiter set for reading delimited files, or `undefined` when it is
+ * sniffed from each file. The user is asked on each conversion with `ask`,
+ * so batch conversions and previews sniff the delimiter then.
+ */
+export function getDialectOverrides(): Partial<CsvDialect> | undefined {
+  const delimiter = vscode.workspace
+    .getConfiguration('dataconverter')
+    .get<string>('inputDelimiter', 'auto');
+  return delimiter === 'auto' || delimiter === 'ask' || !delimiter
+    ? undefined
+    : { delimiter: parseDelimiter(delimiter) };
+}
+
+/**
+ * Whether the convert commands ask which delimiter delimited files use
+ */
+export function askForDelimiter(): boolean {
+  return (
+    vscode.workspace
+      .getConfiguration('dataconverter')
+      .get<string>('inputDelimiter', 'auto') === 'ask'
+  );
+}
+
+/**
+ * Whether conversions should run on worker threads
+ */
+export function useWorkerThreads(): boolean {
+  return vscode.workspace
+    .getConfiguration('dataconverter')
+    .get('useWebWorkers', true);
+}
@@ -0,0 +1,829 @@
+import * as fs from 'fs';
+import { Transform, TransformCallback, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StringDecoder } from 'string_decoder';
+import { parse as csvParseStream } from 'csv-parse';
+import { stringify as csvStringifyStream } from 'csv-stringify';
+import { DataRecord } from './dataset';
+import { AUTO_RECORD_PATH, isRootRecordPath } from './recordPath';
+import {
+  FlattenOptions,
+  flattenRecord,
+  UnflattenOptions,
+  unflattenRecord,
+} from './flatten';
+import { CsvDialect, sniffFileDialect } from './dialect';
+import { convertValue, isTextNumber } from './columnTypes';
+import { CSV_CAST, inferFileColumnTypes } from './formats/csv';
+import {
+  DEFAULT_LARGE_INTEGERS,
+  describeTextNumbers,
+  LargeIntegers,
+  parseExactJson,
+  stringifyJson,
+} from './precision';
+import { createDateNormalizer, DateOptions } from './dates';
+
+/**
+ * Options for a streaming conversion
+ */
+export interface StreamOptions {
+  preserveTypes?: boolean;
+  /** Read integers beyond ±2^53 as text or as `BigInt`s */
+  largeIntegers?: LargeIntegers;
+  /** Dialect of CSV input; sniffed from the file when omitted */
+  dialect?: CsvDialect;
+  /** Column delimiter of CSV output */
+  delimiter?: string;
+  indentation?: number;
+  /** Expand nested values of JSON records into columns */
+  flatten?: FlattenOptions;
+  /** Record path of JSON input; only the whole document can be streamed */
+  recordPath?: string;
+  /** Rebuild nested values of CSV records from flattened columns */
+  unflatten?: UnflattenOptions;
+  /** Format and time zone that dates are rewritten in */
+  dates?: DateOptions;
+  /** Called as the input file is consumed */
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+  /** Aborts the conversion and removes the partial output */
+  signal?: AbortSignal;
+}
+
+/**
+ * Summary of a streaming conversion
+ */
+export interface StreamResult {
+  rows: number;
+  bytesRead: number;
+  warnings: string[];
+}
+
+export type StreamingConverter = (
+  inputPath: string,
+  outputPath: string,
+  options: StreamOptions
+) => Promise<StreamResult>;
+
+/**
+ * Splits a JSON array into its elements without loading the whole document.
+ * Emits one parsed value per top-level array element. Numbers that would
+ * lose digits are kept as text and counted in {@link textNumbers}.
+ */
+export class JsonArrayParser extends Transform {
+  public textNumbers = 0;
+  private readonly _decoder = new StringDecoder('utf8');
+  private _started = false;
+  private _done = false;
+  private _depth = 0;
+  private _inString = false;
+  private _escaped = false;
+  private _collecting = false;
+  private _item = '';
+
+  constructor(
+    private readonly _largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS
+  ) {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    try {
+      this._consume(this._decoder.write(chunk));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback) {
+    try {
+      this._consume(this._decoder.end());
+      callback(
+        this._done ? undefined : new Error('Unexpected end of JSON input')
+      );
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private _consume(text: string): void {
+    let start = this._collecting ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this._inString) {
+        if (this._escaped) {
+          this._escaped = false;
+        } else if (ch === '\\') {
+          this._escaped = true;
+        } else if (ch === '"') {
+          this._inString = false;
+        }
+        continue;
+      }
+
+      if (/\s/.test(ch)) {
+        continue;
+      }
+
+      if (!this._started) {
+        if (ch !== '[') {
+          throw new Error('Expected a JSON array at the top level');
+        }
+        this._started = true;
+        this._depth = 1;
+        continue;
+      }
+
+      if (this._done) {
+        throw new Error('Unexpected data after the JSON array');
+      }
+
+      if (ch === ',' && this._depth === 1) {
+        if (!this._collecting) {
+          throw new Error('Unexpected comma in JSON array');
+        }
+        this._emit(this._item + text.slice(start, i));
+        start = -1;
+        continue;
+      }
+
+      if (ch === ']' && this._depth === 1) {
+        if (this._collecting) {
+          this._emit(this._item + text.slice(start, i));
+          start = -1;
+        }
+        this._depth = 0;
+        this._done = true;
+        continue;
+      }
+
+      if (!this._collecting) {
+        this._collecting = true;
+        start = i;
+      }
+
+      if (ch === '"') {
+        this._inString = true;
+      } else if (ch === '{' || ch === '[') {
+        this._depth++;
+      } else if (ch === '}' || ch === ']') {
+        this._depth--;
+      }
+    }
+
+    if (this._collecting) {
+      this._item += text.slice(start);
+    }
+  }
+
+  private _emit(text: string): void {
+    this._collecting = false;
+    this._item = '';
+    this.push(
+      parseExactJson(text, this._largeIntegers, () => this.textNumbers++)
+    );
+  }
+}
+
+/**
+ * A line of newline-delimited JSON that could not be read as a record
+ */
+export interface BadLine {
+  /** 1-based line number */
+  line: number;
+  message: string;
+}
+
+/** Bad lines listed individually in warnings; the rest are counted */
+const MAX_REPORTED_BAD_LINES = 10;
+
+/**
+ * Describe the skipped lines of a newline-delimited JSON file as warnings
+ * @param badLines The lines that could not be read
+ */
+export function describeBadLines(badLines: BadLine[]): string[] {
+  const warnings = badLines
+    .slice(0, MAX_REPORTED_BAD_LINES)
+    .map(({ line, message }) => `Skipped line ${line}: ${message}`);
+  if (badLines.length > MAX_REPORTED_BAD_LINES) {
+    warnings.push(
+      `Skipped ${badLines.length - MAX_REPORTED_BAD_LINES} more invalid lines`
+    );
+  }
+  return warnings;
+}
+
+/**
+ * Splits newline-delimited JSON (NDJSON, JSON Lines) into records, one
+ * line at a time. Blank lines are ignored, and lines that are not a JSON
+ * object are collected in {@link badLines} instead of failing the stream.
+ * Numbers that would lose digits are kept as text and counted in
+ * {@link textNumbers}.
+ */
+export class NdjsonParser extends Transform {
+  public readonly badLines: BadLine[] = [];
+  public textNumbers = 0;
+  private readonly _decoder = new StringDecoder('utf8');
+  private _pending = '';
+  private _line = 0;
+
+  constructor(
+    private readonly _largeIntegers: LargeIntegers = DEFAULT_LARGE_INTEGERS
+  ) {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(
+    chunk: Buffer | string,
+    _encoding: string,
+    callback: TransformCallback
+  ) {
+    const text =
+      this._pending +
+      (typeof chunk === 'string' ? chunk : this._decoder.write(chunk));
+    const lines = text.split('\n');
+    this._pending = lines.pop() ?? '';
+    lines.forEach(line => this._parseLine(line));
+    callback();
+  }
+
+  _flush(callback: TransformCallback) {
+    this._parseLine(this._pending + this._decoder.end());
+    this._pending = '';
+    callback();
+  }
+
+  private _parseLine(line: string): void {
+    this._line++;
+    const text = (this._line === 1 ? line.replace(/^\uFEFF/, '') : line).trim();
+    if (!text) {
+      return;
+    }
+
+    let value: unknown;
+    try {
+      value = parseExactJson(
+        text,
+        this._largeIntegers,
+        () => this.textNumbers++
+      );
+    } catch (error) {
+      this.badLines.push({
+        line: this._line,
+        message: (error as Error).message,
+      });
+      return;
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.badLines.push({
+        line: this._line,
+        message: 'Expected a JSON object',
+      });
+      return;
+    }
+    this.push(value);
+  }
+}
+
+/**
+ * Counts the bytes flowing through it and reports them
+ */
+class ProgressCounter extends Transform {
+  private _bytesRead = 0;
+
+  constructor(
+    private readonly _totalBytes: number,
+    private readonly _onProgress?: StreamOptions['onProgress']
+  ) {
+    super();
+  }
+
+  get bytesRead(): number {
+    return this._bytesRead;
+  }
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this._bytesRead += chunk.length;
+    this._onProgress?.(this._bytesRead, this._totalBytes);
+    callback(null, chunk);
+  }
+}
+
+/**
+ * Creates a transform from a per-record mapping function. Returning
+ * `undefined` drops the record.
+ */
+function mapRecords(
+  map: (record: DataRecord, index: number) => string | DataRecord | undefined,
+  flush?: (rows: number) => string
+): Transform {
+  let index = 0;
+  return new Transform({
+    objectMode: true,
+    transform(record: DataRecord, _encoding, callback) {
+      try {
+        const mapped = map(record, index++);
+        callback(null, mapped);
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      callback(null, flush?.(index));
+    },
+  });
+}
+
+/**
+ * Open the input and output of a streaming conversion and run the given
+ * transforms between them, removing the output again on failure
+ */
+async function runPipeline(
+  inputPath: string,
+  outputPath: string,
+  options: StreamOptions,
+  transforms: Transform[]
+): Promise<number> {
+  const totalBytes = fs.statSync(inputPath).size;
+  const counter = new ProgressCounter(totalBytes, options.onProgress);
+
+  try {
+    await pipeline(
+      [
+        fs.createReadStream(inputPath),
+        counter,
+        ...transforms,
+        fs.createWriteStream(outputPath),
+      ],
+      { signal: options.signal }
+    );
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+
+  return counter.bytesRead;
+}
+
+/**
+ * Numbers of a streamed CSV file kept as text because they would lose
+ * digits, and their columns
+ */
+interface TextNumbers {
+  count: number;
+  columns: Set<string>;
+}
+
+function createCsvParser(
+  inputPath: string,
+  options: StreamOptions,
+  textNumbers: TextNumbers
+): Transform {
+  const dialect = options.dialect ?? sniffFileDialect(inputPath);
+  // Values are typed by the column types inferred from the start of the
+  // file, since the rest has not been read yet
+  const types =
+    options.preserveTypes === false
+      ? {}
+      : inferFileColumnTypes(inputPath, dialect);
+  return csvParseStream({
+    columns: true,
+    delimiter: dialect.delimiter,
+    quote: dialect.quote,
+    escape: dialect.escape,
+    skip_empty_lines: true,
+    bom: true,
+    cast:
+      options.preserveTypes === false
+        ? false
+        : (value, context) => {
+            if (context.header) {
+              return value;
+            }
+            const type = types[context.column] ?? 'string';
+            if (isTextNumber(value, type, options.largeIntegers)) {
+              textNumbers.count++;
+              textNumbers.columns.add(String(context.column));
+            }
+            return convertValue(value, type, options.largeIntegers);
+          },
+  });
+}
+
+/**
+ * Describe the numbers of a streamed CSV file kept as text as warnings
+ */
+const describeCsvTextNumbers = ({ count, columns }: TextNumbers): string[] =>
+  count > 0 ? [describeTextNumbers(count, [...columns])] : [];
+
+/**
+ * Describe the numbers of a streamed JSON file kept as text as warnings
+ */
+const describeJsonTextNumbers = (count: number): string[] =>
+  count > 0 ? [describeTextNumbers(count)] : [];
+
+/**
+ * Rebuild nested values of a parsed CSV record, if enabled
+ */
+function unflattenCsvRecord(
+  record: DataRecord,
+  options: StreamOptions
+): DataRecord {
+  return options.unflatten
+    ? unflattenRecord(record, options.unflatten)
+    : record;
+}
+
+/**
+ * Indent every line after the first, so streamed records line up the way
+ * `JSON.stringify(array, null, indentation)` would format them
+ */
+function indentJson(json: string, indentation: number): string {
+  return json.replace(/\n/g, '\n' + ' '.repeat(indentation));
+}
+
+/**
+ * Creates a transform that writes records as the elements of a JSON array
+ */
+function writeJsonArray(
+  options: StreamOptions,
+  prepare: (record: DataRecord) => DataRecord = record => record
+): Transform {
+  const indentation = options.indentation ?? 2;
+  const separator = indentation > 0 ? '\n' : '';
+  const padding = ' '.repeat(indentation);
+
+  return mapRecords(
+    (record, index) => {
+      const json = indentJson(
+        stringifyJson(prepare(record), indentation),
+        indentation
+      );
+      return `${index === 0 ? '[' : ','}${separator}${padding}${json}`;
+    },
+    count => (count === 0 ? '[]' : `${separator}]`)
+  );
+}
+
+/**
+ * Creates a transform that writes each record as one line of JSON
+ */
+function writeJsonLines(
+  prepare: (record: DataRecord) => DataRecord = record => record
+): Transform {
+  return mapRecords(record => stringifyJson(prepare(record)) + '\n');
+}
+
+/**
+ * Creates a transform that rewrites the dates of records in the format and
+ * time zone of the options, when one is set
+ */
+function rewriteDates(options: StreamOptions): Transform {
+  const normalize = createDateNormalizer(options.dates);
+  return mapRecords(record =>
+    normalize ? (normalize(record) as DataRecord) : record
+  );
+}
+
+/**
+ * Creates a transform that counts the records passing through it
+ */
+function countRecords(counter: { rows: number }): Transform {
+  return mapRecords(record => {
+    counter.rows++;
+    return record;
+  });
+}
+
+/**
+ * Stream a CSV file into a JSON array file
+ */
+export const streamCsvToJson: StreamingConverter = async (
+  inputPath,
+  outputPath,
+  options
+) => {
+  const counter = { rows: 0 };
+  const textNumbers: TextNumbers = { count: 0, columns: new Set() };
+
+  const bytesRead = await runPipeline(inputPath, outputPath, options, [
+    createCsvParser(inputPath, options, textNumbers),
+    countRecords(counter),
+    rewriteDates(options),
+    writeJsonArray(options, record => unflattenCsvRecord(record, options)),
+  ]);
+
+  return {
+    rows: counter.rows,
+    bytesRead,
+    warnings: describeCsvTextNumbers(textNumbers),
+  };
+};
+
+/**
+ * Stream a CSV file into a newline-delimited JSON file
+ */
+export const streamCsvToNdjson: StreamingConverter = async (
+  inputPath,
+  outputPath,
+  options
+) => {
+  const counter = { rows: 0 };
+  const textNumbers: TextNumbers = { count: 0, columns: new Set() };
+
+  const bytesRead = await runPipeline(inputPath, outputPath, options, [
+    createCsvParser(inputPath, options, textNumbers),
+    countRecords(counter),
+    rewriteDates(options),
+    writeJsonLines(record => unflattenCsvRecord(record, options)),
+  ]);
+
+  return {
+    rows: counter.rows,
+    bytesRead,
+    warnings: describeCsvTextNumbers(textNumbers),
+  };
+};
+
+/**
+ * Stream a newline-delimited JSON file into a JSON array file. Lines that
+ * are not JSON objects are skipped and reported as warnings.
+ */
+export const streamNdjsonToJson: StreamingConverter = async (
+  inputPath,
+  outputPath,
+  options
+) => {
+  const parser = new NdjsonParser(options.largeIntegers);
+  const counter = { rows: 0 };
+
+  const bytesRead = await runPipeline(inputPath, outputPath, options, [
+    parser,
+    countRecords(counter),
+    rewriteDates(options),
+    writeJsonArray(options),
+  ]);
+
+  return {
+    rows: counter.rows,
+    bytesRead,
+    warnings: [
+      ...describeBadLines(parser.badLines),
+      ...describeJsonTextNumbers(parser.textNumbers),
+    ],
+  };
+};
+
+/**
+ * Stream a JSON array file into a newline-delimited JSON file
+ */
+export const streamJsonArrayToNdjson: StreamingConverter = async (
+  inputPath,
+  outputPath,
+  options
+) => {
+  const parser = new JsonArrayParser(options.largeIntegers);
+  const counter = { rows: 0 };
+
+  const bytesRead = await runPipeline(inputPath, outputPath, options, [
+    parser,
+    countRecords(counter),
+    rewriteDates(options),
+    writeJsonLines(),
+  ]);
+
+  return {
+    rows: counter.rows,
+    bytesRead,
+    warnings: describeJsonTextNumbers(parser.textNumbers),
+  };
+};
+
+/**
+ * Read the input of a streaming conversion through the given transforms
+ * without writing any output, e.g. to look ahead at its records
+ */
+async function scanPipeline(
+  inputPath: string,
+  options: StreamOptions,
+  transforms: Transform[]
+): Promise<void> {
+  const totalBytes = fs.statSync(inputPath).size;
+  await pipeline(
+    [
+      fs.createReadStream(inputPath),
+      new ProgressCounter(totalBytes, options.onProgress),
+      ...transforms,
+      new Writable({
+        objectMode: true,
+        write: (_record, _encoding, callback) => callback(),
+      }),
+    ],
+    { signal: options.signal }
+  );
+}
+
+/**
+ * Stream records parsed by transforms of the given factory into a CSV file.
+ * The file is read twice: once to collect the columns of every record, in
+ * the order they first appear, and once to write the records.
+ * @returns The result, and the parser of the records that were written
+ */
+async function streamRecordsToCsv<P extends Transform>(
+  createParser: () => P,
+  inputPath: string,
+  outputPath: string,
+  options: StreamOptions
+): Promise<StreamResult & { parser: P }> {
+  // Each pass reports half of the progress
+  const onProgress = options.onProgress;
+  const halfProgress =
+    (offset: number) => (bytesRead: number, totalBytes: number) =>
+      onProgress?.(offset * totalBytes + bytesRead, 2 * totalBytes);
+
+  const columns = new Set<string>();
+  let index = 0;
+  await scanPipeline(inputPath, { ...options, onProgress: halfProgress(0) }, [
+    createParser(),
+    mapRecords(record => {
+      if (typeof record !== 'object' || record === null) {
+        throw new Error(`Expected an object at index ${index}`);
+      }
+      index++;
+      const flat = options.flatten
+        ? flattenRecord(record, options.flatten)
+        : record;
+      Object.keys(flat).forEach(key => columns.add(key));
+      return record;
+    }),
+  ]);
+
+  const parser = createParser();
+  let rows = 0;
+  const normalizeDates = createDateNormalizer(options.dates);
+  const stringifier = csvStringifyStream({
+    header: true,
+    delimiter: options.delimiter ?? ',',
+    cast: CSV_CAST,
+  });
+
+  const bytesRead = await runPipeline(
+    inputPath,
+    outputPath,
+    { ...options, onProgress: halfProgress(1) },
+    [
+      parser,
+      mapRecords(record => {
+        if (normalizeDates) {
+          record = normalizeDates(record) as DataRecord;
+        }
+        if (options.flatten) {
+          record = flattenRecord(record, options.flatten);
+        }
+
+        rows++;
+        const row: DataRecord = {};
+        columns.forEach(column => {
+          const value = record[column];
+          row[column] =
+            typeof value === 'object' && value !== null
+              ? stringifyJson(value)
+              : value;
+        });
+        return row;
+      }),
+      stringifier,
+    ]
+  );
+
+  return { rows, bytesRead, warnings: [], parser };
+}
+
+/**
+ * Stream a JSON array file into a CSV file, with a column for every key of
+ * the records
+ */
+export const streamJsonArrayToCsv: StreamingConverter = async (
+  inputPath,
+  outputPath,
+  options
+) => {
+  const { parser, ...result } = await streamRecordsToCsv(
+    () => new JsonArrayParser(options.largeIntegers),
+    inputPath,
+    outputPath,
+    options
+  );
+  return {
+    ...result,
+    warnings: describeJsonTextNumbers(parser.textNumbers),
+  };
+};
+
+/**
+ * Stream a newline-delimited JSON file into a CSV file, with a column for
+ * every key of the records. Lines that are not JSON objects are skipped and
+ * reported as warnings.
+ */
+export const streamNdjsonToCsv: StreamingConverter = async (
+  inputPath,
+  outputPath,
+  options
+) => {
+  const { parser, ...result } = await streamRecordsToCsv(
+    () => new NdjsonParser(options.largeIntegers),
+    inputPath,
+    outputPath,
+    options
+  );
+  return {
+    ...result,
+    warnings: [
+      ...describeBadLines(parser.badLines),
+      ...describeJsonTextNumbers(parser.textNumbers),
+    ],
+  };
+};
+
+const streamingConverters: Record<string, StreamingConverter> = {
+  'csv>json': streamCsvToJson,
+  'csv>ndjson': streamCsvToNdjson,
+  'json>csv': streamJsonArrayToCsv,
+  'json>ndjson': streamJsonArrayToNdjson,
+  'ndjson>csv': streamNdjsonToCsv,
+  'ndjson>json': streamNdjsonToJson,
+};
+
+/**
+ * Whether the first value in a JSON file is an array, skipping any byte
+ * order mark and whitespace
+ */
+function startsWithJsonArray(filePath: string): boolean {
+  const buffer = Buffer.alloc(1024);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    const text = buffer.toString('utf8', 0, bytesRead).replace(/^\uFEFF/, '');
+    return text.trimStart().startsWith('[');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Whether the records of a JSON file are the array at its root, the only
+ * JSON documents that can be streamed
+ */
+const streamsJsonArray = (inputPath: string, options: StreamOptions) =>
+  (isRootRecordPath(options.recordPath) ||
+    options.recordPath === AUTO_RECORD_PATH) &&
+  startsWithJsonArray(inputPath);
+
+// Inputs that a streaming converter can't handle fall back to the
+// in-memory conversion
+const streamingPreconditions: Record<
+  string,
+  (inputPath: string, options: StreamOptions) => boolean
+> = {
+  'json>csv': (inputPath, options) => streamsJsonArray(inputPath, options),
+  'json>ndjson': (inputPath, options) => streamsJsonArray(inputPath, options),
+};
+
+/**
+ * Get the streaming converter between two formats, if there is one
+ * @param sourceId The source format id
+ * @param targetId The target format id
+ * @param inputPath The file to convert, to check that it can be streamed
+ * @param options The options the conversion will use
+ */
+export function getStreamingConverter(
+  sourceId: string,
+  targetId: string,
+  inputPath?: string,
+  options: StreamOptions = {}
+): StreamingConverter | undefined {
+  const key = `${sourceId}>${targetId}`;
+  const precondition = streamingPreconditions[key];
+  if (inputPath && precondition && !precondition(inputPath, options)) {
+    return undefined;
+  }
+  return streamingConverters[key];
+}
+
+/**
+ * Format a byte count for progress messages
+ * @param bytes The number of bytes
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
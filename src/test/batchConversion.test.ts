@@ -4,6 +4,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { tmpdir } from 'os';
 import { BatchConversionProvider } from '../batchConversion';
+import { formatRegistry } from '../formats';
+import { escapeHtml } from '../formats/table';
 
 // Define file info interface for type checking
 interface FileInfo {
@@ -118,48 +120,37 @@ suite('DataMorph Batch Conversion Tests', () => {
     );
   });
 
-  test('Get conversion command ID', () => {
+  test('Resolve conversions through the format registry', () => {
     // Test private method through a wrapper
     // We need to use any type to access private method for testing
-    const csvToJson = (provider as any).getConversionCommandId('csv', 'json');
-    const jsonToExcel = (provider as any).getConversionCommandId(
-      'json',
-      'excel'
-    );
-    const excelToCsv = (provider as any).getConversionCommandId('excel', 'csv');
-    const unknownConversion = (provider as any).getConversionCommandId(
-      'unknown',
-      'json'
-    );
+    const excelExt = (provider as any).getFileExtension('excel');
+    const unknownExt = (provider as any).getFileExtension('unknown');
 
+    assert.strictEqual(excelExt, '.xlsx', 'Should use the first extension');
     assert.strictEqual(
-      csvToJson,
-      'datamorph.convertToJSON',
-      'Should return correct command for CSV to JSON'
+      unknownExt,
+      '.txt',
+      'Should fall back to .txt for unknown formats'
     );
     assert.strictEqual(
-      jsonToExcel,
-      'datamorph.convertToExcel',
-      'Should return correct command for JSON to Excel'
+      formatRegistry.canConvert('csv', 'json'),
+      true,
+      'Should support CSV to JSON'
     );
     assert.strictEqual(
-      excelToCsv,
-      'datamorph.convertToCSV',
-      'Should return correct command for Excel to CSV'
+      formatRegistry.canConvert('excel', 'excel'),
+      false,
+      'Should not convert a format to itself'
     );
     assert.strictEqual(
-      unknownConversion,
-      undefined,
-      'Should return undefined for unknown source format'
+      formatRegistry.canConvert('unknown', 'json'),
+      false,
+      'Should not support unknown source formats'
     );
   });
 
   test('Escape HTML', () => {
-    // Test private method through a wrapper
-    // We need to use any type to access private method for testing
-    const escaped = (provider as any).escapeHtml(
-      '<script>"Hello & World"\'test\'</script>'
-    );
+    const escaped = escapeHtml('<script>"Hello & World"\'test\'</script>');
 
     assert.strictEqual(
       escaped.includes('<script>'),
@@ -0,0 +1,169 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { parseCsv } from '../formats/csv';
+import { convertFile, readFileDataset } from '../conversion';
+import { streamCsvToJson, streamJsonArrayToCsv } from '../streaming';
+import { formatRegistry } from '../formats';
+import {
+  getColumnTypesPath,
+  inferType,
+  scoreColumn,
+  writeColumnTypes,
+} from '../columnTypes';
+
+suite('DataMorph Column Type Tests', () => {
+  const csv = [
+    'zip,id,account,price,active,joined,note',
+    '01234,1,9007199254740993,9.5,true,2024-01-15,',
+    '94105,2,12,10,FALSE,2024-02-01T10:30:00Z,x',
+  ].join('\n');
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-column-type-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Infer the most specific type all values match', () => {
+    assert.strictEqual(inferType(['1', '-20', '']), 'integer');
+    assert.strictEqual(inferType(['1', '90071992547409930']), 'bigint');
+    assert.strictEqual(inferType(['1', '2.5', '1e3', '.5']), 'decimal');
+    assert.strictEqual(inferType(['true', 'False']), 'boolean');
+    assert.strictEqual(inferType(['2024-01-15', '2024-01-15 10:30']), 'date');
+    assert.strictEqual(
+      inferType(['01234', '94105']),
+      'string',
+      'Leading zeros are kept'
+    );
+    assert.strictEqual(inferType(['2024-13-45']), 'string');
+    assert.strictEqual(inferType(['', '']), 'string');
+
+    const scores = scoreColumn(['1', '2', 'n/a', '']);
+    assert.strictEqual(scores.integer, 2 / 3);
+    assert.strictEqual(scores.string, 1);
+  });
+
+  test('Read CSV values as the type of their column', async () => {
+    const dataset = await parseCsv(csv);
+
+    assert.deepStrictEqual(dataset.rows, [
+      {
+        zip: '01234',
+        id: 1,
+        account: '9007199254740993',
+        price: 9.5,
+        active: true,
+        joined: '2024-01-15',
+        note: null,
+      },
+      {
+        zip: '94105',
+        id: 2,
+        account: '12',
+        price: 10,
+        active: false,
+        joined: '2024-02-01T10:30:00Z',
+        note: 'x',
+      },
+    ]);
+    assert.deepStrictEqual(
+      (await parseCsv(csv, false)).rows[0].id,
+      '1',
+      'Values are text without type preservation'
+    );
+  });
+
+  test('Honour column types pinned for a file', async () => {
+    const csvPath = path.join(tempDir, 'accounts.csv');
+    fs.writeFileSync(csvPath, csv);
+    writeColumnTypes(csvPath, { id: 'string', price: 'integer' });
+
+    const dataset = await readFileDataset(
+      csvPath,
+      { preserveTypes: true },
+      false
+    );
+    assert.deepStrictEqual(
+      dataset.rows.map(row => [row.id, row.price]),
+      [
+        ['1', '9.5'],
+        ['2', 10],
+      ],
+      'Values that do not match a pinned type are kept as text'
+    );
+    assert.strictEqual(
+      formatRegistry.get('json')?.isData?.(getColumnTypesPath(csvPath)),
+      false,
+      'Column type files are not converted as JSON data'
+    );
+
+    writeColumnTypes(csvPath, {});
+    assert.strictEqual(fs.existsSync(getColumnTypesPath(csvPath)), false);
+  });
+
+  test('Type streamed CSV values by the start of the file', async () => {
+    const csvPath = path.join(tempDir, 'streamed.csv');
+    const jsonPath = path.join(tempDir, 'streamed.json');
+    fs.writeFileSync(csvPath, csv);
+    writeColumnTypes(csvPath, { active: 'string' });
+
+    await streamCsvToJson(csvPath, jsonPath, { indentation: 0 });
+
+    const records = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+    assert.deepStrictEqual(records[0], {
+      zip: '01234',
+      id: 1,
+      account: '9007199254740993',
+      price: 9.5,
+      active: 'true',
+      joined: '2024-01-15',
+      note: null,
+    });
+  });
+
+  test('Keep boolean columns through delimited round trips', async () => {
+    const csvPath = path.join(tempDir, 'flags.csv');
+    const tsvPath = path.join(tempDir, 'flags.tsv');
+    const psvPath = path.join(tempDir, 'flags.psv');
+    fs.writeFileSync(csvPath, 'id,active\n1,true\n2,false\n');
+
+    await convertFile(csvPath, 'tsv', tsvPath, { read: {}, write: {} });
+    assert.strictEqual(
+      fs.readFileSync(tsvPath, 'utf8'),
+      'id\tactive\n1\ttrue\n2\tfalse\n'
+    );
+    await convertFile(tsvPath, 'psv', psvPath, { read: {}, write: {} });
+    assert.deepStrictEqual(
+      (await parseCsv(fs.readFileSync(psvPath, 'utf8'))).rows,
+      [
+        { id: 1, active: true },
+        { id: 2, active: false },
+      ]
+    );
+
+    const jsonPath = path.join(tempDir, 'flags.json');
+    fs.writeFileSync(
+      jsonPath,
+      '[{"id":1,"active":true},{"id":2,"active":false}]'
+    );
+    await streamJsonArrayToCsv(jsonPath, csvPath, {});
+    assert.strictEqual(
+      fs.readFileSync(csvPath, 'utf8'),
+      'id,active\n1,true\n2,false\n'
+    );
+  });
+});
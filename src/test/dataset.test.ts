@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import {
+  createDataset,
+  getColumnNames,
+  inferColumnType,
+  withRows,
+} from '../dataset';
+import { parseCsv, serializeCsv } from '../formats/csv';
+import { parseJson } from '../formats/json';
+import { readSheet, writeSingleSheet } from '../formats/excel';
+
+suite('DataMorph Dataset Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-dataset-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Collect columns and infer their types', () => {
+    const dataset = createDataset([
+      { id: 1, name: 'Ada', tags: ['math'] },
+      { id: 2, name: null, active: true, note: 'x' },
+      { id: 3, active: false, note: 4 },
+    ]);
+
+    assert.deepStrictEqual(getColumnNames(dataset), [
+      'id',
+      'name',
+      'tags',
+      'active',
+      'note',
+    ]);
+    assert.deepStrictEqual(
+      dataset.columns.map(column => column.type),
+      ['number', 'string', 'object', 'boolean', 'mixed']
+    );
+    assert.strictEqual(inferColumnType([null, '', undefined]), 'empty');
+  });
+
+  test('Keep column order when rows change', () => {
+    const dataset = createDataset([{ b: 1, a: 2 }]);
+    const updated = withRows(dataset, [{ a: 3, c: 'new', b: 4 }]);
+
+    assert.deepStrictEqual(getColumnNames(updated), ['b', 'a', 'c']);
+  });
+
+  test('Readers and writers exchange datasets', async () => {
+    const fromCsv = await parseCsv('id,name\n1,Ada\n2,Grace\n');
+    const fromJson = parseJson(
+      '[{"id":1,"name":"Ada"},{"id":2,"name":"Grace"}]'
+    );
+
+    assert.deepStrictEqual(fromCsv, fromJson, 'CSV and JSON should agree');
+    assert.strictEqual(serializeCsv(fromJson), 'id,name\n1,Ada\n2,Grace\n');
+
+    const excelPath = path.join(tempDir, 'roundtrip.xlsx');
+    writeSingleSheet(fromCsv, excelPath);
+    assert.deepStrictEqual(readSheet(excelPath), fromCsv);
+  });
+});
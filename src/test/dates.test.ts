@@ -0,0 +1,193 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import * as XLSX from 'xlsx';
+import { convertFile } from '../conversion';
+import { readSheet } from '../formats/excel';
+import { streamCsvToJson } from '../streaming';
+import { writeColumnTypes } from '../columnTypes';
+import {
+  createDateNormalizer,
+  formatDate,
+  parseIsoDate,
+  toTimeZone,
+} from '../dates';
+
+suite('DataMorph Dates Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-dates-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Format dates and convert them between time zones', () => {
+    assert.strictEqual(parseIsoDate('2024-02-30'), undefined);
+    assert.strictEqual(parseIsoDate('2024-01-15T25:00'), undefined);
+    assert.strictEqual(parseIsoDate('15.01.2024'), undefined);
+
+    const parts = parseIsoDate('2024-07-15T10:30:00.5+02:00')!;
+    assert.strictEqual(formatDate(parts), '2024-07-15T10:30:00.5+02:00');
+    assert.strictEqual(
+      formatDate(toTimeZone(parts, 'UTC')),
+      '2024-07-15T08:30:00.5Z'
+    );
+    assert.strictEqual(
+      formatDate(toTimeZone(parts, 'America/New_York'), 'dd.MM.yyyy HH:mm XXX'),
+      '15.07.2024 04:30 -04:00'
+    );
+
+    // Times without an offset are taken to be in the zone, with its
+    // daylight saving time
+    const normalize = createDateNormalizer({ timeZone: 'Europe/Berlin' })!;
+    assert.deepStrictEqual(
+      normalize({
+        winter: '2024-01-15 10:30',
+        summer: '2024-07-15T10:30:00',
+        day: '2024-07-15',
+        text: 'soon',
+      }),
+      {
+        winter: '2024-01-15T10:30:00+01:00',
+        summer: '2024-07-15T10:30:00+02:00',
+        day: '2024-07-15',
+        text: 'soon',
+      }
+    );
+    assert.strictEqual(createDateNormalizer({}), undefined);
+    assert.throws(
+      () => createDateNormalizer({ timeZone: 'Mars/Olympus' }),
+      /Unknown time zone "Mars\/Olympus"/
+    );
+  });
+
+  test('Write dates as Excel date cells and read them back as ISO 8601', async () => {
+    const jsonPath = path.join(tempDir, 'events.json');
+    const excelPath = path.join(tempDir, 'events.xlsx');
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify([
+        { name: 'launch', day: '2024-01-15', at: '2024-01-15T10:30:00Z' },
+        { name: 'leap', day: '1900-02-28', at: '1900-03-01 06:00' },
+      ])
+    );
+
+    await convertFile(jsonPath, 'excel', excelPath, {
+      read: {},
+      write: { dates: { timeZone: 'Europe/Berlin' } },
+    });
+    const worksheet = XLSX.readFile(excelPath, { cellNF: true }).Sheets.Sheet1;
+    assert.strictEqual(worksheet.B2.t, 'n');
+    assert.strictEqual(worksheet.B2.v, 45306);
+    assert.strictEqual(worksheet.B2.z, 'yyyy-mm-dd');
+    assert.strictEqual(worksheet.C2.z, 'yyyy-mm-dd hh:mm:ss');
+    assert.strictEqual(worksheet.B3.v, 59);
+
+    assert.deepStrictEqual(readSheet(excelPath).rows, [
+      { name: 'launch', day: '2024-01-15', at: '2024-01-15T11:30:00' },
+      { name: 'leap', day: '1900-02-28', at: '1900-03-01T06:00:00' },
+    ]);
+
+    const odsPath = path.join(tempDir, 'events.ods');
+    await convertFile(jsonPath, 'excel', odsPath, {
+      read: {},
+      write: { dates: { format: 'dd.MM.yyyy' } },
+    });
+    assert.deepStrictEqual(readSheet(odsPath).rows[0], {
+      name: 'launch',
+      day: '15.01.2024',
+      at: '15.01.2024',
+    });
+  });
+
+  test('Write date cells only for date columns', async () => {
+    const jsonPath = path.join(tempDir, 'notes.json');
+    const csvPath = path.join(tempDir, 'notes.csv');
+    const excelPath = path.join(tempDir, 'notes.xlsx');
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify([
+        { day: '2024-01-15', note: '2024-01-15' },
+        { day: '2024-02-01', note: 'soon' },
+      ])
+    );
+    fs.writeFileSync(csvPath, 'day,note\n2024-01-15,2024-01-15\n');
+
+    await convertFile(jsonPath, 'excel', excelPath, { read: {}, write: {} });
+    let worksheet = XLSX.readFile(excelPath).Sheets.Sheet1;
+    assert.strictEqual(worksheet.A2.t, 'n');
+    assert.strictEqual(worksheet.B2.t, 's', 'A column of text stays text');
+
+    writeColumnTypes(csvPath, { note: 'string' });
+    await convertFile(csvPath, 'excel', excelPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+    worksheet = XLSX.readFile(excelPath).Sheets.Sheet1;
+    assert.strictEqual(worksheet.A2.t, 'n');
+    assert.strictEqual(worksheet.B2.t, 's', 'Pinned text stays text');
+
+    await convertFile(csvPath, 'excel', excelPath, {
+      read: { preserveTypes: false },
+      write: {},
+    });
+    worksheet = XLSX.readFile(excelPath).Sheets.Sheet1;
+    assert.strictEqual(worksheet.A2.t, 's');
+  });
+
+  test('Read date cells of workbooks in the 1904 date system', () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      ['day', 'at', 'count'],
+      [
+        { t: 'n', v: 43845, z: 'yyyy-mm-dd' },
+        { t: 'n', v: 43845.4375, z: 'm/d/yy' },
+        5,
+      ],
+    ]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
+    workbook.Workbook = { WBProps: { date1904: true } };
+    const excelPath = path.join(tempDir, 'mac.xlsx');
+    XLSX.writeFile(workbook, excelPath);
+
+    assert.deepStrictEqual(readSheet(excelPath).rows, [
+      { day: '2024-01-16', at: '2024-01-16T10:30:00', count: 5 },
+    ]);
+  });
+
+  test('Rewrite dates of converted and streamed files', async () => {
+    const csvPath = path.join(tempDir, 'orders.csv');
+    const jsonPath = path.join(tempDir, 'orders.json');
+    fs.writeFileSync(
+      csvPath,
+      'id,ordered\n1,2024-03-31T01:30:00Z\n2,2024-02-29\n3,\n'
+    );
+    const expected = JSON.stringify([
+      { id: 1, ordered: '31/03/2024 03:30' },
+      { id: 2, ordered: '29/02/2024 00:00' },
+      { id: 3, ordered: null },
+    ]);
+    const dates = { format: 'dd/MM/yyyy HH:mm', timeZone: 'Europe/Paris' };
+
+    await convertFile(csvPath, 'json', jsonPath, {
+      read: { preserveTypes: true },
+      write: { indentation: 0, dates },
+    });
+    assert.strictEqual(fs.readFileSync(jsonPath, 'utf8'), expected);
+
+    await streamCsvToJson(csvPath, jsonPath, { indentation: 0, dates });
+    assert.strictEqual(fs.readFileSync(jsonPath, 'utf8'), expected);
+  });
+});
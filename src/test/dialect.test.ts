@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { convertFile } from '../conversion';
+import { describeDialect, resolveDialect, sniffDialect } from '../dialect';
+import { parseCsv } from '../formats/csv';
+
+suite('DataMorph Dialect Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-dialect-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Sniff the delimiter from consistent field counts', () => {
+    assert.strictEqual(sniffDialect('id\tname\n1\tAda\n').delimiter, '\t');
+    assert.strictEqual(
+      sniffDialect('id;price\n1;"1,50"\n2;"2,75"\n').delimiter,
+      ';',
+      'Commas inside quoted fields should not count'
+    );
+    assert.strictEqual(sniffDialect('a|b|c\n1|2|3\n').delimiter, '|');
+    assert.strictEqual(
+      sniffDialect('name\nAda\nGrace\n', '\t').delimiter,
+      '\t',
+      'A single column should use the fallback delimiter'
+    );
+  });
+
+  test('Sniff quotes, escapes and line endings', () => {
+    const dialect = sniffDialect(
+      'id,quote\r\n1,"She said \\"hi\\""\r\n2,"plain"\r\n'
+    );
+    assert.deepStrictEqual(dialect, {
+      delimiter: ',',
+      quote: '"',
+      escape: '\\',
+      lineEnding: '\r\n',
+    });
+    assert.strictEqual(
+      describeDialect(dialect),
+      'Comma delimited, " quotes, \\ escapes, CRLF line endings'
+    );
+
+    const singleQuoted = sniffDialect("id,name\n1,'Doe, Jane'\n2,'Ng'\n");
+    assert.strictEqual(singleQuoted.quote, "'");
+    assert.strictEqual(singleQuoted.escape, "'");
+    assert.strictEqual(
+      sniffDialect('id,text\n1,"a ""b"" c"\n2,""\n').escape,
+      '"'
+    );
+  });
+
+  test('Keep apostrophes in fields of double-quoted CSV', async () => {
+    const text = "name,quote\nA,It's fine\nB,'tis the season\nC,ok\n";
+    assert.strictEqual(sniffDialect(text).quote, '"');
+    assert.deepStrictEqual((await parseCsv(text)).rows, [
+      { name: 'A', quote: "It's fine" },
+      { name: 'B', quote: "'tis the season" },
+      { name: 'C', quote: 'ok' },
+    ]);
+    assert.deepStrictEqual((await parseCsv("id,text\nA,'quoted'\n")).rows, [
+      { id: 'A', text: "'quoted'" },
+    ]);
+  });
+
+  test('Apply dialect overrides', () => {
+    const detected = sniffDialect('a,b\n1,2\n');
+    assert.strictEqual(
+      resolveDialect(detected, { delimiter: ';' }).delimiter,
+      ';'
+    );
+    assert.deepStrictEqual(
+      resolveDialect(detected, { delimiter: '' }),
+      detected
+    );
+  });
+
+  test('Parse single-column CSV', async () => {
+    const dataset = await parseCsv('name\nAda\nGrace\n');
+
+    assert.deepStrictEqual(dataset.rows, [{ name: 'Ada' }, { name: 'Grace' }]);
+  });
+
+  test('Convert TSV and delimited text files', async () => {
+    const tsvPath = path.join(tempDir, 'people.tsv');
+    const txtPath = path.join(tempDir, 'export.txt');
+    fs.writeFileSync(tsvPath, 'id\tname\n1\tDoe, Jane\n');
+    fs.writeFileSync(txtPath, 'id;name\n1;Ada\n');
+
+    for (const inputPath of [tsvPath, txtPath]) {
+      for (const streamThresholdBytes of [undefined, 0]) {
+        const outputPath = inputPath + '.json';
+        await convertFile(inputPath, 'json', outputPath, {
+          read: { preserveTypes: true },
+          write: { indentation: 0 },
+          streamThresholdBytes,
+        });
+        assert.strictEqual(
+          JSON.parse(fs.readFileSync(outputPath, 'utf8'))[0].id,
+          1,
+          `${path.basename(inputPath)} should be read with its own delimiter`
+        );
+      }
+    }
+  });
+
+  test('Override the delimiter of a conversion', async () => {
+    const csvPath = path.join(tempDir, 'ambiguous.csv');
+    const outputPath = path.join(tempDir, 'ambiguous.json');
+    fs.writeFileSync(csvPath, 'a;b,c\n1;2,3\n');
+
+    await convertFile(csvPath, 'json', outputPath, {
+      read: { dialect: { delimiter: ';' } },
+      write: { indentation: 0 },
+    });
+
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(outputPath, 'utf8')), [
+      { a: 1, 'b,c': '2,3' },
+    ]);
+  });
+
+  test('Write CSV with the configured delimiter and TSV with tabs', async () => {
+    const jsonPath = path.join(tempDir, 'data.json');
+    const csvPath = path.join(tempDir, 'data.csv');
+    const tsvPath = path.join(tempDir, 'data.tsv');
+    fs.writeFileSync(jsonPath, JSON.stringify([{ id: 1, name: 'Ada' }]));
+
+    for (const [outputPath, targetId] of [
+      [csvPath, 'csv'],
+      [tsvPath, 'tsv'],
+    ]) {
+      await convertFile(jsonPath, targetId, outputPath, {
+        read: {},
+        write: { delimiter: ';' },
+      });
+    }
+
+    assert.strictEqual(fs.readFileSync(csvPath, 'utf8'), 'id;name\n1;Ada\n');
+    assert.strictEqual(fs.readFileSync(tsvPath, 'utf8'), 'id\tname\n1\tAda\n');
+  });
+});
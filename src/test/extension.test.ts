@@ -94,7 +94,9 @@ suite('DataMorph Extension Tests', () => {
     assert.strictEqual(detectFileType('file.xlsx'), 'excel');
     assert.strictEqual(detectFileType('file.XLSX'), 'excel');
     assert.strictEqual(detectFileType('file.xls'), 'excel');
-    assert.strictEqual(detectFileType('file.txt'), 'unknown');
+    assert.strictEqual(detectFileType('file.ods'), 'excel');
+    assert.strictEqual(detectFileType('file.txt'), 'txt');
+    assert.strictEqual(detectFileType('file.bin'), 'unknown');
   });
 
   test('CSV to JSON conversion', async function () {
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { convertFile } from '../conversion';
+import { formatRegistry } from '../formats';
+import {
+  FixedWidthLayout,
+  parseFixedWidth,
+  suggestLayout,
+  validateLayout,
+  writeLayout,
+} from '../formats/fixedWidth';
+
+suite('DataMorph Fixed-Width Tests', () => {
+  const extract = [
+    'ID   NAME      AMOUNT ACTIVE',
+    '00001Ada        12.50 Y',
+    '00002Grace     -3.00  N',
+    '',
+    '00003Linus',
+  ].join('\n');
+
+  const layout: FixedWidthLayout = {
+    skipLines: 1,
+    columns: [
+      { name: 'id', start: 1, width: 5 },
+      { name: 'name', start: 6, width: 10 },
+      { name: 'amount', start: 16, width: 6, type: 'number' },
+      { name: 'active', start: 23, width: 1, type: 'boolean' },
+    ],
+  };
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-fixed-width-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Read records with the column layout', () => {
+    const dataset = parseFixedWidth(extract, layout);
+
+    assert.deepStrictEqual(dataset.rows, [
+      { id: '00001', name: 'Ada', amount: 12.5, active: true },
+      { id: '00002', name: 'Grace', amount: -3, active: false },
+      { id: '00003', name: 'Linus', amount: null, active: null },
+    ]);
+    assert.deepStrictEqual(
+      dataset.columns.map(column => column.type),
+      ['string', 'string', 'number', 'boolean']
+    );
+  });
+
+  test('Keep values that do not match their type and warn', () => {
+    const warnings: string[] = [];
+
+    const dataset = parseFixedWidth(
+      '00001Ada       n/a   Y\n',
+      { ...layout, skipLines: 0 },
+      { onWarning: warning => warnings.push(warning) }
+    );
+
+    assert.strictEqual(dataset.rows[0].amount, 'n/a');
+    assert.deepStrictEqual(warnings, [
+      'Line 1: "n/a" in column amount is not a number',
+    ]);
+
+    warnings.length = 0;
+    const notDecimal = parseFixedWidth(
+      [
+        '00001Ada       0x1F  Y',
+        '00002Grace     1e3   Y',
+        '00003Linus     +0042 Y',
+      ].join('\n'),
+      { ...layout, skipLines: 0 },
+      { onWarning: warning => warnings.push(warning) }
+    );
+    assert.deepStrictEqual(
+      notDecimal.rows.map(row => row.amount),
+      ['0x1F', '1e3', 42]
+    );
+    assert.deepStrictEqual(warnings, [
+      'Line 1: "0x1F" in column amount is not a number',
+      'Line 2: "1e3" in column amount is not a number',
+    ]);
+  });
+
+  test('Suggest columns and a header from the first lines', () => {
+    assert.deepStrictEqual(
+      suggestLayout([
+        'CODE NAME    QTY',
+        'A1   Apples   12',
+        'B22  Pears     3',
+      ]),
+      {
+        skipLines: 1,
+        columns: [
+          { name: 'CODE', start: 1, width: 5, type: 'string' },
+          { name: 'NAME', start: 6, width: 8, type: 'string' },
+          { name: 'QTY', start: 14, width: 3, type: 'number' },
+        ],
+      }
+    );
+  });
+
+  test('Reject invalid layouts', () => {
+    assert.throws(
+      () =>
+        validateLayout({
+          columns: [
+            { name: 'a', start: 1, width: 5 },
+            { name: 'b', start: 4, width: 2 },
+          ],
+        }),
+      /column "b" overlaps the column before it/
+    );
+    assert.throws(
+      () => validateLayout({ columns: [{ name: '', start: 1, width: 1 }] }),
+      /has no name/
+    );
+  });
+
+  test('Convert text files with a layout sidecar file', async () => {
+    const txtPath = path.join(tempDir, 'extract.txt');
+    const jsonPath = path.join(tempDir, 'extract.json');
+    fs.writeFileSync(txtPath, extract);
+
+    assert.strictEqual(
+      formatRegistry.getByPath(txtPath)?.id,
+      'txt',
+      'Text files without a layout are delimited text'
+    );
+
+    writeLayout(txtPath, layout);
+    assert.strictEqual(formatRegistry.getByPath(txtPath)?.id, 'fixedWidth');
+    await convertFile(txtPath, 'json', jsonPath, {
+      read: { preserveTypes: true },
+      write: { indentation: 0 },
+    });
+
+    const records = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+    assert.strictEqual(records.length, 3);
+    assert.strictEqual(records[1].amount, -3);
+    assert.strictEqual(
+      formatRegistry
+        .getByPath(txtPath + '.layout.json')
+        ?.isData?.(txtPath + '.layout.json'),
+      false,
+      'Layout files are not converted as JSON data'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { createDataset, getColumnNames } from '../dataset';
+import {
+  DEFAULT_FLATTEN_OPTIONS,
+  DEFAULT_UNFLATTEN_OPTIONS,
+  flattenDataset,
+  flattenRecord,
+  unflattenDataset,
+  unflattenRecord,
+} from '../flatten';
+import { csvFormat, parseCsv, serializeCsv } from '../formats/csv';
+import { parseJson, serializeJson } from '../formats/json';
+
+suite('DataMorph Flatten Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-flatten-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  const person = {
+    id: 1,
+    address: { city: 'Austin', geo: { lat: 30.27, lng: -97.74 } },
+    tags: ['admin', 'ops'],
+  };
+
+  test('Flatten nested objects into dot-path columns', () => {
+    assert.deepStrictEqual(flattenRecord(person), {
+      id: 1,
+      'address.city': 'Austin',
+      'address.geo.lat': 30.27,
+      'address.geo.lng': -97.74,
+      'tags[0]': 'admin',
+      'tags[1]': 'ops',
+    });
+  });
+
+  test('Use a custom separator and array mode', () => {
+    const joined = flattenRecord(person, {
+      ...DEFAULT_FLATTEN_OPTIONS,
+      separator: '_',
+      arrays: 'join',
+    });
+    assert.strictEqual(joined['address_geo_lat'], 30.27);
+    assert.strictEqual(joined.tags, 'admin;ops');
+
+    const json = flattenRecord(person, {
+      ...DEFAULT_FLATTEN_OPTIONS,
+      arrays: 'json',
+    });
+    assert.strictEqual(json.tags, '["admin","ops"]');
+  });
+
+  test('Write values below the depth limit as JSON', () => {
+    const flattened = flattenRecord(person, {
+      ...DEFAULT_FLATTEN_OPTIONS,
+      maxDepth: 2,
+    });
+    assert.strictEqual(flattened['address.city'], 'Austin');
+    assert.strictEqual(
+      flattened['address.geo'],
+      '{"lat":30.27,"lng":-97.74}',
+      'Objects at the depth limit should be stringified'
+    );
+  });
+
+  test('Keep empty containers and arrays of objects', () => {
+    const flattened = flattenRecord({
+      meta: {},
+      items: [],
+      lines: [{ sku: 'A1', qty: 2 }],
+    });
+    assert.deepStrictEqual(flattened, {
+      meta: '{}',
+      items: '[]',
+      'lines[0].sku': 'A1',
+      'lines[0].qty': 2,
+    });
+  });
+
+  test('Group columns that only appear in later rows', () => {
+    const dataset = flattenDataset(
+      createDataset([
+        { id: 1, tags: ['a'], name: 'Ada' },
+        { id: 2, tags: ['b', 'c'], name: 'Grace' },
+      ])
+    );
+    assert.deepStrictEqual(getColumnNames(dataset), [
+      'id',
+      'tags[0]',
+      'tags[1]',
+      'name',
+    ]);
+  });
+
+  test('Serialize flattened CSV, or stringify when disabled', () => {
+    const dataset = createDataset([{ id: 1, address: { city: 'Austin' } }]);
+
+    assert.strictEqual(
+      serializeCsv(dataset, ',', DEFAULT_FLATTEN_OPTIONS),
+      'id,address.city\n1,Austin\n'
+    );
+    assert.strictEqual(
+      serializeCsv(dataset),
+      'id,address\n1,"{""city"":""Austin""}"\n'
+    );
+  });
+
+  test('Unflatten dotted headers into nested objects and arrays', () => {
+    assert.deepStrictEqual(
+      unflattenRecord({
+        id: 1,
+        'user.name': 'Ada',
+        'items[0].sku': 'A1',
+        'items[1].sku': 'B2',
+        'items[2].sku': null,
+      }),
+      {
+        id: 1,
+        user: { name: 'Ada' },
+        items: [{ sku: 'A1' }, { sku: 'B2' }],
+      },
+      'Empty cells in array columns should not add elements'
+    );
+  });
+
+  test('Keep headers that clash with plain columns', () => {
+    assert.deepStrictEqual(unflattenRecord({ a: 1, 'a.b': 2, 'c.d': 3 }), {
+      a: 1,
+      'a.b': 2,
+      c: { d: 3 },
+    });
+  });
+
+  test('Keep headers with array indexes past the column count flat', () => {
+    assert.deepStrictEqual(
+      unflattenRecord({
+        id: 1,
+        'a[4294967294]': 'x',
+        'b[1]': 'y',
+        'b[0]': 'z',
+      }),
+      { id: 1, 'a[4294967294]': 'x', b: ['z', 'y'] }
+    );
+  });
+
+  test('Keep headers that would reach object prototypes flat', async () => {
+    const csvPath = path.join(tempDir, 'polluted.csv');
+    fs.writeFileSync(
+      csvPath,
+      '__proto__.polluted,constructor.prototype.polluted,a.b\nyes,yes,1\n'
+    );
+
+    const dataset = await csvFormat.read!(csvPath, {
+      unflatten: DEFAULT_UNFLATTEN_OPTIONS,
+    });
+    assert.strictEqual(({} as any).polluted, undefined);
+    assert.deepStrictEqual(dataset.rows, [
+      {
+        a: { b: 1 },
+        '__proto__.polluted': 'yes',
+        'constructor.prototype.polluted': 'yes',
+      },
+    ]);
+    assert.deepStrictEqual(
+      unflattenRecord(JSON.parse('{"__proto__": {"polluted": "yes"}}')),
+      JSON.parse('{"__proto__": {"polluted": "yes"}}')
+    );
+    assert.strictEqual(({} as any).polluted, undefined);
+  });
+
+  test('Parse JSON cells only when enabled', () => {
+    const record = { id: 1, meta: '{"tags":["x"]}', note: '[not json' };
+
+    assert.deepStrictEqual(unflattenRecord(record), {
+      id: 1,
+      meta: { tags: ['x'] },
+      note: '[not json',
+    });
+    assert.deepStrictEqual(
+      unflattenRecord(record, {
+        ...DEFAULT_UNFLATTEN_OPTIONS,
+        parseJsonCells: false,
+      }),
+      record
+    );
+  });
+
+  test('Round trip JSON through CSV', async () => {
+    const json = JSON.stringify([
+      { name: 'api', server: { host: 'a.example', port: 8080 }, tags: [] },
+      { name: 'web', server: { host: 'b.example', port: 80 }, tags: ['x'] },
+    ]);
+
+    const csv = serializeCsv(parseJson(json), ',', DEFAULT_FLATTEN_OPTIONS);
+    const restored = unflattenDataset(await parseCsv(csv));
+
+    assert.strictEqual(serializeJson(restored, 0), json);
+  });
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { DataFormat, FormatRegistry, getOutputPath } from '../formatRegistry';
+import { convertFile } from '../conversion';
+import { csvFormat } from '../formats/csv';
+
+// A minimal text format that writes one record per line as key=value pairs
+const keyValueFormat: DataFormat = {
+  id: 'keyvalue',
+  displayName: 'Key/Value',
+  extensions: ['.KV'],
+  capabilities: { read: false, write: true, preview: false },
+  write: async (dataset, outputPath) => {
+    const lines = dataset.rows.map(record =>
+      Object.entries(record)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(';')
+    );
+    fs.writeFileSync(outputPath, lines.join('\n'));
+  },
+};
+
+suite('DataMorph Format Registry Tests', () => {
+  let tempDir: string;
+  let registry: FormatRegistry;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-registry-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  setup(() => {
+    registry = new FormatRegistry();
+    registry.register(csvFormat);
+  });
+
+  test('Register and look up formats', () => {
+    registry.register(keyValueFormat);
+
+    assert.strictEqual(registry.get('keyvalue')?.displayName, 'Key/Value');
+    assert.strictEqual(
+      registry.getByPath('/data/export.kv')?.id,
+      'keyvalue',
+      'Extensions should be matched case-insensitively'
+    );
+    assert.strictEqual(registry.getByPath('/data/export.txt'), undefined);
+    assert.deepStrictEqual(
+      registry.readable().map(format => format.id),
+      ['csv'],
+      'Write-only formats should not be readable'
+    );
+    assert.deepStrictEqual(
+      registry.writable().map(format => format.id),
+      ['csv', 'keyvalue']
+    );
+  });
+
+  test('Reject duplicate and inconsistent formats', () => {
+    assert.throws(() => registry.register(csvFormat), /already registered/);
+    assert.throws(
+      () =>
+        registry.register({
+          ...keyValueFormat,
+          id: 'broken',
+          capabilities: { read: true, write: true, preview: false },
+        }),
+      /declares read but has no reader/
+    );
+  });
+
+  test('Dispose unregisters the format and notifies listeners', () => {
+    let changes = 0;
+    registry.onDidChange(() => changes++);
+
+    const registration = registry.register(keyValueFormat);
+    registration.dispose();
+
+    assert.strictEqual(registry.get('keyvalue'), undefined);
+    assert.strictEqual(changes, 2, 'Should notify on register and dispose');
+  });
+
+  test('Check supported conversions', () => {
+    registry.register(keyValueFormat);
+
+    assert.strictEqual(registry.canConvert('csv', 'keyvalue'), true);
+    assert.strictEqual(registry.canConvert('keyvalue', 'csv'), false);
+    assert.strictEqual(registry.canConvert('csv', 'csv'), false);
+  });
+
+  test('Build output paths from the first extension', () => {
+    registry.register(keyValueFormat);
+
+    assert.strictEqual(
+      getOutputPath('/data/users.csv', registry.get('keyvalue')!),
+      '/data/users.kv'
+    );
+    assert.strictEqual(
+      getOutputPath('/data/users', registry.get('csv')!),
+      '/data/users.csv'
+    );
+  });
+
+  test('Convert a file with a custom writer', async () => {
+    registry.register(keyValueFormat);
+
+    const csvPath = path.join(tempDir, 'people.csv');
+    const outputPath = path.join(tempDir, 'people.kv');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n2,Grace\n');
+
+    await convertFile(
+      csvPath,
+      'keyvalue',
+      outputPath,
+      { read: { preserveTypes: true }, write: {} },
+      registry
+    );
+
+    assert.strictEqual(
+      fs.readFileSync(outputPath, 'utf8'),
+      'id=1;name=Ada\nid=2;name=Grace'
+    );
+  });
+});
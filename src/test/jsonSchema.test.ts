@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { readFileDataset } from '../conversion';
+import {
+  generateSchema,
+  getSchemaPath,
+  inferSchema,
+  JSON_SCHEMA_DRAFT,
+} from '../jsonSchema';
+import { formatRegistry } from '../formats';
+
+suite('DataMorph JSON Schema Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-schema-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Infer types, required fields and nested shapes', () => {
+    const schema = generateSchema(
+      [
+        { id: 1, price: 9.5, tags: ['a'], owner: { name: 'Ada' }, note: null },
+        { id: 2, price: 3, tags: [], owner: { name: 'Grace', age: 36 } },
+      ],
+      'products.json'
+    );
+
+    assert.deepStrictEqual(schema, {
+      $schema: JSON_SCHEMA_DRAFT,
+      title: 'products.json',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          price: { type: 'number' },
+          tags: { type: 'array', items: { type: 'string' } },
+          owner: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              age: { type: 'integer' },
+            },
+            required: ['name'],
+          },
+          note: { type: 'null' },
+        },
+        required: ['id', 'price', 'tags', 'owner'],
+      },
+    });
+  });
+
+  test('Detect string formats', () => {
+    assert.deepStrictEqual(inferSchema(['2024-01-15', '2024-02-29']), {
+      type: 'string',
+      format: 'date',
+    });
+    assert.deepStrictEqual(inferSchema(['2024-01-15T10:30:00Z']), {
+      type: 'string',
+      format: 'date-time',
+    });
+    assert.deepStrictEqual(inferSchema(['ada@example.com', null]), {
+      type: ['string', 'null'],
+      format: 'email',
+    });
+    assert.deepStrictEqual(inferSchema(['https://example.com/a']), {
+      type: 'string',
+      format: 'uri',
+    });
+    assert.deepStrictEqual(inferSchema(['2024-13-45']), { type: 'string' });
+    assert.deepStrictEqual(
+      inferSchema(['2024-02-30']),
+      { type: 'string' },
+      'Days past the end of the month are not dates'
+    );
+    assert.deepStrictEqual(inferSchema(['2023-02-29T10:00:00Z']), {
+      type: 'string',
+    });
+  });
+
+  test('List the values of low-cardinality text fields', () => {
+    const statuses = ['open', 'closed', 'open', 'open', null, 'closed'];
+
+    assert.deepStrictEqual(inferSchema(statuses), {
+      type: ['string', 'null'],
+      enum: ['closed', 'open', null],
+    });
+    assert.deepStrictEqual(
+      inferSchema(statuses, { sampleSize: 1000, maxEnumValues: 0 }),
+      { type: ['string', 'null'] },
+      'Enums can be turned off'
+    );
+    assert.deepStrictEqual(
+      inferSchema(['Ada', 'Grace', 'Linus']),
+      { type: 'string' },
+      'Values that do not repeat are not an enum'
+    );
+    assert.deepStrictEqual(
+      inferSchema(['a', 'a', 1]),
+      { type: ['string', 'integer'] },
+      'Enums would reject the values of other types'
+    );
+  });
+
+  test('Generate a schema from a CSV file', async () => {
+    const csvPath = path.join(tempDir, 'people.csv');
+    fs.writeFileSync(
+      csvPath,
+      'id,email,joined,score\n1,ada@example.com,2024-01-15,\n2,grace@example.com,2024-02-01,7.5\n'
+    );
+
+    const dataset = await readFileDataset(
+      csvPath,
+      { preserveTypes: true },
+      false
+    );
+    const schema = generateSchema(dataset.rows, 'people.csv', {
+      sampleSize: 1,
+    });
+
+    assert.deepStrictEqual(schema.items.properties, {
+      id: { type: 'integer' },
+      email: { type: 'string', format: 'email' },
+      joined: { type: 'string', format: 'date' },
+      score: { type: 'null' },
+    });
+    assert.strictEqual(
+      getSchemaPath(csvPath),
+      path.join(tempDir, 'people.schema.json')
+    );
+    assert.strictEqual(
+      formatRegistry.get('json')?.isData?.(getSchemaPath(csvPath)),
+      false,
+      'Schema files are not converted as JSON data'
+    );
+  });
+});
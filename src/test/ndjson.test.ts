@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { convertFile } from '../conversion';
+import { readNdjson } from '../formats/ndjson';
+import {
+  BadLine,
+  describeBadLines,
+  NdjsonParser,
+  streamJsonArrayToNdjson,
+  streamNdjsonToCsv,
+  streamNdjsonToJson,
+} from '../streaming';
+
+suite('DataMorph NDJSON Tests', () => {
+  const events = [
+    '{"id":1,"event":"login","user":{"name":"Zoë"}}',
+    '',
+    '{"id":2,"event":"logout"',
+    '42',
+    '{"id":3,"event":"login"}',
+  ].join('\r\n');
+
+  let tempDir: string;
+  let eventsPath: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-ndjson-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+    eventsPath = path.join(tempDir, 'events.jsonl');
+    fs.writeFileSync(eventsPath, '\uFEFF' + events);
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Split lines across chunk boundaries and collect bad lines', async () => {
+    // Feed the file two bytes at a time, splitting the multi-byte ë
+    const bytes = Buffer.from(events);
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < bytes.length; i += 2) {
+      chunks.push(bytes.subarray(i, i + 2));
+    }
+
+    const parser = new NdjsonParser();
+    const records: unknown[] = [];
+    for await (const record of Readable.from(chunks).pipe(parser)) {
+      records.push(record);
+    }
+
+    assert.deepStrictEqual(records, [
+      { id: 1, event: 'login', user: { name: 'Zoë' } },
+      { id: 3, event: 'login' },
+    ]);
+    assert.deepStrictEqual(
+      parser.badLines.map(badLine => badLine.line),
+      [3, 4],
+      'Blank lines should be skipped but still counted'
+    );
+    assert.strictEqual(parser.badLines[1].message, 'Expected a JSON object');
+  });
+
+  test('Read a file and report bad lines as conversion warnings', async () => {
+    const { dataset, badLines } = await readNdjson(eventsPath);
+    assert.strictEqual(dataset.rows.length, 2);
+    assert.strictEqual(badLines.length, 2);
+
+    const outputPath = path.join(tempDir, 'events.json');
+    const result = await convertFile(eventsPath, 'json', outputPath, {
+      read: {},
+      write: { indentation: 0 },
+    });
+
+    assert.strictEqual(result.warnings.length, 2);
+    assert.match(result.warnings[0], /^Skipped line 3: /);
+    assert.strictEqual(
+      result.warnings[1],
+      'Skipped line 4: Expected a JSON object'
+    );
+    assert.strictEqual(
+      JSON.parse(fs.readFileSync(outputPath, 'utf8')).length,
+      2
+    );
+  });
+
+  test('Write NDJSON from another format', async () => {
+    const csvPath = path.join(tempDir, 'people.csv');
+    const outputPath = path.join(tempDir, 'people.ndjson');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n2,Grace\n');
+
+    await convertFile(csvPath, 'ndjson', outputPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+
+    assert.strictEqual(
+      fs.readFileSync(outputPath, 'utf8'),
+      '{"id":1,"name":"Ada"}\n{"id":2,"name":"Grace"}\n'
+    );
+  });
+
+  test('Stream NDJSON to JSON and CSV', async () => {
+    const jsonPath = path.join(tempDir, 'streamed.json');
+    const csvPath = path.join(tempDir, 'streamed.csv');
+
+    const jsonResult = await streamNdjsonToJson(eventsPath, jsonPath, {
+      indentation: 0,
+    });
+    const csvResult = await streamNdjsonToCsv(eventsPath, csvPath, {
+      flatten: {
+        separator: '.',
+        arrays: 'index',
+        arrayJoiner: ';',
+        maxDepth: 0,
+      },
+    });
+
+    assert.strictEqual(jsonResult.rows, 2);
+    assert.strictEqual(
+      fs.readFileSync(jsonPath, 'utf8'),
+      '[{"id":1,"event":"login","user":{"name":"Zoë"}},{"id":3,"event":"login"}]'
+    );
+    assert.strictEqual(
+      fs.readFileSync(csvPath, 'utf8'),
+      'id,event,user.name\n1,login,Zoë\n3,login,\n'
+    );
+    assert.strictEqual(csvResult.warnings.length, 2);
+  });
+
+  test('Stream a JSON array to NDJSON', async () => {
+    const jsonPath = path.join(tempDir, 'array.json');
+    const outputPath = path.join(tempDir, 'array.ndjson');
+    fs.writeFileSync(jsonPath, JSON.stringify([{ a: 1 }, { a: 2 }], null, 2));
+
+    const result = await streamJsonArrayToNdjson(jsonPath, outputPath, {});
+
+    assert.strictEqual(result.rows, 2);
+    assert.strictEqual(
+      fs.readFileSync(outputPath, 'utf8'),
+      '{"a":1}\n{"a":2}\n'
+    );
+  });
+
+  test('Summarize long lists of bad lines', () => {
+    const badLines: BadLine[] = Array.from({ length: 25 }, (_, i) => ({
+      line: i + 1,
+      message: 'Unexpected token',
+    }));
+
+    const warnings = describeBadLines(badLines);
+
+    assert.strictEqual(warnings.length, 11);
+    assert.strictEqual(warnings[10], 'Skipped 15 more invalid lines');
+  });
+});
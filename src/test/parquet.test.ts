@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { convertFile } from '../conversion';
+import { createDataset } from '../dataset';
+import { parquetFormat, serializeParquet } from '../formats/parquet';
+import { arrowFormat, datasetToTable, tableToDataset } from '../formats/arrow';
+
+suite('DataMorph Parquet and Arrow Tests', () => {
+  let tempDir: string;
+  let csvPath: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-parquet-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+    csvPath = path.join(tempDir, 'orders.csv');
+    fs.writeFileSync(
+      csvPath,
+      'id,customer,total,paid,reference\n' +
+        '1,Ada,9.5,true,3000000000\n' +
+        '2,Grace,,false,3000000001\n'
+    );
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Map inferred column types to Arrow types', () => {
+    const table = datasetToTable(
+      createDataset([
+        { id: 1, big: 3000000000, score: 1.5, ok: true, tags: ['a'] },
+        { id: 2, big: 1, score: 2, ok: null, tags: null },
+      ])
+    );
+
+    assert.deepStrictEqual(
+      table.schema.fields.map(field => String(field.type)),
+      ['Int32', 'Int64', 'Float64', 'Bool', 'Utf8']
+    );
+    assert.strictEqual(table.getChild('tags')?.get(0), '["a"]');
+
+    const text = datasetToTable(
+      createDataset([
+        { name: '', qty: 1 },
+        { name: 'Ada', qty: '' },
+      ])
+    );
+    assert.strictEqual(text.getChild('name')?.get(0), '');
+    assert.strictEqual(text.getChild('qty')?.get(1), null);
+  });
+
+  test('Read 64-bit integers beyond 2^53 as text or as BigInts', () => {
+    const table = datasetToTable(
+      createDataset([{ id: 9007199254740993n }, { id: 2n }])
+    );
+    const warnings: string[] = [];
+
+    assert.deepStrictEqual(
+      tableToDataset(table, {
+        onWarning: message => warnings.push(message),
+      }).rows,
+      [{ id: '9007199254740993' }, { id: 2 }]
+    );
+    assert.deepStrictEqual(warnings, [
+      '1 number has more digits than a JavaScript number holds and was kept as text (column "id")',
+    ]);
+    assert.deepStrictEqual(
+      tableToDataset(table, { largeIntegers: 'number' }).rows,
+      [{ id: 9007199254740993n }, { id: 2 }]
+    );
+  });
+
+  test('Convert CSV to Parquet and back to JSON', async () => {
+    const parquetPath = path.join(tempDir, 'orders.parquet');
+    const jsonPath = path.join(tempDir, 'orders.json');
+
+    await convertFile(csvPath, 'parquet', parquetPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+    await convertFile(parquetPath, 'json', jsonPath, {
+      read: {},
+      write: { indentation: 0 },
+    });
+
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(jsonPath, 'utf8')), [
+      {
+        id: 1,
+        customer: 'Ada',
+        total: 9.5,
+        paid: true,
+        reference: 3000000000,
+      },
+      {
+        id: 2,
+        customer: 'Grace',
+        total: null,
+        paid: false,
+        reference: 3000000001,
+      },
+    ]);
+    assert.deepStrictEqual(
+      (await parquetFormat.readSchema!(parquetPath)).map(field => field.type),
+      ['Int32', 'Utf8', 'Float64', 'Bool', 'Int64']
+    );
+  });
+
+  test('Compress Parquet files with the selected codec', () => {
+    const dataset = createDataset(
+      Array.from({ length: 1000 }, (_, i) => ({ id: i, note: 'repeated' }))
+    );
+
+    const uncompressed = serializeParquet(dataset, 'uncompressed');
+    const zstd = serializeParquet(dataset, 'zstd');
+
+    assert.ok(
+      zstd.length < uncompressed.length,
+      `${zstd.length} bytes with zstd, ${uncompressed.length} without`
+    );
+  });
+
+  test('Write and read Arrow IPC files', async () => {
+    const arrowPath = path.join(tempDir, 'orders.arrow');
+
+    await convertFile(csvPath, 'arrow', arrowPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+
+    const dataset = await arrowFormat.read!(arrowPath, {
+      preserveTypes: false,
+    });
+    assert.deepStrictEqual(dataset.rows[0], {
+      id: '1',
+      customer: 'Ada',
+      total: '9.5',
+      paid: 'true',
+      reference: '3000000000',
+    });
+    assert.deepStrictEqual(
+      (await arrowFormat.readSchema!(arrowPath)).map(field => field.name),
+      ['id', 'customer', 'total', 'paid', 'reference']
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { convertFile } from '../conversion';
+import { parseCsv } from '../formats/csv';
+import { readSheet, writeSingleSheet } from '../formats/excel';
+import { parseYamlDocument, serializeYaml } from '../formats/yaml';
+import { parseFixedWidth } from '../formats/fixedWidth';
+import { createDataset } from '../dataset';
+import { streamCsvToJson } from '../streaming';
+import { isExactNumber, parseExactJson, stringifyJson } from '../precision';
+
+suite('DataMorph Precision Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-precision-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Keep the digits of JSON numbers', () => {
+    assert.strictEqual(isExactNumber('9007199254740992'), true);
+    assert.strictEqual(isExactNumber('9007199254740993'), false);
+    assert.strictEqual(isExactNumber('19.990'), true);
+    assert.strictEqual(isExactNumber('1.5e-3'), true);
+    assert.strictEqual(isExactNumber('0.12345678901234567891'), false);
+
+    const json =
+      '[{"id": 9007199254740993, "price": 0.12345678901234567891, "qty": 2, "note": "9007199254740993"}]';
+    const textNumbers: string[] = [];
+    assert.deepStrictEqual(
+      parseExactJson(json, 'string', text => textNumbers.push(text)),
+      [
+        {
+          id: '9007199254740993',
+          price: '0.12345678901234567891',
+          qty: 2,
+          note: '9007199254740993',
+        },
+      ]
+    );
+    assert.deepStrictEqual(textNumbers, [
+      '9007199254740993',
+      '0.12345678901234567891',
+    ]);
+
+    const records = parseExactJson(json, 'number');
+    assert.strictEqual(records[0].id, 9007199254740993n);
+    assert.strictEqual(
+      stringifyJson(records),
+      '[{"id":9007199254740993,"price":"0.12345678901234567891","qty":2,"note":"9007199254740993"}]'
+    );
+  });
+
+  test('Read large CSV integers as text or as BigInts', async () => {
+    const csv = 'id,amount\n9007199254740993,0.12345678901234567891\n2,1.5\n';
+    const warnings: string[] = [];
+    const dataset = await parseCsv(csv, true, undefined, undefined, {
+      onWarning: message => warnings.push(message),
+    });
+    assert.deepStrictEqual(dataset.rows, [
+      { id: '9007199254740993', amount: '0.12345678901234567891' },
+      { id: '2', amount: 1.5 },
+    ]);
+    assert.deepStrictEqual(warnings, [
+      '2 numbers have more digits than a JavaScript number holds and were kept as text (columns "id", "amount")',
+    ]);
+
+    const csvPath = path.join(tempDir, 'ids.csv');
+    const jsonPath = path.join(tempDir, 'ids.json');
+    fs.writeFileSync(csvPath, csv);
+    const result = await convertFile(csvPath, 'json', jsonPath, {
+      read: { preserveTypes: true, largeIntegers: 'number' },
+      write: { indentation: 0 },
+    });
+    assert.strictEqual(
+      fs.readFileSync(jsonPath, 'utf8'),
+      '[{"id":9007199254740993,"amount":"0.12345678901234567891"},{"id":2,"amount":1.5}]'
+    );
+    assert.deepStrictEqual(result.warnings, [
+      '1 number has more digits than a JavaScript number holds and was kept as text (column "amount")',
+    ]);
+
+    const streamed = await streamCsvToJson(csvPath, jsonPath, {
+      indentation: 0,
+      largeIntegers: 'number',
+    });
+    assert.strictEqual(
+      fs.readFileSync(jsonPath, 'utf8'),
+      '[{"id":9007199254740993,"amount":"0.12345678901234567891"},{"id":2,"amount":1.5}]'
+    );
+    assert.deepStrictEqual(streamed.warnings, result.warnings);
+  });
+
+  test('Read large YAML and fixed-width integers as text or as BigInts', () => {
+    const warnings: string[] = [];
+    const onWarning = (message: string) => warnings.push(message);
+    const yaml = 'id: 9007199254740993\nhex: -0x20_0000_0000_0001\nqty: 2\n';
+
+    assert.deepStrictEqual(parseYamlDocument(yaml, true, { onWarning }), {
+      id: '9007199254740993',
+      hex: '-9007199254740993',
+      qty: 2,
+    });
+    assert.deepStrictEqual(
+      parseYamlDocument(yaml, true, { largeIntegers: 'number', onWarning }),
+      { id: 9007199254740993n, hex: -9007199254740993n, qty: 2 }
+    );
+
+    const layout = {
+      columns: [
+        { name: 'id', start: 1, width: 17, type: 'number' as const },
+        { name: 'qty', start: 18, width: 3, type: 'number' as const },
+      ],
+    };
+    const text = '9007199254740993  +2\n00000000000000012 -7\n';
+    assert.deepStrictEqual(parseFixedWidth(text, layout, { onWarning }).rows, [
+      { id: '9007199254740993', qty: 2 },
+      { id: 12, qty: -7 },
+    ]);
+    assert.deepStrictEqual(
+      parseFixedWidth(text, layout, { largeIntegers: 'number' }).rows[0],
+      { id: 9007199254740993n, qty: 2 }
+    );
+    assert.deepStrictEqual(warnings, [
+      '2 numbers have more digits than a JavaScript number holds and were kept as text',
+      '1 number has more digits than a JavaScript number holds and was kept as text (column "id")',
+    ]);
+  });
+
+  test('Write numbers to workbooks without float artifacts', async () => {
+    const jsonPath = path.join(tempDir, 'orders.json');
+    const excelPath = path.join(tempDir, 'orders.xlsx');
+    fs.writeFileSync(
+      jsonPath,
+      '[{"id": 12345678901234567, "price": 19.99, "total": 0.30000000000000004}]'
+    );
+
+    const result = await convertFile(jsonPath, 'excel', excelPath, {
+      read: { largeIntegers: 'number' },
+      write: {},
+    });
+    assert.deepStrictEqual(readSheet(excelPath).rows, [
+      { id: '12345678901234567', price: 19.99, total: 0.3 },
+    ]);
+    assert.deepStrictEqual(result.warnings, [
+      'Column "id" has integers with more than the 15 digits Excel numbers keep; they were written as text',
+      'Column "total" has numbers with more than the 15 significant digits Excel keeps; they were rounded',
+    ]);
+  });
+
+  test('Write BigInts that fit a number as numbers', () => {
+    const dataset = createDataset([
+      { qty: 2n, id: 9007199254740993n },
+      { qty: -7n, id: 12n },
+    ]);
+
+    assert.strictEqual(
+      serializeYaml(dataset),
+      "- qty: 2\n  id: '9007199254740993'\n- qty: -7\n  id: 12\n"
+    );
+
+    const excelPath = path.join(tempDir, 'bigints.xlsx');
+    const warnings: string[] = [];
+    writeSingleSheet(dataset, excelPath, undefined, message =>
+      warnings.push(message)
+    );
+    assert.deepStrictEqual(readSheet(excelPath).rows, [
+      { qty: 2, id: '9007199254740993' },
+      { qty: -7, id: 12 },
+    ]);
+    assert.deepStrictEqual(warnings, [
+      'Column "id" has integers with more than the 15 digits Excel numbers keep; they were written as text',
+    ]);
+  });
+});
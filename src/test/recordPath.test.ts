@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { findRecordArrays, selectRecords } from '../recordPath';
+import { parseJson } from '../formats/json';
+import { getStreamingConverter } from '../streaming';
+
+suite('DataMorph Record Path Tests', () => {
+  const response = {
+    data: {
+      items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+      'related-links': [{ href: '/next' }],
+    },
+    meta: { page: 1, warnings: ['slow'] },
+  };
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-record-path-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Find arrays of objects, largest first', () => {
+    const candidates = findRecordArrays(response);
+
+    assert.deepStrictEqual(
+      candidates.map(candidate => [candidate.path, candidate.pointer]),
+      [
+        ['$.data.items', '/data/items'],
+        ["$.data['related-links']", '/data/related-links'],
+      ],
+      'Arrays of plain values should not be offered'
+    );
+  });
+
+  test('Select records automatically', () => {
+    assert.strictEqual(selectRecords(response), response.data.items);
+
+    const root = [{ id: 1 }];
+    assert.strictEqual(selectRecords(root), root);
+    assert.deepStrictEqual(
+      selectRecords({ id: 1 }),
+      { id: 1 },
+      'A single object without arrays should be one record'
+    );
+  });
+
+  test('Select records by JSONPath and JSON Pointer', () => {
+    assert.strictEqual(
+      selectRecords(response, "$['data'].items"),
+      response.data.items
+    );
+    assert.strictEqual(
+      selectRecords(response, '/data/related-links'),
+      response.data['related-links']
+    );
+    assert.deepStrictEqual(selectRecords(response, '$.data.items[1]'), {
+      id: 2,
+    });
+    assert.deepStrictEqual(
+      selectRecords(response, '$..href'),
+      '/next',
+      'Recursive descent should find nested keys'
+    );
+    assert.deepStrictEqual(
+      selectRecords({ a: [{ id: 1 }], b: [{ id: 2 }] }, '$.*'),
+      [{ id: 1 }, { id: 2 }],
+      'Wildcard matches should be combined'
+    );
+  });
+
+  test('Report paths that match nothing', () => {
+    assert.throws(
+      () => selectRecords(response, '$.data.missing'),
+      /No records found at \$\.data\.missing/
+    );
+    assert.throws(() => selectRecords(response, 'data.items'), /Invalid/);
+  });
+
+  test('Parse wrapped JSON into a dataset', () => {
+    const dataset = parseJson(JSON.stringify(response), 'auto');
+
+    assert.strictEqual(dataset.rows.length, 3);
+    assert.deepStrictEqual(
+      dataset.columns.map(column => column.name),
+      ['id']
+    );
+  });
+
+  test('Only stream JSON arrays at the root', () => {
+    const arrayPath = path.join(tempDir, 'array.json');
+    const wrappedPath = path.join(tempDir, 'wrapped.json');
+    fs.writeFileSync(arrayPath, '\n  [{"id": 1}]');
+    fs.writeFileSync(wrappedPath, JSON.stringify(response));
+
+    assert.ok(getStreamingConverter('json', 'csv', arrayPath));
+    assert.strictEqual(
+      getStreamingConverter('json', 'csv', wrappedPath),
+      undefined
+    );
+    assert.strictEqual(
+      getStreamingConverter('json', 'csv', arrayPath, {
+        recordPath: '$[0]',
+      }),
+      undefined
+    );
+  });
+});
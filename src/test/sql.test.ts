@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { convertFile } from '../conversion';
+import { createDataset } from '../dataset';
+import { serializeSql } from '../formats/sql';
+
+suite('DataMorph SQL Tests', () => {
+  const dataset = createDataset([
+    { id: 1, name: "O'Brien", score: 9.5, active: true, tags: ['a'] },
+    { id: 3000000000, name: null, score: '', active: false, tags: [] },
+  ]);
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-sql-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Write a PostgreSQL script with inferred column types', () => {
+    assert.strictEqual(
+      serializeSql(dataset, 'people'),
+      [
+        'CREATE TABLE "people" (',
+        '  "id" BIGINT,',
+        '  "name" TEXT,',
+        '  "score" DOUBLE PRECISION,',
+        '  "active" BOOLEAN,',
+        '  "tags" JSONB',
+        ');',
+        '',
+        'INSERT INTO "people" ("id", "name", "score", "active", "tags") VALUES',
+        `  (1, 'O''Brien', 9.5, TRUE, '["a"]'),`,
+        "  (3000000000, NULL, NULL, FALSE, '[]');",
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('Quote identifiers and values for each dialect', () => {
+    const rows = createDataset([{ 'a"b`c]': 'back\\slash', flag: true }]);
+
+    const mysql = serializeSql(rows, 't', { sql: { dialect: 'mysql' } });
+    assert.ok(mysql.includes('`a"b``c]` VARCHAR(255)'), mysql);
+    assert.ok(mysql.includes("('back\\\\slash', TRUE)"), mysql);
+
+    const sqlServer = serializeSql(rows, 't', {
+      sql: { dialect: 'sqlserver' },
+    });
+    assert.ok(sqlServer.includes('[a"b`c]]] NVARCHAR(255)'), sqlServer);
+    assert.ok(sqlServer.includes("(N'back\\slash', 1)"), sqlServer);
+
+    const sqlite = serializeSql(rows, 't', { sql: { dialect: 'sqlite' } });
+    assert.ok(sqlite.includes('"flag" INTEGER'), sqlite);
+    assert.ok(sqlite.includes("('back\\slash', 1)"), sqlite);
+  });
+
+  test('Split inserts into batches', () => {
+    const rows = createDataset(
+      Array.from({ length: 5 }, (_, i) => ({ id: i }))
+    );
+
+    const script = serializeSql(rows, 'ids', { sql: { batchSize: 2 } });
+
+    assert.strictEqual(script.match(/INSERT INTO/g)?.length, 3);
+    assert.ok(script.endsWith('VALUES\n  (4);\n'));
+  });
+
+  test('Convert a CSV file into a table named after it', async () => {
+    const csvPath = path.join(tempDir, 'orders.csv');
+    const sqlPath = path.join(tempDir, 'orders.sql');
+    fs.writeFileSync(csvPath, 'id,customer.name,note\n1,Ada,\n2,Grace,rush\n');
+
+    await convertFile(csvPath, 'sql', sqlPath, {
+      read: { preserveTypes: true },
+      write: { sql: { dialect: 'sqlite' } },
+    });
+
+    const script = fs.readFileSync(sqlPath, 'utf8');
+    assert.ok(script.startsWith('CREATE TABLE "orders" (\n  "id" INTEGER,'));
+    assert.ok(script.includes("(1, 'Ada', NULL)"), script);
+  });
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { combineFiles, convertFile } from '../conversion';
+import { readSqlite, sqliteFormat } from '../formats/sqlite';
+
+suite('DataMorph SQLite Tests', () => {
+  let tempDir: string;
+  let usersPath: string;
+  let ordersPath: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-sqlite-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+    usersPath = path.join(tempDir, 'users.csv');
+    ordersPath = path.join(tempDir, 'orders.json');
+    fs.writeFileSync(usersPath, 'id,name,active\n1,Ada,true\n2,Grace,false\n');
+    fs.writeFileSync(
+      ordersPath,
+      JSON.stringify([
+        { id: 10, userId: 1, total: 9.5 },
+        { id: 11, userId: 2, total: 120 },
+        { id: 12, userId: 1, total: 30.25 },
+      ])
+    );
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Write a dataset into a table and read it back', async () => {
+    const dbPath = path.join(tempDir, 'users.sqlite');
+
+    await convertFile(usersPath, 'sqlite', dbPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+
+    const dataset = await readSqlite(dbPath);
+    assert.deepStrictEqual(dataset.rows, [
+      { id: 1, name: 'Ada', active: 1 },
+      { id: 2, name: 'Grace', active: 0 },
+    ]);
+  });
+
+  test('Read integers beyond 2^53 without losing digits', async () => {
+    const jsonPath = path.join(tempDir, 'ids.json');
+    const dbPath = path.join(tempDir, 'ids.sqlite');
+    fs.writeFileSync(jsonPath, '[{"id": 9007199254740993, "qty": 2}]');
+    await convertFile(jsonPath, 'sqlite', dbPath, {
+      read: { largeIntegers: 'number' },
+      write: {},
+    });
+
+    const warnings: string[] = [];
+    const dataset = await readSqlite(dbPath, {
+      onWarning: message => warnings.push(message),
+    });
+    assert.deepStrictEqual(dataset.rows, [{ id: '9007199254740993', qty: 2 }]);
+    assert.deepStrictEqual(warnings, [
+      '1 number has more digits than a JavaScript number holds and was kept as text (column "id")',
+    ]);
+
+    const exact = await readSqlite(dbPath, { largeIntegers: 'number' });
+    assert.deepStrictEqual(exact.rows, [{ id: 9007199254740993n, qty: 2 }]);
+  });
+
+  test('Add tables to an existing database', async () => {
+    const dbPath = path.join(tempDir, 'shop.db');
+
+    for (const sourcePath of [usersPath, ordersPath, usersPath]) {
+      await convertFile(sourcePath, 'sqlite', dbPath, {
+        read: { preserveTypes: true },
+        write: {
+          sql: {
+            tableName: path.basename(sourcePath, path.extname(sourcePath)),
+          },
+        },
+      });
+    }
+
+    assert.deepStrictEqual(
+      await sqliteFormat.listSheets!(dbPath),
+      ['orders', 'users'],
+      'Writing a table again should replace it'
+    );
+    const orders = await readSqlite(dbPath, { sheet: 'orders' });
+    assert.strictEqual(orders.rows.length, 3);
+  });
+
+  test('Convert the result of a query', async () => {
+    const dbPath = path.join(tempDir, 'shop.db');
+    const outputPath = path.join(tempDir, 'totals.json');
+
+    await convertFile(dbPath, 'json', outputPath, {
+      read: {
+        query:
+          'SELECT u.name, SUM(o.total) AS total FROM users u ' +
+          'JOIN orders o ON o.userId = u.id GROUP BY u.name ORDER BY u.name',
+      },
+      write: { indentation: 0 },
+    });
+
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(outputPath, 'utf8')), [
+      { name: 'Ada', total: 39.75 },
+      { name: 'Grace', total: 120 },
+    ]);
+  });
+
+  test('Combine files into one database with a table per file', async () => {
+    const dbPath = path.join(tempDir, 'fixtures.sqlite');
+    const jsonPath = path.join(tempDir, 'fixtures.json');
+
+    await combineFiles([usersPath, ordersPath], 'sqlite', dbPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+    await convertFile(dbPath, 'json', jsonPath, {
+      read: {},
+      write: { indentation: 0 },
+      allSheets: true,
+    });
+
+    const tables = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+    assert.deepStrictEqual(Object.keys(tables), ['users', 'orders']);
+    assert.strictEqual(tables.orders[2].total, 30.25);
+  });
+
+  test('Report missing tables', async () => {
+    await assert.rejects(
+      readSqlite(path.join(tempDir, 'shop.db'), { sheet: 'missing' }),
+      /Table "missing" not found in shop\.db/
+    );
+  });
+});
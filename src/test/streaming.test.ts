@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { DEFAULT_FLATTEN_OPTIONS, DEFAULT_UNFLATTEN_OPTIONS } from '../flatten';
+import {
+  formatBytes,
+  JsonArrayParser,
+  streamCsvToJson,
+  streamCsvToNdjson,
+  streamJsonArrayToCsv,
+  streamNdjsonToCsv,
+} from '../streaming';
+
+suite('DataMorph Streaming Tests', () => {
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-streaming-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Split a JSON array across chunk boundaries', async () => {
+    const items = [
+      { id: 1, text: 'comma, and ] bracket' },
+      { id: 2, nested: { list: [1, 2, { deep: '"quoted"' }] } },
+      'plain',
+      42,
+    ];
+    const json = JSON.stringify(items, null, 2);
+
+    // Feed the document three characters at a time
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < json.length; i += 3) {
+      chunks.push(Buffer.from(json.slice(i, i + 3)));
+    }
+
+    const parsed: unknown[] = [];
+    const parser = Readable.from(chunks).pipe(new JsonArrayParser());
+    for await (const item of parser) {
+      parsed.push(item);
+    }
+
+    assert.deepStrictEqual(parsed, items);
+  });
+
+  test('Stream CSV to JSON with the same output as JSON.stringify', async () => {
+    const csvPath = path.join(tempDir, 'products.csv');
+    const jsonPath = path.join(tempDir, 'products.json');
+    fs.writeFileSync(
+      csvPath,
+      'id,name,price,active,note\n1,Chair,249.99,true,\n2,"Desk, oak",89,false,x\n'
+    );
+
+    let lastProgress = 0;
+    const result = await streamCsvToJson(csvPath, jsonPath, {
+      onProgress: bytesRead => (lastProgress = bytesRead),
+    });
+
+    const expected = [
+      { id: 1, name: 'Chair', price: 249.99, active: true, note: null },
+      { id: 2, name: 'Desk, oak', price: 89, active: false, note: 'x' },
+    ];
+    assert.strictEqual(
+      fs.readFileSync(jsonPath, 'utf8'),
+      JSON.stringify(expected, null, 2)
+    );
+    assert.strictEqual(result.rows, 2);
+    assert.strictEqual(lastProgress, fs.statSync(csvPath).size);
+  });
+
+  test('Stream CSV to NDJSON', async () => {
+    const csvPath = path.join(tempDir, 'events.csv');
+    const ndjsonPath = path.join(tempDir, 'events.ndjson');
+    fs.writeFileSync(csvPath, 'id,type\n1,click\n2,view\n');
+
+    await streamCsvToNdjson(csvPath, ndjsonPath, { preserveTypes: false });
+
+    assert.strictEqual(
+      fs.readFileSync(ndjsonPath, 'utf8'),
+      '{"id":"1","type":"click"}\n{"id":"2","type":"view"}\n'
+    );
+  });
+
+  test('Stream CSV with dotted headers to nested NDJSON', async () => {
+    const csvPath = path.join(tempDir, 'orders.csv');
+    const ndjsonPath = path.join(tempDir, 'orders.ndjson');
+    fs.writeFileSync(
+      csvPath,
+      'id,customer.name,items[0]\n1,Ada,"{""sku"":""A1""}"\n'
+    );
+
+    await streamCsvToNdjson(csvPath, ndjsonPath, {
+      unflatten: DEFAULT_UNFLATTEN_OPTIONS,
+    });
+
+    assert.strictEqual(
+      fs.readFileSync(ndjsonPath, 'utf8'),
+      '{"id":1,"customer":{"name":"Ada"},"items":[{"sku":"A1"}]}\n'
+    );
+  });
+
+  test('Stream a JSON array to CSV with the columns of every record', async () => {
+    const jsonPath = path.join(tempDir, 'users.json');
+    const csvPath = path.join(tempDir, 'users.csv');
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify([
+        { id: 1, tags: ['a', 'b'] },
+        { id: 2, tags: [], extra: true },
+      ])
+    );
+
+    const result = await streamJsonArrayToCsv(jsonPath, csvPath, {});
+
+    assert.strictEqual(
+      fs.readFileSync(csvPath, 'utf8'),
+      'id,tags,extra\n1,"[""a"",""b""]",\n2,[],true\n'
+    );
+    assert.deepStrictEqual(result.warnings, []);
+    assert.strictEqual(result.rows, 2);
+  });
+
+  test('Stream integers beyond 2^53 to CSV without losing digits', async () => {
+    const jsonPath = path.join(tempDir, 'ids.json');
+    const ndjsonPath = path.join(tempDir, 'ids.ndjson');
+    const csvPath = path.join(tempDir, 'ids.csv');
+    fs.writeFileSync(jsonPath, '[{"id": 9007199254740993, "qty": 2}]');
+    fs.writeFileSync(ndjsonPath, '{"id": 9007199254740993, "qty": 2}\n');
+    const csv = 'id,qty\n9007199254740993,2\n';
+    const warning =
+      '1 number has more digits than a JavaScript number holds and was kept as text';
+
+    const fromJson = await streamJsonArrayToCsv(jsonPath, csvPath, {});
+    assert.strictEqual(fs.readFileSync(csvPath, 'utf8'), csv);
+    assert.deepStrictEqual(fromJson.warnings, [warning]);
+
+    const fromNdjson = await streamNdjsonToCsv(ndjsonPath, csvPath, {});
+    assert.strictEqual(fs.readFileSync(csvPath, 'utf8'), csv);
+    assert.deepStrictEqual(fromNdjson.warnings, [warning]);
+
+    const exact = await streamJsonArrayToCsv(jsonPath, csvPath, {
+      largeIntegers: 'number',
+    });
+    assert.strictEqual(fs.readFileSync(csvPath, 'utf8'), csv);
+    assert.deepStrictEqual(exact.warnings, []);
+  });
+
+  test('Remove partial output when aborted', async () => {
+    const csvPath = path.join(tempDir, 'aborted.csv');
+    const jsonPath = path.join(tempDir, 'aborted.json');
+    fs.writeFileSync(csvPath, 'a,b\n' + '1,2\n'.repeat(10000));
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+      streamCsvToJson(csvPath, jsonPath, { signal: controller.signal })
+    );
+    assert.strictEqual(fs.existsSync(jsonPath), false);
+  });
+
+  test('Stream a JSON array to flattened CSV', async () => {
+    const jsonPath = path.join(tempDir, 'nested.json');
+    const csvPath = path.join(tempDir, 'nested.csv');
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify([{ id: 1, address: { city: 'Austin', zip: '78701' } }])
+    );
+
+    await streamJsonArrayToCsv(jsonPath, csvPath, {
+      flatten: DEFAULT_FLATTEN_OPTIONS,
+    });
+
+    assert.strictEqual(
+      fs.readFileSync(csvPath, 'utf8'),
+      'id,address.city,address.zip\n1,Austin,78701\n'
+    );
+  });
+
+  test('Format byte counts', () => {
+    assert.strictEqual(formatBytes(512), '512 B');
+    assert.strictEqual(formatBytes(1536), '1.5 KB');
+    assert.strictEqual(formatBytes(2 * 1024 * 1024 * 1024), '2.0 GB');
+  });
+});
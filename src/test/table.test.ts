@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { convertFile, convertText } from '../conversion';
+import { createDataset } from '../dataset';
+import { serializeHtmlTable, serializeMarkdownTable } from '../formats/table';
+
+suite('DataMorph Table Tests', () => {
+  const dataset = createDataset([
+    { name: 'Ada | Lovelace', born: 1815, note: 'line one\nline two' },
+    { name: '<b>Grace</b>', born: 1906, note: 'C:\\temp' },
+  ]);
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-table-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Write a Markdown table with aligned and escaped cells', () => {
+    assert.strictEqual(
+      serializeMarkdownTable(dataset),
+      [
+        '| name | born | note |',
+        '| :--- | ---: | :--- |',
+        '| Ada \\| Lovelace | 1815 | line one<br>line two |',
+        '| &lt;b&gt;Grace&lt;/b&gt; | 1906 | C:\\\\temp |',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('Write an HTML table with aligned and escaped cells', () => {
+    const html = serializeHtmlTable(dataset, {
+      table: { alignment: 'center' },
+    });
+
+    assert.ok(
+      html.includes(
+        '<th style="text-align: center">name</th>' +
+          '<th style="text-align: center">born</th>'
+      ),
+      'Every column should be centered'
+    );
+    assert.ok(html.includes('&lt;b&gt;Grace&lt;/b&gt;'), 'HTML is escaped');
+    assert.ok(html.includes('line one<br>line two'), 'Line breaks are kept');
+    assert.ok(html.startsWith('<table>\n') && html.endsWith('</table>\n'));
+  });
+
+  test('Truncate rows, columns and long cells', () => {
+    const markdown = serializeMarkdownTable(dataset, {
+      table: { maxRows: 1, maxColumns: 2, maxCellLength: 5 },
+    });
+
+    assert.strictEqual(
+      markdown,
+      [
+        '| name | born |',
+        '| :--- | ---: |',
+        '| Ada … | 1815 |',
+        '',
+        '_Showing 1 of 2 rows and 2 of 3 columns._',
+        '',
+      ].join('\n')
+    );
+    assert.ok(
+      serializeHtmlTable(dataset, { table: { maxRows: 1 } }).endsWith(
+        '<p><em>Showing 1 of 2 rows.</em></p>\n'
+      )
+    );
+  });
+
+  test('Convert files to tables, with a table per sheet', async () => {
+    const csvPath = path.join(tempDir, 'people.csv');
+    const jsonPath = path.join(tempDir, 'report.json');
+    const markdownPath = path.join(tempDir, 'people.md');
+    const htmlPath = path.join(tempDir, 'report.html');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n');
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify({ users: [{ id: 1 }], orders: [{ total: 9.5 }] })
+    );
+
+    await convertFile(csvPath, 'markdown', markdownPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+    await convertFile(jsonPath, 'html', htmlPath, { read: {}, write: {} });
+
+    assert.strictEqual(
+      fs.readFileSync(markdownPath, 'utf8'),
+      '| id | name |\n| ---: | :--- |\n| 1 | Ada |\n'
+    );
+    const html = fs.readFileSync(htmlPath, 'utf8');
+    assert.ok(html.startsWith('<h2>users</h2>\n<table>'));
+    assert.ok(html.includes('<h2>orders</h2>'));
+  });
+
+  test('Convert selected text to a table', async () => {
+    const result = await convertText(
+      'city;population\nOslo;709000\n',
+      'txt',
+      'markdown',
+      { read: { preserveTypes: true }, write: {} }
+    );
+
+    assert.strictEqual(
+      result.text,
+      '| city | population |\n| :--- | ---: |\n| Oslo | 709000 |\n'
+    );
+    assert.deepStrictEqual(result.warnings, []);
+  });
+});
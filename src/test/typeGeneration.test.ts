@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { generateSchema } from '../jsonSchema';
+import { generateTypeScript, generateZod, toTypeName } from '../typeGeneration';
+
+suite('DataMorph Type Generation Tests', () => {
+  const schema = generateSchema([
+    {
+      id: 1,
+      'full name': 'Ada',
+      status: 'open',
+      joined: '2024-01-15',
+      tags: ['a'],
+      owner: { name: 'Ada', address: { city: 'London' } },
+      score: 1.5,
+    },
+    {
+      id: 2,
+      'full name': 'Grace',
+      status: 'closed',
+      joined: '2024-02-01',
+      tags: [],
+      owner: { name: 'Grace' },
+      score: null,
+    },
+    {
+      id: 3,
+      'full name': "O'Neil",
+      status: 'open',
+      joined: '2024-03-01',
+      tags: ['b', 2],
+      owner: { name: 'Linus' },
+    },
+    {
+      id: 4,
+      'full name': 'Dennis',
+      status: 'closed',
+      joined: '2024-04-01',
+      tags: [],
+      owner: { name: 'Dennis' },
+    },
+  ]);
+
+  test('Name types after the data file', () => {
+    assert.strictEqual(toTypeName('sales-q1.csv'), 'SalesQ1');
+    assert.strictEqual(toTypeName('/data/order_items.json'), 'OrderItems');
+    assert.strictEqual(toTypeName('2024 report.xlsx'), '_2024Report');
+    assert.strictEqual(toTypeName('-.csv'), 'Record');
+  });
+
+  test('Generate TypeScript interfaces', () => {
+    assert.strictEqual(
+      generateTypeScript(schema, 'Person', 'people.json'),
+      [
+        '// Generated by DataMorph from people.json',
+        '',
+        'export interface Person {',
+        '  id: number;',
+        "  'full name': string;",
+        "  status: 'closed' | 'open';",
+        '  joined: string;',
+        '  tags: (string | number)[];',
+        '  owner: PersonOwner;',
+        '  score?: number | null;',
+        '}',
+        '',
+        'export interface PersonOwner {',
+        '  name: string;',
+        '  address?: PersonOwnerAddress;',
+        '}',
+        '',
+        'export interface PersonOwnerAddress {',
+        '  city: string;',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('Generate a Zod schema', () => {
+    assert.strictEqual(
+      generateZod(schema, 'Person'),
+      [
+        "import { z } from 'zod';",
+        '',
+        'export const personSchema = z.object({',
+        '  id: z.number().int(),',
+        "  'full name': z.string(),",
+        "  status: z.enum(['closed', 'open']),",
+        '  joined: z.string().date(),',
+        '  tags: z.array(z.union([z.string(), z.number().int()])),',
+        '  owner: z.object({',
+        '    name: z.string(),',
+        '    address: z.object({',
+        '      city: z.string(),',
+        '    }).optional(),',
+        '  }),',
+        '  score: z.number().nullable().optional(),',
+        '});',
+        '',
+        'export type Person = z.infer<typeof personSchema>;',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { createDataset } from '../dataset';
+import { generateSchema } from '../jsonSchema';
+import {
+  applyInvalidRecordPolicy,
+  findSchemaPath,
+  getQuarantinePath,
+  locateDelimitedRecords,
+  locateJsonRecords,
+  validateRecords,
+} from '../validation';
+
+suite('DataMorph Validation Tests', () => {
+  const schema = generateSchema([
+    { id: 1, email: 'ada@example.com', status: 'open' },
+    { id: 2, email: 'grace@example.com', status: 'open' },
+  ]);
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-validation-tests-' + Date.now());
+    fs.mkdirSync(path.join(tempDir, 'exports'), { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Find the schema of a file by pattern or sidecar file', () => {
+    const csvPath = path.join(tempDir, 'exports', 'orders.csv');
+    const associations = {
+      'exports/*.csv': 'schemas/orders.schema.json',
+      '*.tsv': 'schemas/any.schema.json',
+    };
+
+    assert.strictEqual(
+      findSchemaPath(csvPath, associations, tempDir),
+      path.join(tempDir, 'schemas', 'orders.schema.json')
+    );
+    assert.strictEqual(
+      findSchemaPath(
+        path.join(tempDir, 'exports', 'orders.tsv'),
+        associations,
+        tempDir
+      ),
+      path.join(tempDir, 'schemas', 'any.schema.json'),
+      'Patterns without a slash match file names in any folder'
+    );
+    assert.strictEqual(findSchemaPath(csvPath, {}, tempDir), undefined);
+
+    fs.writeFileSync(
+      path.join(tempDir, 'exports', 'orders.schema.json'),
+      JSON.stringify(schema)
+    );
+    assert.strictEqual(
+      findSchemaPath(csvPath, {}, tempDir),
+      path.join(tempDir, 'exports', 'orders.schema.json')
+    );
+    assert.strictEqual(
+      findSchemaPath(path.join(tempDir, 'exports', 'orders.schema.json')),
+      undefined,
+      'Schema files are not validated'
+    );
+  });
+
+  test('Report the records and fields that do not match', () => {
+    assert.deepStrictEqual(
+      validateRecords(
+        [
+          { id: 1, email: 'ada@example.com', status: 'open' },
+          { id: 'two', email: 'not an email', status: 'open' },
+          { email: 'linus@example.com', status: 'closed' },
+        ],
+        schema
+      ),
+      [
+        { record: 1, field: 'id', message: 'id must be integer' },
+        {
+          record: 1,
+          field: 'email',
+          message: 'email must match format "email"',
+        },
+        {
+          record: 2,
+          field: 'id',
+          message: "must have required property 'id'",
+        },
+        {
+          record: 2,
+          field: 'status',
+          message: 'status must be equal to one of the allowed values',
+        },
+      ]
+    );
+    assert.deepStrictEqual(
+      validateRecords([{ id: 1.5 }], {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'object',
+        properties: { id: { type: 'integer' } },
+      }),
+      [{ record: 0, field: 'id', message: 'id must be integer' }],
+      'Schemas of a single record apply to each record'
+    );
+  });
+
+  test('Refuse or quarantine invalid records', () => {
+    const dataset = createDataset([
+      { id: 1, email: 'ada@example.com', status: 'open' },
+      { id: 2, email: 'grace', status: 'open' },
+    ]);
+    const outputPath = path.join(tempDir, 'people.xlsx');
+    const quarantinePath = getQuarantinePath(outputPath);
+
+    assert.strictEqual(
+      applyInvalidRecordPolicy(dataset, schema, 'keep', quarantinePath),
+      dataset
+    );
+    assert.throws(
+      () => applyInvalidRecordPolicy(dataset, schema, 'refuse', quarantinePath),
+      /1 validation errors \(record 2: email must match format "email"\)/
+    );
+
+    const valid = applyInvalidRecordPolicy(
+      dataset,
+      schema,
+      'quarantine',
+      quarantinePath
+    );
+    assert.deepStrictEqual(valid.rows, [dataset.rows[0]]);
+    assert.strictEqual(
+      quarantinePath,
+      path.join(tempDir, 'people.invalid.json')
+    );
+    assert.deepStrictEqual(
+      JSON.parse(fs.readFileSync(quarantinePath, 'utf8')),
+      [
+        {
+          record: 2,
+          errors: ['email must match format "email"'],
+          data: dataset.rows[1],
+        },
+      ]
+    );
+  });
+
+  test('Locate the cells of delimited and JSON records', () => {
+    const csv = 'id,"full,name"\r\n1,"Ada\nLovelace"\r\n\r\n2,Grace\r\n';
+    const csvLocations = locateDelimitedRecords(csv, ',');
+    assert.deepStrictEqual(
+      csvLocations.map(location =>
+        Object.entries(location.fields).map(([field, span]) => [
+          field,
+          csv.slice(span.start, span.end),
+        ])
+      ),
+      [
+        [
+          ['id', '1'],
+          ['full,name', '"Ada\nLovelace"'],
+        ],
+        [
+          ['id', '2'],
+          ['full,name', 'Grace'],
+        ],
+      ]
+    );
+
+    const json = '[\n  {"id": 1, "tags": ["a", "]"]},\n  {"id": 2}\n]';
+    const jsonLocations = locateJsonRecords(json);
+    assert.deepStrictEqual(
+      jsonLocations.map(({ record, fields }) => [
+        json.slice(record.start, record.end),
+        Object.keys(fields),
+        fields.tags && json.slice(fields.tags.start, fields.tags.end),
+      ]),
+      [
+        ['{"id": 1, "tags": ["a", "]"]}', ['id', 'tags'], '"tags": ["a", "]"]'],
+        ['{"id": 2}', ['id'], undefined],
+      ]
+    );
+    assert.deepStrictEqual(locateJsonRecords('{"items": []}'), []);
+  });
+});
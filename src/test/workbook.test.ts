@@ -0,0 +1,239 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import * as XLSX from 'xlsx';
+import { getOutputPath, getSheetOutputPath } from '../formatRegistry';
+import { formatRegistry } from '../formats';
+import {
+  combineFiles,
+  convertFile,
+  getConversionOutputPaths,
+} from '../conversion';
+import {
+  listSheetNames,
+  readSheet,
+  toSheetName,
+  writeSingleSheet,
+} from '../formats/excel';
+import { createDataset } from '../dataset';
+
+suite('DataMorph Workbook Tests', () => {
+  let tempDir: string;
+  let workbookPath: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-workbook-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+
+    // A workbook with two sheets of different shape
+    workbookPath = path.join(tempDir, 'report.xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet([{ id: 1, name: 'Ada' }]),
+      'People'
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet([{ sku: 'A1' }, { sku: 'B2' }]),
+      'Orders|Q1'
+    );
+    XLSX.writeFile(workbook, workbookPath);
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('List and read individual sheets', () => {
+    assert.deepStrictEqual(listSheetNames(workbookPath), [
+      'People',
+      'Orders|Q1',
+    ]);
+    assert.deepStrictEqual(readSheet(workbookPath).rows, [
+      { id: 1, name: 'Ada' },
+    ]);
+    assert.strictEqual(readSheet(workbookPath, 'Orders|Q1').rows.length, 2);
+    assert.throws(
+      () => readSheet(workbookPath, 'Missing'),
+      /Sheet "Missing" not found in report\.xlsx/
+    );
+  });
+
+  test('Convert a selected sheet', async () => {
+    const outputPath = path.join(tempDir, 'selected.json');
+
+    await convertFile(workbookPath, 'json', outputPath, {
+      read: { sheet: 'Orders|Q1' },
+      write: { indentation: 0 },
+    });
+
+    assert.strictEqual(
+      fs.readFileSync(outputPath, 'utf8'),
+      '[{"sku":"A1"},{"sku":"B2"}]'
+    );
+  });
+
+  test('Convert all sheets to a JSON object keyed by sheet name', async () => {
+    const outputPath = path.join(tempDir, 'report.json');
+
+    const result = await convertFile(workbookPath, 'json', outputPath, {
+      read: {},
+      write: { indentation: 0 },
+      allSheets: true,
+    });
+
+    assert.deepStrictEqual(result.outputPaths, [outputPath]);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(outputPath, 'utf8')), {
+      People: [{ id: 1, name: 'Ada' }],
+      'Orders|Q1': [{ sku: 'A1' }, { sku: 'B2' }],
+    });
+  });
+
+  test('Convert all sheets to one CSV file per sheet', async () => {
+    const outputPath = path.join(tempDir, 'report.csv');
+    const expected = [
+      path.join(tempDir, 'report.People.csv'),
+      path.join(tempDir, 'report.Orders_Q1.csv'),
+    ];
+
+    assert.deepStrictEqual(
+      await getConversionOutputPaths(workbookPath, 'csv', outputPath, true),
+      expected
+    );
+
+    const result = await convertFile(workbookPath, 'csv', outputPath, {
+      read: {},
+      write: {},
+      allSheets: true,
+    });
+
+    assert.deepStrictEqual(result.outputPaths, expected);
+    assert.strictEqual(fs.existsSync(outputPath), false);
+    assert.strictEqual(fs.readFileSync(expected[1], 'utf8'), 'sku\nA1\nB2\n');
+  });
+
+  test('Build sheet output paths', () => {
+    assert.strictEqual(
+      getSheetOutputPath('/data/report.csv', 'Sales: 2024?'),
+      '/data/report.Sales_ 2024_.csv'
+    );
+  });
+
+  test('Write a JSON object of arrays as one sheet per key', async () => {
+    const jsonPath = path.join(tempDir, 'export.json');
+    const outputPath = path.join(tempDir, 'export.xlsx');
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify({
+        users: [{ id: 1, name: 'Ada' }],
+        orders: [{ id: 10, user: 1 }],
+      })
+    );
+
+    await convertFile(jsonPath, 'excel', outputPath, {
+      read: { recordPath: 'auto' },
+      write: {},
+    });
+
+    assert.deepStrictEqual(listSheetNames(outputPath), ['users', 'orders']);
+    assert.deepStrictEqual(readSheet(outputPath, 'orders').rows, [
+      { id: 10, user: 1 },
+    ]);
+  });
+
+  test('Write a single sheet when a record path is given', async () => {
+    const jsonPath = path.join(tempDir, 'export.json');
+    const outputPath = path.join(tempDir, 'users.xlsx');
+
+    await convertFile(jsonPath, 'excel', outputPath, {
+      read: { recordPath: '$.users' },
+      write: {},
+    });
+
+    assert.deepStrictEqual(listSheetNames(outputPath), ['Sheet1']);
+  });
+
+  test('Combine files into one workbook', async () => {
+    const csvPath = path.join(tempDir, 'people.csv');
+    const jsonPath = path.join(tempDir, 'people.json');
+    const outputPath = path.join(tempDir, 'combined.xlsx');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n');
+    fs.writeFileSync(jsonPath, JSON.stringify([{ id: 2, name: 'Grace' }]));
+
+    await combineFiles([csvPath, jsonPath], 'excel', outputPath, {
+      read: { preserveTypes: true },
+      write: {},
+    });
+
+    assert.deepStrictEqual(listSheetNames(outputPath), [
+      'people',
+      'people (2)',
+    ]);
+    assert.deepStrictEqual(readSheet(outputPath, 'people (2)').rows, [
+      { id: 2, name: 'Grace' },
+    ]);
+  });
+
+  test('Write workbooks as .xls, .ods and .xlsb', async () => {
+    const csvPath = path.join(tempDir, 'flavors.csv');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n2,Grace\n');
+    const excel = formatRegistry.get('excel')!;
+
+    for (const excelFlavor of ['xls', 'ods', 'xlsb'] as const) {
+      const outputPath = getOutputPath(csvPath, excel, { excelFlavor });
+      assert.strictEqual(path.extname(outputPath), `.${excelFlavor}`);
+
+      await convertFile(csvPath, 'excel', outputPath, {
+        read: { preserveTypes: true },
+        write: { excelFlavor },
+      });
+
+      assert.strictEqual(
+        formatRegistry.getByPath(outputPath)?.id,
+        'excel',
+        `.${excelFlavor} files should be read as workbooks`
+      );
+      assert.deepStrictEqual(readSheet(outputPath).rows, [
+        { id: 1, name: 'Ada' },
+        { id: 2, name: 'Grace' },
+      ]);
+    }
+    assert.ok(
+      fs
+        .readFileSync(path.join(tempDir, 'flavors.ods'), 'latin1')
+        .includes('application/vnd.oasis.opendocument.spreadsheet'),
+      'Should write an OpenDocument spreadsheet'
+    );
+    assert.strictEqual(
+      fs.readFileSync(path.join(tempDir, 'flavors.xls')).readUInt32BE(0),
+      0xd0cf11e0,
+      'Should write a legacy compound document'
+    );
+  });
+
+  test('Refuse sheets too large for .xls workbooks', () => {
+    const dataset = createDataset([
+      Object.fromEntries(Array.from({ length: 300 }, (_, i) => [`c${i}`, i])),
+    ]);
+
+    assert.throws(
+      () => writeSingleSheet(dataset, path.join(tempDir, 'wide.xls')),
+      /more than the 65536 rows or 256 columns/
+    );
+  });
+
+  test('Make valid worksheet names', () => {
+    assert.strictEqual(toSheetName('Q1/Q2 [draft]'), 'Q1_Q2 _draft_');
+    assert.strictEqual(toSheetName('Sales', ['sales']), 'Sales (2)');
+    assert.strictEqual(toSheetName('x'.repeat(40)).length, 31);
+  });
+});
@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import {
+  CancellationError,
+  CancellationLike,
+  disposeWorkerPool,
+  TaskProgress,
+  WorkerPool,
+} from '../workerPool';
+import { runConversion } from '../conversion';
+
+// Cancellation token that can be triggered from the test
+class TestCancellationSource {
+  private _listeners: Array<() => void> = [];
+  public readonly token: CancellationLike = {
+    isCancellationRequested: false,
+    onCancellationRequested: listener => {
+      this._listeners.push(listener);
+      return { dispose: () => {} };
+    },
+  };
+
+  public cancel(): void {
+    this.token.isCancellationRequested = true;
+    this._listeners.forEach(listener => listener());
+  }
+}
+
+suite('DataMorph Worker Pool Tests', () => {
+  let tempDir: string;
+  let pool: WorkerPool;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-worker-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+    pool = new WorkerPool(path.join(__dirname, '../conversionWorker.js'), 2);
+  });
+
+  suiteTeardown(() => {
+    pool.dispose();
+    disposeWorkerPool();
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Run legacy operations on a worker', async function () {
+    this.timeout(10000);
+
+    const result = await pool.run<any[]>({
+      operation: 'csvToJson',
+      data: 'id,name\n1,Ada\n',
+    });
+
+    assert.deepStrictEqual(result, [{ id: 1, name: 'Ada' }]);
+  });
+
+  test('Convert files and report progress', async function () {
+    this.timeout(10000);
+
+    const csvPath = path.join(tempDir, 'people.csv');
+    const excelPath = path.join(tempDir, 'people.xlsx');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n2,Grace\n');
+
+    const reports: TaskProgress[] = [];
+    await pool.run(
+      {
+        operation: 'convertFile',
+        sourcePath: csvPath,
+        targetFormatId: 'excel',
+        outputPath: excelPath,
+        options: { read: { preserveTypes: true }, write: {} },
+      },
+      { onProgress: progress => reports.push(progress) }
+    );
+
+    assert.strictEqual(fs.existsSync(excelPath), true, 'Should write Excel');
+    assert.strictEqual(
+      reports.reduce((total, report) => total + (report.increment ?? 0), 0),
+      100,
+      'Progress increments should add up to 100'
+    );
+
+    const sheets = await pool.run<any[]>({
+      operation: 'readWorkbook',
+      filePath: excelPath,
+    });
+    assert.strictEqual(sheets[0].dataset.rows[1].name, 'Grace');
+  });
+
+  test('Surface task errors', async function () {
+    this.timeout(10000);
+
+    await assert.rejects(
+      pool.run({ operation: 'jsonToCsv', data: '42' }),
+      /Invalid JSON structure/
+    );
+  });
+
+  test('Cancel a running task', async function () {
+    this.timeout(10000);
+
+    const source = new TestCancellationSource();
+    const task = pool.run(
+      { operation: 'csvToJson', data: 'a,b\n'.repeat(200000) },
+      { token: source.token }
+    );
+    source.cancel();
+
+    await assert.rejects(task, CancellationError);
+
+    // The pool replaces the terminated worker
+    const result = await pool.run<any[]>({
+      operation: 'csvToJson',
+      data: 'a,b\n1,2\n',
+    });
+    assert.deepStrictEqual(result, [{ a: 1, b: 2 }]);
+  });
+
+  test('Keep existing files when a worker conversion is cancelled', async function () {
+    this.timeout(20000);
+
+    const csvPath = path.join(tempDir, 'large.csv');
+    const jsonPath = path.join(tempDir, 'large.json');
+    fs.writeFileSync(csvPath, 'id,name\n' + '1,Ada\n'.repeat(300000));
+    fs.writeFileSync(jsonPath, '[]');
+
+    // Cancelled once the worker has started writing the streamed output
+    const source = new TestCancellationSource();
+    const conversion = runConversion(
+      csvPath,
+      'json',
+      jsonPath,
+      {
+        read: { preserveTypes: true },
+        write: {},
+        streamThresholdBytes: 0,
+        onProgress: progress => {
+          if (progress.increment && !source.token.isCancellationRequested) {
+            source.cancel();
+          }
+        },
+      },
+      true,
+      source.token
+    );
+
+    await assert.rejects(conversion, CancellationError);
+    assert.strictEqual(fs.readFileSync(jsonPath, 'utf8'), '[]');
+    assert.deepStrictEqual(
+      fs.readdirSync(tempDir).filter(name => name.startsWith('.')),
+      []
+    );
+
+    // Finished conversions replace the file
+    await runConversion(
+      csvPath,
+      'json',
+      jsonPath,
+      { read: { preserveTypes: true }, write: {}, streamThresholdBytes: 0 },
+      true
+    );
+    assert.strictEqual(
+      JSON.parse(fs.readFileSync(jsonPath, 'utf8')).length,
+      300000
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { createDataset } from '../dataset';
+import { convertFile } from '../conversion';
+import { parseXml, serializeXml, toXmlName } from '../formats/xml';
+
+suite('DataMorph XML Tests', () => {
+  const catalog = `<?xml version="1.0" encoding="UTF-8"?>
+<catalog>
+  <info><title>Books</title></info>
+  <book id="b1" lang="en">
+    <title>Dune</title>
+    <price>9.99</price>
+    <isbn>0441013597</isbn>
+  </book>
+  <book id="b2">
+    <title>Emma</title>
+    <price>4.5</price>
+    <author><name>Austen</name></author>
+  </book>
+</catalog>`;
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-xml-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Read repeated elements as rows', () => {
+    const dataset = parseXml(catalog);
+
+    assert.deepStrictEqual(dataset.rows, [
+      {
+        title: 'Dune',
+        price: 9.99,
+        isbn: '0441013597',
+        '@id': 'b1',
+        '@lang': 'en',
+      },
+      { title: 'Emma', price: 4.5, author: { name: 'Austen' }, '@id': 'b2' },
+    ]);
+    assert.strictEqual(
+      dataset.rows[0].isbn,
+      '0441013597',
+      'Numbers with leading zeros should stay text'
+    );
+  });
+
+  test('Read a configured record element', () => {
+    const dataset = parseXml(catalog, 'title', false);
+
+    assert.deepStrictEqual(dataset.rows, [
+      { '#text': 'Books' },
+      { '#text': 'Dune' },
+      { '#text': 'Emma' },
+    ]);
+    assert.deepStrictEqual(
+      parseXml('<list><item>1</item></list>', 'item').rows,
+      [{ '#text': 1 }],
+      'A single record element should be one row'
+    );
+    assert.throws(() => parseXml(catalog, 'movie'), /No <movie> elements/);
+  });
+
+  test('Read a document without repeated elements as one record', () => {
+    assert.deepStrictEqual(
+      parseXml('<records><record><a>1</a><b>x</b></record></records>').rows,
+      [{ a: 1, b: 'x' }]
+    );
+    assert.throws(() => parseXml('<a><b></a>'), /Invalid XML/);
+  });
+
+  test('Write records with configurable element names', () => {
+    const dataset = createDataset([
+      { '@id': 1, name: 'Ada & Co', address: { city: 'London' }, note: null },
+    ]);
+
+    assert.strictEqual(
+      serializeXml(dataset, 'people', 'person', 0),
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+        '<people><person id="1"><name>Ada &amp; Co</name>' +
+        '<address><city>London</city></address><note/></person></people>'
+    );
+  });
+
+  test('Make valid element names', () => {
+    assert.strictEqual(toXmlName('tags[0]'), 'tags_0_');
+    assert.strictEqual(toXmlName('first name'), 'first_name');
+    assert.strictEqual(toXmlName('2024'), '_2024');
+    assert.strictEqual(toXmlName('address.city'), 'address.city');
+  });
+
+  test('Convert CSV to XML and back', async () => {
+    const csvPath = path.join(tempDir, 'people.csv');
+    const xmlPath = path.join(tempDir, 'people.xml');
+    const jsonPath = path.join(tempDir, 'people.json');
+    fs.writeFileSync(csvPath, 'id,name\n1,Ada\n2,Grace\n');
+
+    await convertFile(csvPath, 'xml', xmlPath, {
+      read: { preserveTypes: true },
+      write: { indentation: 2 },
+    });
+    await convertFile(xmlPath, 'json', jsonPath, {
+      read: {},
+      write: { indentation: 0 },
+    });
+
+    assert.ok(fs.readFileSync(xmlPath, 'utf8').includes('<record>'));
+    assert.strictEqual(
+      fs.readFileSync(jsonPath, 'utf8'),
+      '[{"id":1,"name":"Ada"},{"id":2,"name":"Grace"}]'
+    );
+  });
+});
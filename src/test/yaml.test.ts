@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { createDataset } from '../dataset';
+import { convertFile } from '../conversion';
+import { formatRegistry } from '../formats';
+import {
+  isTransformationConfig,
+  parseYaml,
+  parseYamlDocument,
+  serializeYaml,
+} from '../formats/yaml';
+
+suite('DataMorph YAML Tests', () => {
+  const transformRules = `transformations:
+  - name: 'Adults only'
+    condition: 'data.age >= 18'
+`;
+
+  let tempDir: string;
+
+  suiteSetup(() => {
+    tempDir = path.join(tmpdir(), 'datamorph-yaml-tests-' + Date.now());
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  suiteTeardown(() => {
+    // Clean up temporary files after tests
+    try {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.error('Error during test cleanup:', err);
+    }
+  });
+
+  test('Parse YAML lists and wrapped records', () => {
+    const yaml = `
+meta:
+  page: 1
+items:
+  - id: 1
+    zip: '01234'
+    joined: 2024-01-02
+  - id: 2
+    active: true
+`;
+
+    assert.deepStrictEqual(parseYaml(yaml, 'auto').rows, [
+      { id: 1, zip: '01234', joined: '2024-01-02' },
+      { id: 2, active: true },
+    ]);
+    assert.deepStrictEqual(
+      parseYaml(yaml, '$.items', false).rows[1],
+      { id: '2', active: 'true' },
+      'Scalars should stay text when types are not preserved'
+    );
+  });
+
+  test('Read a stream of documents as a list', () => {
+    assert.deepStrictEqual(parseYamlDocument('a: 1\n---\na: 2\n'), [
+      { a: 1 },
+      { a: 2 },
+    ]);
+    assert.throws(() => parseYamlDocument(''), /empty/);
+  });
+
+  test('Serialize records to YAML', () => {
+    const dataset = createDataset([
+      { id: 1, tags: ['a', 'b'], note: null },
+      { id: 2, address: { city: 'Austin' } },
+    ]);
+
+    assert.strictEqual(
+      serializeYaml(dataset),
+      '- id: 1\n' +
+        '  tags:\n' +
+        '    - a\n' +
+        '    - b\n' +
+        '  note: null\n' +
+        '- id: 2\n' +
+        '  address:\n' +
+        '    city: Austin\n'
+    );
+  });
+
+  test('Recognize transformation rule files', async () => {
+    const rulesPath = path.join(tempDir, 'rules.yaml');
+    const dataPath = path.join(tempDir, 'data.yml');
+    fs.writeFileSync(rulesPath, transformRules);
+    fs.writeFileSync(dataPath, '- id: 1\n');
+    const format = formatRegistry.getByPath(rulesPath);
+
+    assert.strictEqual(isTransformationConfig({ transformations: [] }), true);
+    assert.strictEqual(isTransformationConfig([{ id: 1 }]), false);
+    assert.strictEqual(format?.isData?.(rulesPath), false);
+    assert.strictEqual(format?.isData?.(dataPath), true);
+    await assert.rejects(
+      convertFile(rulesPath, 'json', path.join(tempDir, 'rules.json'), {
+        read: {},
+        write: {},
+      }),
+      /rules\.yaml is a YAML transformation file, not data/
+    );
+  });
+
+  test('Convert YAML to CSV and a JSON object of arrays to YAML', async () => {
+    const yamlPath = path.join(tempDir, 'people.yaml');
+    const csvPath = path.join(tempDir, 'people.csv');
+    const jsonPath = path.join(tempDir, 'export.json');
+    const outputPath = path.join(tempDir, 'export.yaml');
+    fs.writeFileSync(
+      yamlPath,
+      '- name: Ada\n  address:\n    city: London\n- name: Grace\n'
+    );
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify({ users: [{ id: 1 }], orders: [{ id: 10 }] })
+    );
+
+    await convertFile(yamlPath, 'csv', csvPath, {
+      read: { recordPath: 'auto' },
+      write: {
+        flatten: {
+          separator: '.',
+          arrays: 'index',
+          arrayJoiner: ';',
+          maxDepth: 0,
+        },
+      },
+    });
+    await convertFile(jsonPath, 'yaml', outputPath, {
+      read: { recordPath: 'auto' },
+      write: { indentation: 2 },
+    });
+
+    assert.strictEqual(
+      fs.readFileSync(csvPath, 'utf8'),
+      'name,address.city\nAda,London\nGrace,\n'
+    );
+    assert.strictEqual(
+      fs.readFileSync(outputPath, 'utf8'),
+      'users:\n  - id: 1\norders:\n  - id: 10\n'
+    );
+  });
+});
@@ -0,0 +1,221 @@
+import * as path from 'path';
+import { JsonSchema } from './jsonSchema';
+
+/**
+ * Code generated from the schema of a data file: TypeScript interfaces or
+ * a Zod schema
+ */
+export type TypeOutput = 'typescript' | 'zod';
+
+export const TYPE_OUTPUTS: Record<TypeOutput, string> = {
+  typescript: 'TypeScript interfaces',
+  zod: 'Zod schema',
+};
+
+const quote = (value: string) =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+const propertyName = (name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+
+const literal = (value: unknown) =>
+  typeof value === 'string' ? quote(value) : JSON.stringify(value);
+
+const typesOf = (schema: JsonSchema): string[] =>
+  Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+/**
+ * Get a type name from the name of a data file, e.g. `SalesQ1` for
+ * `sales-q1.csv`
+ * @param fileName The file name, with or without extension
+ */
+export function toTypeName(fileName: string): string {
+  const words = path
+    .basename(fileName, path.extname(fileName))
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  const name = words
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^\d/.test(name) ? `_${name}` : name || 'Record';
+}
+
+/**
+ * The schema of the records of a data file: the items of an array schema,
+ * such as the generated ones, or the schema itself
+ */
+const recordSchema = (schema: JsonSchema): JsonSchema =>
+  typesOf(schema).includes('array') && schema.items ? schema.items : schema;
+
+/**
+ * Generate TypeScript interfaces for the records described by a JSON
+ * Schema. Fields that records leave out are optional, fields that hold
+ * nulls are nullable, enums become unions of literal types and nested
+ * objects get interfaces of their own.
+ * @param schema The schema, e.g. one generated for a data file
+ * @param typeName Name of the record interface
+ * @param source Name of the data file, for the header comment
+ */
+export function generateTypeScript(
+  schema: JsonSchema,
+  typeName: string,
+  source?: string
+): string {
+  const interfaces: string[] = [];
+  const usedNames = new Set<string>();
+
+  const declareInterface = (object: JsonSchema, name: string): string => {
+    let unique = name;
+    for (let i = 2; usedNames.has(unique); i++) {
+      unique = `${name}${i}`;
+    }
+    usedNames.add(unique);
+
+    // Nested interfaces follow the interface that uses them
+    const index = interfaces.length;
+    interfaces.push('');
+    const required: string[] = object.required ?? [];
+    const fields = Object.entries<JsonSchema>(object.properties).map(
+      ([key, property]) => {
+        const optional = required.includes(key) ? '' : '?';
+        const type = renderType(property, unique + toTypeName(key));
+        return `  ${propertyName(key)}${optional}: ${type};`;
+      }
+    );
+    interfaces[index] = `export interface ${unique} {\n${fields.join('\n')}\n}`;
+    return unique;
+  };
+
+  const renderType = (property: JsonSchema, name: string): string => {
+    const types = typesOf(property).map(type => {
+      switch (type) {
+        case 'string': {
+          const values = (property.enum ?? []).filter(
+            (value: unknown) => value !== null
+          );
+          return values.length > 0 ? values.map(literal).join(' | ') : type;
+        }
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'array': {
+          if (!property.items) {
+            return 'unknown[]';
+          }
+          const items = renderType(property.items, `${name}Item`);
+          return items.includes(' | ') ? `(${items})[]` : `${items}[]`;
+        }
+        case 'object':
+          return property.properties
+            ? declareInterface(property, name)
+            : 'Record<string, unknown>';
+        default:
+          return type;
+      }
+    });
+    return types.length > 0 ? [...new Set(types)].join(' | ') : 'unknown';
+  };
+
+  const root = recordSchema(schema);
+  if (root.properties) {
+    declareInterface(root, typeName);
+  } else {
+    interfaces.push(`export type ${typeName} = ${renderType(root, typeName)};`);
+  }
+  return (
+    (source ? `// Generated by DataMorph from ${source}\n\n` : '') +
+    interfaces.join('\n\n') +
+    '\n'
+  );
+}
+
+/** Zod refinements of the string formats found in the data */
+const ZOD_FORMATS: Record<string, string> = {
+  'date-time': '.datetime({ offset: true })',
+  date: '.date()',
+  email: '.email()',
+  uri: '.url()',
+};
+
+/**
+ * Render the Zod schema of a value at the given indentation
+ */
+function renderZod(property: JsonSchema, indent: string): string {
+  const types = typesOf(property);
+  const rendered = types
+    .filter(type => type !== 'null')
+    .map(type => {
+      switch (type) {
+        case 'string': {
+          const values = (property.enum ?? []).filter(
+            (value: unknown) => value !== null
+          );
+          return values.length > 0
+            ? `z.enum([${values.map(literal).join(', ')}])`
+            : `z.string()${ZOD_FORMATS[property.format] ?? ''}`;
+        }
+        case 'integer':
+          return 'z.number().int()';
+        case 'number':
+          return 'z.number()';
+        case 'boolean':
+          return 'z.boolean()';
+        case 'array':
+          return `z.array(${
+            property.items ? renderZod(property.items, indent) : 'z.unknown()'
+          })`;
+        case 'object':
+          return property.properties
+            ? renderZodObject(property, indent)
+            : 'z.record(z.unknown())';
+        default:
+          return 'z.unknown()';
+      }
+    });
+
+  if (rendered.length === 0) {
+    return types.includes('null') ? 'z.null()' : 'z.unknown()';
+  }
+  const schema =
+    rendered.length > 1 ? `z.union([${rendered.join(', ')}])` : rendered[0];
+  return types.includes('null') ? `${schema}.nullable()` : schema;
+}
+
+function renderZodObject(object: JsonSchema, indent: string): string {
+  const inner = indent + '  ';
+  const required: string[] = object.required ?? [];
+  const fields = Object.entries<JsonSchema>(object.properties).map(
+    ([key, property]) =>
+      `${inner}${propertyName(key)}: ${renderZod(property, inner)}${
+        required.includes(key) ? '' : '.optional()'
+      },`
+  );
+  return `z.object({\n${fields.join('\n')}\n${indent}})`;
+}
+
+/**
+ * Generate a Zod schema for the records described by a JSON Schema, with
+ * the TypeScript type inferred from it. Fields that records leave out are
+ * optional, fields that hold nulls are nullable, enums become `z.enum`s and
+ * string formats become refinements.
+ * @param schema The schema, e.g. one generated for a data file
+ * @param typeName Name of the record type; the schema is named after it
+ * @param source Name of the data file, for the header comment
+ */
+export function generateZod(
+  schema: JsonSchema,
+  typeName: string,
+  source?: string
+): string {
+  const schemaName =
+    typeName.replace(/^[A-Z]/, letter => letter.toLowerCase()) + 'Schema';
+  return [
+    ...(source ? [`// Generated by DataMorph from ${source}`, ''] : []),
+    "import { z } from 'zod';",
+    '',
+    `export const ${schemaName} = ${renderZod(recordSchema(schema), '')};`,
+    '',
+    `export type ${typeName} = z.infer<typeof ${schemaName}>;`,
+    '',
+  ].join('\n');
+}
@@ -7,4 +7,26 @@ interface BufferSource {
   [key: string]: any;
 }
 
+// Define the browser types that the typings of sql.js, parquet-wasm and
+// apache-arrow refer to without the DOM library
+interface Navigator {}
+interface WebGLRenderingContext {}
+type QueuingStrategy<T = any> = import('stream/web').QueuingStrategy<T>;
+declare namespace WebAssembly {
+  type Imports = Record<string, Record<string, unknown>>;
+  type Exports = Record<string, unknown>;
+  interface Instance {
+    readonly exports: Exports;
+  }
+  interface Memory {
+    readonly buffer: ArrayBuffer;
+    grow(delta: number): number;
+  }
+  interface Table {
+    readonly length: number;
+    get(index: number): unknown;
+    grow(delta: number): number;
+  }
+}
+
 // Add any other global interfaces needed for third-party libraries here
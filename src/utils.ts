@@ -1,135 +1,50 @@
 import * as fs from 'fs';
-import * as XLSX from 'xlsx';
-import * as Papa from 'papaparse';
-import { parse as csvParse } from 'csv-parse/sync';
-import { stringify as csvStringify } from 'csv-stringify/sync';
-
-// File type detection
-export const detectFileType = (
-  filePath: string
-): 'csv' | 'json' | 'excel' | 'unknown' => {
-  const extension = filePath.toLowerCase().split('.').pop() || '';
-
-  switch (extension) {
-    case 'csv':
-      return 'csv';
-    case 'json':
-      return 'json';
-    case 'xlsx':
-    case 'xls':
-      return 'excel';
-    default:
-      return 'unknown';
-  }
+import { formatRegistry } from './formats';
+import { parseCsv, serializeCsv } from './formats/csv';
+import { parseJson, toSheets } from './formats/json';
+import { readSheet, writeSheets, writeSingleSheet } from './formats/excel';
+import { parseExactJson } from './precision';
+import {
+  DEFAULT_FLATTEN_OPTIONS,
+  FlattenOptions,
+  unflattenDataset,
+  UnflattenOptions,
+} from './flatten';
+import { getWorkerPool } from './workerPool';
+
+// The conversion helpers below are thin compositions of the format readers
+// and writers in ./formats, which all exchange a Dataset
+
+// File type detection, based on the extensions of the registered formats
+export const detectFileType = (filePath: string): string => {
+  return formatRegistry.getByPath(filePath)?.id ?? 'unknown';
 };
 
-// CSV to JSON conversion
+// CSV to JSON conversion; pass `unflatten` to rebuild nested objects from
+// dot-path headers and JSON cells
 export const csvToJson = async (
   csvString: string,
-  preserveTypes = true
+  preserveTypes = true,
+  unflatten?: UnflattenOptions
 ): Promise<any[]> => {
-  return new Promise((resolve, reject) => {
-    try {
-      // Use PapaParse for more robust CSV parsing
-      interface ParseResults {
-        data: Record<string, any>[];
-        errors: Array<{ message: string; [key: string]: any }>;
-      }
-
-      interface ParseError {
-        message: string;
-        [key: string]: any;
-      }
-
-      interface ParseConfig {
-        header: boolean;
-        dynamicTyping: boolean;
-        skipEmptyLines: boolean;
-        complete: (results: ParseResults) => void;
-        error: (error: ParseError) => void;
-      }
-
-      Papa.parse(csvString, {
-        header: true,
-        dynamicTyping: preserveTypes, // Convert strings to numbers/booleans where appropriate
-        skipEmptyLines: true,
-        complete: (results: ParseResults) => {
-          if (results.errors.length > 0) {
-            reject(
-              new Error(`CSV parsing error: ${results.errors[0].message}`)
-            );
-          } else {
-            resolve(results.data);
-          }
-        },
-        error: (error: ParseError) =>
-          reject(new Error(`CSV parsing error: ${error.message}`)),
-      } as ParseConfig);
-    } catch (error) {
-      reject(error);
-    }
-  });
+  const dataset = await parseCsv(csvString, preserveTypes);
+  return (unflatten ? unflattenDataset(dataset, unflatten) : dataset).rows;
 };
 
-// JSON to CSV conversion
+// JSON to CSV conversion; nested objects become dot-path columns unless
+// flattening is turned off with `flatten: null`, and `recordPath` selects
+// the records of a wrapped document
 export const jsonToCsv = async (
   jsonString: string,
-  delimiter = ','
+  delimiter = ',',
+  flatten: FlattenOptions | null = DEFAULT_FLATTEN_OPTIONS,
+  recordPath?: string
 ): Promise<string> => {
   try {
-    const jsonData = JSON.parse(jsonString);
-
-    // Handle array of objects
-    if (Array.isArray(jsonData)) {
-      if (jsonData.length === 0) {
-        return '';
-      }
-
-      // Get all unique keys from all objects in the array
-      const allKeys = new Set<string>();
-      jsonData.forEach(item => {
-        if (typeof item === 'object' && item !== null) {
-          Object.keys(item).forEach(key => allKeys.add(key));
-        }
-      });
-
-      // Flatten nested objects
-      const flattenedData = jsonData.map(item => {
-        const flatItem: Record<string, any> = {};
-
-        // Initialize with all keys to ensure consistent columns
-        [...allKeys].forEach(key => {
-          flatItem[key] = '';
-        });
-
-        // Copy values to flattened item
-        if (typeof item === 'object' && item !== null) {
-          Object.entries(item).forEach(([key, value]) => {
-            if (typeof value === 'object' && value !== null) {
-              flatItem[key] = JSON.stringify(value);
-            } else {
-              flatItem[key] = value;
-            }
-          });
-        }
-
-        return flatItem;
-      });
-
-      // Use csv-stringify for reliable CSV generation
-      return csvStringify(flattenedData, {
-        header: true,
-        delimiter,
-      });
-    }
-
-    // Handle single object (convert to array with one item)
-    else if (typeof jsonData === 'object' && jsonData !== null) {
-      return await jsonToCsv(JSON.stringify([jsonData]), delimiter);
-    }
-
-    throw new Error(
-      'Invalid JSON structure. Expected an array of objects or a single object.'
+    return serializeCsv(
+      parseJson(jsonString, recordPath),
+      delimiter,
+      flatten ?? undefined
     );
   } catch (error) {
     throw new Error(
@@ -138,17 +53,16 @@ export const jsonToCsv = async (
   }
 };
 
-// Excel to JSON conversion
-export const excelToJson = async (filePath: string): Promise<any[]> => {
+// Excel to JSON conversion of one sheet, the first by default; pass
+// `unflatten` to rebuild nested objects from dot-path headers and JSON cells
+export const excelToJson = async (
+  filePath: string,
+  unflatten?: UnflattenOptions,
+  sheetName?: string
+): Promise<any[]> => {
   try {
-    // Read Excel file
-    const workbook = XLSX.readFile(filePath);
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-
-    // Convert to JSON
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: null });
-    return jsonData;
+    const dataset = readSheet(filePath, sheetName);
+    return (unflatten ? unflattenDataset(dataset, unflatten) : dataset).rows;
   } catch (error) {
     throw new Error(
       `Failed to convert Excel to JSON: ${(error as Error).message}`
@@ -156,20 +70,14 @@ export const excelToJson = async (filePath: string): Promise<any[]> => {
   }
 };
 
-// Excel to CSV conversion
+// Excel to CSV conversion of one sheet, the first by default
 export const excelToCsv = async (
   filePath: string,
-  delimiter = ','
+  delimiter = ',',
+  sheetName?: string
 ): Promise<string> => {
   try {
-    // Read Excel file
-    const workbook = XLSX.readFile(filePath);
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-
-    // Convert to CSV
-    const csvString = XLSX.utils.sheet_to_csv(worksheet, { FS: delimiter });
-    return csvString;
+    return serializeCsv(readSheet(filePath, sheetName), delimiter);
   } catch (error) {
     throw new Error(
       `Failed to convert Excel to CSV: ${(error as Error).message}`
@@ -177,38 +85,28 @@ export const excelToCsv = async (
   }
 };
 
-// JSON to Excel conversion
+// JSON to Excel conversion; an object of arrays becomes one worksheet per
+// key, nested objects become dot-path columns unless flattening is turned
+// off with `flatten: null`, and `recordPath` selects the records of a
+// wrapped document
 export const jsonToExcel = async (
   jsonFilePath: string,
-  outputPath: string
+  outputPath: string,
+  flatten: FlattenOptions | null = DEFAULT_FLATTEN_OPTIONS,
+  recordPath?: string
 ): Promise<void> => {
   try {
-    // Read JSON file
     const jsonString = fs.readFileSync(jsonFilePath, 'utf8');
-    const jsonData = JSON.parse(jsonString);
-
-    // Handle array of objects
-    if (Array.isArray(jsonData)) {
-      // Create workbook and worksheet
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(jsonData);
-
-      // Add worksheet to workbook
-      XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
-
-      // Write to file
-      XLSX.writeFile(workbook, outputPath);
-      return;
-    }
-
-    // Handle single object (convert to array with one item)
-    else if (typeof jsonData === 'object' && jsonData !== null) {
-      return await jsonToExcel(JSON.stringify([jsonData]), outputPath);
+    const sheets = recordPath ? [] : toSheets(parseExactJson(jsonString));
+    if (sheets.length > 0) {
+      writeSheets(sheets, outputPath, flatten ?? undefined);
+    } else {
+      writeSingleSheet(
+        parseJson(jsonString, recordPath),
+        outputPath,
+        flatten ?? undefined
+      );
     }
-
-    throw new Error(
-      'Invalid JSON structure. Expected an array of objects or a single object.'
-    );
   } catch (error) {
     throw new Error(
       `Failed to convert JSON to Excel: ${(error as Error).message}`
@@ -222,58 +120,8 @@ export const csvToExcel = async (
   outputPath: string
 ): Promise<void> => {
   try {
-    // Read CSV file
     const csvString = fs.readFileSync(csvFilePath, 'utf8');
-
-    // Use PapaParse to convert CSV to array of objects
-    const jsonData = await new Promise<any[]>((resolve, reject) => {
-      interface ParsingResults {
-        data: Record<string, any>[];
-        errors: Array<{
-          message: string;
-          [key: string]: any;
-        }>;
-      }
-
-      interface ParsingError {
-        message: string;
-        [key: string]: any;
-      }
-
-      interface ParsingConfig {
-        header: boolean;
-        dynamicTyping: boolean;
-        skipEmptyLines: boolean;
-        complete: (results: ParsingResults) => void;
-        error: (error: ParsingError) => void;
-      }
-
-      Papa.parse<Record<string, any>>(csvString, {
-        header: true,
-        dynamicTyping: true,
-        skipEmptyLines: true,
-        complete: (results: ParsingResults): void => {
-          if (results.errors.length > 0) {
-            reject(
-              new Error(`CSV parsing error: ${results.errors[0].message}`)
-            );
-          } else {
-            resolve(results.data);
-          }
-        },
-        error: (error: ParsingError): void => reject(error),
-      } as ParsingConfig);
-    });
-
-    // Create workbook and worksheet
-    const workbook = XLSX.utils.book_new();
-    const worksheet = XLSX.utils.json_to_sheet(jsonData);
-
-    // Add worksheet to workbook
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
-
-    // Write to file
-    XLSX.writeFile(workbook, outputPath);
+    writeSingleSheet(await parseCsv(csvString), outputPath);
   } catch (error) {
     throw new Error(
       `Failed to convert CSV to Excel: ${(error as Error).message}`
@@ -281,35 +129,22 @@ export const csvToExcel = async (
   }
 };
 
-// Web worker creation for heavy processing tasks
+// Run a conversion operation on the shared worker thread pool, so heavy
+// processing does not block the extension host
 export const createWebWorker = async (
   operation: string,
   data: string
 ): Promise<any> => {
-  // In a real extension, this would create a web worker
-  // However, VS Code extensions can't directly use web workers in the extension host process
-  // For now, we'll simulate a worker with a Promise
-  // In a production extension, you'd use the VS Code API's createWebviewPanel to run web workers
-  return new Promise((resolve, reject) => {
-    try {
-      setTimeout(() => {
-        switch (operation) {
-          case 'csvToJson':
-            csvToJson(data)
-              .then(result => resolve(result))
-              .catch(error => reject(error));
-            break;
-          case 'jsonToCsv':
-            jsonToCsv(data)
-              .then(result => resolve(result))
-              .catch(error => reject(error));
-            break;
-          default:
-            reject(new Error(`Unknown operation: ${operation}`));
-        }
-      }, 0);
-    } catch (error) {
-      reject(error);
-    }
-  });
+  switch (operation) {
+    case 'csvToJson':
+      return getWorkerPool().run({ operation, data });
+    case 'jsonToCsv':
+      return getWorkerPool().run({
+        operation,
+        data,
+        flatten: DEFAULT_FLATTEN_OPTIONS,
+      });
+    default:
+      throw new Error(`Unknown operation: ${operation}`);
+  }
 };
@@ -0,0 +1,434 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv2020, { ErrorObject } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { minimatch } from 'minimatch';
+import { DataRecord, Dataset, withRows } from './dataset';
+import { getSchemaPath, isSchemaFile, JsonSchema } from './jsonSchema';
+
+/**
+ * A way in which a record does not match its schema
+ */
+export interface ValidationError {
+  /** Index of the record; omitted for errors about the file as a whole */
+  record?: number;
+  /** Top-level field of the record the error is about, if any */
+  field?: string;
+  message: string;
+}
+
+/**
+ * Schemas of data files by glob pattern, e.g.
+ * `{ "sample-data/*.csv": "schemas/people.schema.json" }`. Patterns without
+ * a slash match file names in any folder.
+ */
+export type SchemaAssociations = Record<string, string>;
+
+/**
+ * What batch conversion does with records that don't match the schema of
+ * their file: write them anyway, refuse to convert the file, or leave them
+ * out and write them to a quarantine file
+ */
+export type InvalidRecordPolicy = 'keep' | 'refuse' | 'quarantine';
+
+/** Suffix of the file that quarantined records are written to */
+export const QUARANTINE_SUFFIX = '.invalid.json';
+
+/**
+ * A range of text, as offsets from the start of a file
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where a record and its fields are in the text of a file
+ */
+export interface RecordLocation {
+  record: TextSpan;
+  fields: Record<string, TextSpan>;
+}
+
+/**
+ * Find the schema of a data file: the first association whose pattern
+ * matches the file, or else its `<name>.schema.json` sidecar file
+ * @param filePath The data file
+ * @param associations Schemas by glob pattern
+ * @param rootPath Folder that patterns and schema paths are relative to;
+ * the folder of the file when omitted
+ */
+export function findSchemaPath(
+  filePath: string,
+  associations: SchemaAssociations = {},
+  rootPath = path.dirname(filePath)
+): string | undefined {
+  if (isSchemaFile(filePath)) {
+    return undefined;
+  }
+
+  const relativePath = path
+    .relative(rootPath, filePath)
+    .split(path.sep)
+    .join('/');
+  for (const [pattern, schemaPath] of Object.entries(associations)) {
+    if (
+      minimatch(relativePath, pattern, {
+        dot: true,
+        matchBase: !pattern.includes('/'),
+      })
+    ) {
+      return path.resolve(rootPath, schemaPath);
+    }
+  }
+
+  const sidecarPath = getSchemaPath(filePath);
+  return fs.existsSync(sidecarPath) ? sidecarPath : undefined;
+}
+
+/**
+ * Read a JSON Schema file
+ * @param schemaPath The schema file
+ */
+export function readSchema(schemaPath: string): JsonSchema {
+  try {
+    return JSON.parse(fs.readFileSync(schemaPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read the schema ${path.basename(schemaPath)}: ${
+        (error as Error).message
+      }`
+    );
+  }
+}
+
+/**
+ * Convert an error of the validator, at a path below a record, into a
+ * validation error
+ */
+function toValidationError(
+  error: ErrorObject,
+  segments: string[],
+  record?: number
+): ValidationError {
+  const missing =
+    error.params.missingProperty ?? error.params.additionalProperty;
+  const field = segments[0] ?? missing;
+  const location = segments.join('.');
+  return {
+    record,
+    ...(field !== undefined ? { field: String(field) } : {}),
+    message: location ? `${location} ${error.message}` : `${error.message}`,
+  };
+}
+
+const toSegments = (instancePath: string): string[] =>
+  instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+/**
+ * Validate records against a JSON Schema. Schemas of an array, such as the
+ * generated ones, are applied to all records at once, and other schemas to
+ * each record.
+ * @param records The records, e.g. the rows of a dataset
+ * @param schema The schema
+ */
+export function validateRecords(
+  records: DataRecord[],
+  schema: JsonSchema
+): ValidationError[] {
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  addFormats(ajv);
+  // The meta-schema is not needed, and other drafts would not be found
+  const body = { ...schema };
+  delete body.$schema;
+  const validate = ajv.compile(body);
+
+  if (body.type === 'array' || body.items || body.prefixItems) {
+    if (validate(records)) {
+      return [];
+    }
+    return (validate.errors ?? []).map(error => {
+      const [index, ...segments] = toSegments(error.instancePath);
+      return index === undefined
+        ? { message: `The records ${error.message}` }
+        : toValidationError(error, segments, Number(index));
+    });
+  }
+
+  return records.flatMap((record, index) =>
+    validate(record)
+      ? []
+      : (validate.errors ?? []).map(error =>
+          toValidationError(error, toSegments(error.instancePath), index)
+        )
+  );
+}
+
+/**
+ * Apply the policy for invalid records to a dataset before it is written.
+ * Refusing throws an error that describes the first problems, and
+ * quarantining writes the invalid records with their errors to a file.
+ * @param dataset The dataset read from a file
+ * @param schema The schema of the file
+ * @param policy What to do with invalid records
+ * @param quarantinePath Where quarantined records are written
+ */
+export function applyInvalidRecordPolicy(
+  dataset: Dataset,
+  schema: JsonSchema,
+  policy: InvalidRecordPolicy,
+  quarantinePath: string
+): Dataset {
+  if (policy === 'keep') {
+    return dataset;
+  }
+  const errors = validateRecords(dataset.rows, schema);
+  if (errors.length === 0) {
+    return dataset;
+  }
+
+  if (policy === 'refuse') {
+    const details = errors
+      .slice(0, 3)
+      .map(error =>
+        error.record !== undefined
+          ? `record ${error.record + 1}: ${error.message}`
+          : error.message
+      )
+      .join('; ');
+    throw new Error(
+      `${errors.length} validation errors (${details}${
+        errors.length > 3 ? '; ...' : ''
+      })`
+    );
+  }
+
+  const invalid = new Map<number, string[]>();
+  errors.forEach(({ record, message }) => {
+    if (record !== undefined) {
+      invalid.set(record, [...(invalid.get(record) ?? []), message]);
+    }
+  });
+  fs.writeFileSync(
+    quarantinePath,
+    JSON.stringify(
+      [...invalid].map(([record, messages]) => ({
+        record: record + 1,
+        errors: messages,
+        data: dataset.rows[record],
+      })),
+      null,
+      2
+    ) + '\n'
+  );
+  return withRows(
+    dataset,
+    dataset.rows.filter((_, index) => !invalid.has(index))
+  );
+}
+
+/**
+ * Get the path of the quarantine file for a converted file, e.g.
+ * `people.invalid.json` for `people.json`
+ * @param outputPath The output path of the conversion
+ */
+export function getQuarantinePath(outputPath: string): string {
+  const extension = path.extname(outputPath);
+  return (
+    (extension ? outputPath.slice(0, -extension.length) : outputPath) +
+    QUARANTINE_SUFFIX
+  );
+}
+
+/**
+ * Find the records and cells of a delimited file, such as CSV. Quoted
+ * fields may hold delimiters and line breaks.
+ * @param text The file content
+ * @param delimiter The column delimiter
+ * @param quote The quote character
+ */
+export function locateDelimitedRecords(
+  text: string,
+  delimiter: string,
+  quote = '"'
+): RecordLocation[] {
+  const rows: TextSpan[][] = [];
+  let row: TextSpan[] = [];
+  let start = 0;
+  let quoted = false;
+
+  for (let i = 0; i <= text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === quote && text[i + 1] === quote) {
+        i++;
+      } else if (char === quote) {
+        quoted = false;
+      }
+    } else if (char === quote && i === start) {
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push({ start, end: i });
+      i += delimiter.length - 1;
+      start = i + 1;
+    } else if (char === '\n' || char === '\r' || i === text.length) {
+      row.push({ start, end: i });
+      if (row.length > 1 || row[0].end > row[0].start) {
+        rows.push(row);
+      }
+      row = [];
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      start = i + 1;
+    }
+  }
+
+  const [header = [], ...records] = rows;
+  const unquote = (value: string) =>
+    value.startsWith(quote) && value.endsWith(quote) && value.length > 1
+      ? value
+          .slice(1, -1)
+          .split(quote + quote)
+          .join(quote)
+      : value;
+  const names = header.map(span => unquote(text.slice(span.start, span.end)));
+  return records.map(cells => ({
+    record: { start: cells[0].start, end: cells[cells.length - 1].end },
+    fields: Object.fromEntries(
+      cells.slice(0, names.length).map((span, index) => [names[index], span])
+    ),
+  }));
+}
+
+/**
+ * Find the records and their fields in a JSON document whose root is an
+ * array of records. Returns an empty list for other documents.
+ * @param text The file content
+ */
+export function locateJsonRecords(text: string): RecordLocation[] {
+  let i = 0;
+  const skipWhitespace = () => {
+    while (/\s/.test(text[i] ?? '')) {
+      i++;
+    }
+  };
+  const skipString = () => {
+    for (i++; i < text.length && text[i] !== '"'; i++) {
+      if (text[i] === '\\') {
+        i++;
+      }
+    }
+    i++;
+  };
+  const skipValue = () => {
+    if (text[i] === '"') {
+      skipString();
+      return;
+    }
+    if (text[i] !== '{' && text[i] !== '[') {
+      while (i < text.length && !/[\s,\]}]/.test(text[i])) {
+        i++;
+      }
+      return;
+    }
+    for (let depth = 0; i < text.length;) {
+      const char = text[i];
+      if (char === '"') {
+        skipString();
+        continue;
+      }
+      i++;
+      if (char === '{' || char === '[') {
+        depth++;
+      } else if ((char === '}' || char === ']') && --depth === 0) {
+        return;
+      }
+    }
+  };
+
+  skipWhitespace();
+  if (text[i] !== '[') {
+    return [];
+  }
+  i++;
+
+  const locations: RecordLocation[] = [];
+  for (skipWhitespace(); i < text.length && text[i] !== ']'; skipWhitespace()) {
+    if (text[i] === ',') {
+      i++;
+      continue;
+    }
+    const start = i;
+    const fields: Record<string, TextSpan> = {};
+    if (text[i] === '{') {
+      i++;
+      for (
+        skipWhitespace();
+        i < text.length && text[i] !== '}';
+        skipWhitespace()
+      ) {
+        if (text[i] === ',') {
+          i++;
+          continue;
+        }
+        const keyStart = i;
+        skipString();
+        const key = JSON.parse(text.slice(keyStart, i));
+        skipWhitespace();
+        i++; // The colon
+        skipWhitespace();
+        skipValue();
+        fields[key] = { start: keyStart, end: i };
+      }
+      i++;
+    } else {
+      skipValue();
+    }
+    locations.push({ record: { start, end: i }, fields });
+  }
+  return locations;
+}
+
+/**
+ * Find the records of a newline-delimited JSON file, one per line that
+ * holds a JSON object, along with their fields
+ * @param text The file content
+ */
+export function locateNdjsonRecords(text: string): RecordLocation[] {
+  const locations: RecordLocation[] = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const [location] = locateJsonRecords(`[${line}]`);
+    try {
+      const value = JSON.parse(line);
+      if (
+        location &&
+        typeof value === 'object' &&
+        value &&
+        !Array.isArray(value)
+      ) {
+        const shift = (span: TextSpan) => ({
+          start: span.start - 1 + offset,
+          end: span.end - 1 + offset,
+        });
+        locations.push({
+          record: shift(location.record),
+          fields: Object.fromEntries(
+            Object.entries(location.fields).map(([key, span]) => [
+              key,
+              shift(span),
+            ])
+          ),
+        });
+      }
+    } catch {
+      // The reader skips lines that are not JSON objects
+    }
+    offset += line.length + 1;
+  }
+  return locations;
+}
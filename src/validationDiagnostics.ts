@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { formatRegistry } from './formats';
+import { getFileDialect } from './formats/csv';
+import { readFileDataset } from './conversion';
+import {
+  getConversionSettings,
+  getDialectOverrides,
+  getSchemaForFile,
+  useWorkerThreads,
+  validateDataFiles,
+} from './settings';
+import {
+  locateDelimitedRecords,
+  locateJsonRecords,
+  locateNdjsonRecords,
+  readSchema,
+  RecordLocation,
+  validateRecords,
+  ValidationError,
+} from './validation';
+
+/** Most problems reported for one file */
+const MAX_DIAGNOSTICS = 1000;
+
+/**
+ * The result of validating a data file against its schema
+ */
+export interface FileValidation {
+  schemaPath: string;
+  errors: ValidationError[];
+}
+
+/**
+ * Reports the records of data files that don't match their JSON Schema as
+ * problems, on the cells or records they are about. Text files are
+ * validated when they are opened or saved, and any file, such as a
+ * workbook, with the validate command.
+ */
+export class ValidationDiagnostics implements vscode.Disposable {
+  private readonly _diagnostics =
+    vscode.languages.createDiagnosticCollection('datamorph');
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._disposables.push(
+      this._diagnostics,
+      vscode.workspace.onDidOpenTextDocument(document =>
+        this._validateDocument(document)
+      ),
+      vscode.workspace.onDidSaveTextDocument(document => {
+        this._validateDocument(document);
+        // Saving a schema updates the problems of the files it describes
+        vscode.workspace.textDocuments
+          .filter(
+            other =>
+              other !== document &&
+              this._isDataFile(other.uri) &&
+              getSchemaForFile(other.uri.fsPath) === document.uri.fsPath
+          )
+          .forEach(other => this._validateDocument(other));
+      }),
+      vscode.workspace.onDidCloseTextDocument(document =>
+        this._diagnostics.delete(document.uri)
+      ),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (
+          event.affectsConfiguration('dataconverter.schemas') ||
+          event.affectsConfiguration('dataconverter.validateData')
+        ) {
+          this._diagnostics.clear();
+          vscode.workspace.textDocuments.forEach(document =>
+            this._validateDocument(document)
+          );
+        }
+      })
+    );
+    vscode.workspace.textDocuments.forEach(document =>
+      this._validateDocument(document)
+    );
+  }
+
+  /**
+   * Validate a data file against its schema and report the problems
+   * @param fileUri The data file
+   * @returns The schema and errors, or `undefined` when the file has no
+   * schema
+   */
+  public async validate(
+    fileUri: vscode.Uri
+  ): Promise<FileValidation | undefined> {
+    const filePath = fileUri.fsPath;
+    const schemaPath = getSchemaForFile(filePath);
+    if (!schemaPath) {
+      this._diagnostics.delete(fileUri);
+      return undefined;
+    }
+
+    const schema = readSchema(schemaPath);
+    const dataset = await readFileDataset(
+      filePath,
+      getConversionSettings().read,
+      useWorkerThreads()
+    );
+    const errors = validateRecords(dataset.rows, schema);
+
+    const document = vscode.workspace.textDocuments.find(
+      open => open.uri.toString() === fileUri.toString()
+    );
+    const text = document?.getText();
+    const locations = text !== undefined ? this._locate(filePath, text) : [];
+    const toRange = ({ record, field }: ValidationError): vscode.Range => {
+      const location = record !== undefined ? locations[record] : undefined;
+      const span =
+        (field !== undefined ? location?.fields[field] : undefined) ??
+        location?.record;
+      return document && span
+        ? new vscode.Range(
+            document.positionAt(span.start),
+            document.positionAt(span.end)
+          )
+        : new vscode.Range(0, 0, 0, 0);
+    };
+
+    this._diagnostics.set(
+      fileUri,
+      errors.slice(0, MAX_DIAGNOSTICS).map(error => {
+        const diagnostic = new vscode.Diagnostic(
+          toRange(error),
+          error.record !== undefined
+            ? `Record ${error.record + 1}: ${error.message}`
+            : error.message,
+          vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = path.basename(schemaPath);
+        return diagnostic;
+      })
+    );
+    return { schemaPath, errors };
+  }
+
+  public dispose(): void {
+    while (this._disposables.length) {
+      this._disposables.pop()?.dispose();
+    }
+  }
+
+  private _isDataFile(uri: vscode.Uri): boolean {
+    return (
+      uri.scheme === 'file' &&
+      !!formatRegistry.getByPath(uri.fsPath)?.capabilities.read
+    );
+  }
+
+  /**
+   * Validate an open file, unless it is too large to read on every save
+   */
+  private async _validateDocument(
+    document: vscode.TextDocument
+  ): Promise<void> {
+    if (!validateDataFiles() || !this._isDataFile(document.uri)) {
+      return;
+    }
+    const threshold = getConversionSettings().streamThresholdBytes;
+    try {
+      if (threshold && fs.statSync(document.uri.fsPath).size >= threshold) {
+        return;
+      }
+      await this.validate(document.uri);
+    } catch (error) {
+      // Files that cannot be read, or schemas that are not valid, are
+      // reported as a problem at the start of the file
+      this._diagnostics.set(document.uri, [
+        new vscode.Diagnostic(
+          new vscode.Range(0, 0, 0, 0),
+          `Cannot validate ${path.basename(document.uri.fsPath)}: ${
+            (error as Error).message
+          }`,
+          vscode.DiagnosticSeverity.Warning
+        ),
+      ]);
+    }
+  }
+
+  /**
+   * Find where the records are in the text of a file, for the formats
+   * whose records can be found; problems of other files are reported at
+   * the start of the file
+   */
+  private _locate(filePath: string, text: string): RecordLocation[] {
+    const format = formatRegistry.getByPath(filePath);
+    if (format?.delimiter) {
+      const dialect = getFileDialect(format, filePath, getDialectOverrides());
+      return locateDelimitedRecords(text, dialect.delimiter, dialect.quote);
+    }
+    switch (format?.id) {
+      case 'json':
+        return locateJsonRecords(text);
+      case 'ndjson':
+        return locateNdjsonRecords(text);
+      default:
+        return [];
+    }
+  }
+}
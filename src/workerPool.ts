@@ -0,0 +1,305 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ConvertFileOptions } from './conversion';
+import { FlattenOptions, UnflattenOptions } from './flatten';
+import { FormatReadOptions } from './formatRegistry';
+
+/**
+ * A unit of work that can be executed on a worker thread. Tasks must be
+ * serializable, so they reference files and formats by path and id.
+ */
+export type WorkerTask =
+  | {
+      operation: 'convertFile';
+      sourcePath: string;
+      targetFormatId: string;
+      outputPath: string;
+      options: Omit<ConvertFileOptions, 'transform' | 'onProgress' | 'signal'>;
+    }
+  | {
+      operation: 'combineFiles';
+      sourcePaths: string[];
+      targetFormatId: string;
+      outputPath: string;
+      options: Omit<ConvertFileOptions, 'transform' | 'onProgress' | 'signal'>;
+    }
+  | { operation: 'readFile'; filePath: string; options: FormatReadOptions }
+  | { operation: 'readWorkbook'; filePath: string }
+  | {
+      operation: 'csvToJson';
+      data: string;
+      preserveTypes?: boolean;
+      unflatten?: UnflattenOptions;
+    }
+  | {
+      operation: 'jsonToCsv';
+      data: string;
+      delimiter?: string;
+      flatten?: FlattenOptions;
+      recordPath?: string;
+    }
+  | {
+      operation: 'excelToJson';
+      filePath: string;
+      sheetName?: string;
+      unflatten?: UnflattenOptions;
+    }
+  | {
+      operation: 'excelToCsv';
+      filePath: string;
+      sheetName?: string;
+      delimiter?: string;
+    }
+  | {
+      operation: 'jsonToExcel';
+      filePath: string;
+      outputPath: string;
+      flatten?: FlattenOptions;
+      recordPath?: string;
+    }
+  | { operation: 'csvToExcel'; filePath: string; outputPath: string };
+
+/**
+ * Progress reported by a task, in the shape of `vscode.Progress` reports
+ */
+export interface TaskProgress {
+  message?: string;
+  increment?: number;
+}
+
+/**
+ * Minimal cancellation token, compatible with `vscode.CancellationToken`
+ */
+export interface CancellationLike {
+  isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface RunTaskOptions {
+  onProgress?: (progress: TaskProgress) => void;
+  token?: CancellationLike;
+}
+
+/**
+ * Messages posted between the pool and its workers
+ */
+export type WorkerRequest = { id: number; task: WorkerTask };
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: TaskProgress }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Thrown when a task is cancelled before it completes
+ */
+export class CancellationError extends Error {
+  constructor() {
+    super('Conversion cancelled');
+    this.name = 'CancellationError';
+  }
+}
+
+interface Job {
+  id: number;
+  task: WorkerTask;
+  options: RunTaskOptions;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  cancellation?: { dispose(): void };
+}
+
+interface PooledWorker {
+  worker: Worker;
+  job?: Job;
+}
+
+/**
+ * A fixed-size pool of Node worker threads that run conversion tasks off the
+ * extension host thread. Workers are started on demand and reused.
+ */
+export class WorkerPool {
+  private readonly _workers: PooledWorker[] = [];
+  private readonly _queue: Job[] = [];
+  private _nextJobId = 1;
+  private _disposed = false;
+
+  constructor(
+    private readonly _scriptPath: string,
+    private readonly _size = Math.max(1, Math.min(os.cpus().length - 1, 4))
+  ) {}
+
+  /**
+   * Run a task on the next free worker
+   * @param task The task to run
+   * @param options Progress callback and cancellation token
+   */
+  public run<T>(task: WorkerTask, options: RunTaskOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (this._disposed) {
+        reject(new Error('Worker pool has been disposed'));
+        return;
+      }
+      if (options.token?.isCancellationRequested) {
+        reject(new CancellationError());
+        return;
+      }
+
+      const job: Job = {
+        id: this._nextJobId++,
+        task,
+        options,
+        resolve,
+        reject,
+      };
+      job.cancellation = options.token?.onCancellationRequested(() =>
+        this._cancel(job)
+      );
+
+      this._queue.push(job);
+      this._drain();
+    });
+  }
+
+  /**
+   * Terminate all workers and reject pending tasks
+   */
+  public dispose(): void {
+    this._disposed = true;
+    this._queue
+      .splice(0)
+      .forEach(job => this._settle(job, new Error('Worker pool disposed')));
+    this._workers.splice(0).forEach(slot => {
+      if (slot.job) {
+        this._settle(slot.job, new Error('Worker pool disposed'));
+      }
+      slot.worker.terminate();
+    });
+  }
+
+  private _drain(): void {
+    while (this._queue.length > 0) {
+      let slot = this._workers.find(candidate => !candidate.job);
+      if (!slot) {
+        if (this._workers.length >= this._size) {
+          return;
+        }
+        slot = this._startWorker();
+      }
+
+      const job = this._queue.shift()!;
+      slot.job = job;
+      slot.worker.ref();
+      slot.worker.postMessage({ id: job.id, task: job.task } as WorkerRequest);
+    }
+  }
+
+  private _startWorker(): PooledWorker {
+    const slot: PooledWorker = { worker: new Worker(this._scriptPath) };
+
+    // Don't keep the extension host alive for idle workers
+    slot.worker.unref();
+
+    slot.worker.on('message', (message: WorkerResponse) => {
+      const job = slot.job;
+      if (!job || job.id !== message.id) {
+        return;
+      }
+
+      switch (message.type) {
+        case 'progress':
+          job.options.onProgress?.(message.progress);
+          break;
+        case 'result':
+          slot.job = undefined;
+          slot.worker.unref();
+          this._settle(job, undefined, message.result);
+          this._drain();
+          break;
+        case 'error':
+          slot.job = undefined;
+          slot.worker.unref();
+          this._settle(job, new Error(message.message));
+          this._drain();
+          break;
+      }
+    });
+
+    // A crashed worker fails its current job and is replaced on demand
+    const onFailure = (error: Error) => {
+      this._removeWorker(slot);
+      if (slot.job) {
+        this._settle(slot.job, error);
+        slot.job = undefined;
+      }
+      this._drain();
+    };
+    slot.worker.on('error', onFailure);
+    slot.worker.on('exit', code => {
+      if (this._workers.includes(slot)) {
+        onFailure(new Error(`Worker stopped with exit code ${code}`));
+      }
+    });
+
+    this._workers.push(slot);
+    return slot;
+  }
+
+  private _cancel(job: Job): void {
+    const queueIndex = this._queue.indexOf(job);
+    if (queueIndex >= 0) {
+      this._queue.splice(queueIndex, 1);
+      this._settle(job, new CancellationError());
+      return;
+    }
+
+    // A running task can only be stopped by terminating its worker. The
+    // task settles once the worker has stopped, so that the files it was
+    // writing can be removed.
+    const slot = this._workers.find(candidate => candidate.job === job);
+    if (slot) {
+      slot.job = undefined;
+      this._removeWorker(slot);
+      slot.worker
+        .terminate()
+        .finally(() => this._settle(job, new CancellationError()));
+      this._drain();
+    }
+  }
+
+  private _removeWorker(slot: PooledWorker): void {
+    const index = this._workers.indexOf(slot);
+    if (index >= 0) {
+      this._workers.splice(index, 1);
+    }
+  }
+
+  private _settle(job: Job, error?: Error, result?: unknown): void {
+    job.cancellation?.dispose();
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(result);
+    }
+  }
+}
+
+let sharedPool: WorkerPool | undefined;
+
+/**
+ * Get the pool shared by the extension, starting it on first use
+ */
+export function getWorkerPool(): WorkerPool {
+  if (!sharedPool) {
+    sharedPool = new WorkerPool(path.join(__dirname, 'conversionWorker.js'));
+  }
+  return sharedPool;
+}
+
+/**
+ * Terminate the shared pool, e.g. when the extension is deactivated
+ */
+export function disposeWorkerPool(): void {
+  sharedPool?.dispose();
+  sharedPool = undefined;
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TaskProgress, WorkerTask } from './workerPool';
+import { combineFiles, convertFile } from './conversion';
+import { formatRegistry } from './formats';
+import { parseCsv, serializeCsv } from './formats/csv';
+import { parseJson, toSheets } from './formats/json';
+import { unflattenDataset } from './flatten';
+import { parseExactJson } from './precision';
+import {
+  readAllSheets,
+  readSheet,
+  writeSheets,
+  writeSingleSheet,
+} from './formats/excel';
+
+/**
+ * Execute a worker task. Runs on a worker thread, or in the extension host
+ * when worker threads are disabled.
+ * @param task The task to execute
+ * @param onProgress Receives progress reports
+ */
+export async function executeTask(
+  task: WorkerTask,
+  onProgress: (progress: TaskProgress) => void = () => {}
+): Promise<unknown> {
+  switch (task.operation) {
+    case 'convertFile':
+      return convertFile(
+        task.sourcePath,
+        task.targetFormatId,
+        task.outputPath,
+        {
+          ...task.options,
+          onProgress,
+        }
+      );
+    case 'combineFiles':
+      return combineFiles(
+        task.sourcePaths,
+        task.targetFormatId,
+        task.outputPath,
+        {
+          ...task.options,
+          onProgress,
+        }
+      );
+    case 'readFile': {
+      const format = formatRegistry.getByPath(task.filePath);
+      if (!format?.read) {
+        throw new Error(
+          `Unsupported file type: ${path.basename(task.filePath)}`
+        );
+      }
+      return format.read(task.filePath, task.options);
+    }
+    case 'readWorkbook':
+      return readAllSheets(task.filePath);
+    case 'csvToJson': {
+      const dataset = await parseCsv(task.data, task.preserveTypes);
+      return (
+        task.unflatten ? unflattenDataset(dataset, task.unflatten) : dataset
+      ).rows;
+    }
+    case 'jsonToCsv':
+      return serializeCsv(
+        parseJson(task.data, task.recordPath),
+        task.delimiter,
+        task.flatten
+      );
+    case 'excelToJson': {
+      const dataset = readSheet(task.filePath, task.sheetName);
+      return (
+        task.unflatten ? unflattenDataset(dataset, task.unflatten) : dataset
+      ).rows;
+    }
+    case 'excelToCsv':
+      return serializeCsv(
+        readSheet(task.filePath, task.sheetName),
+        task.delimiter
+      );
+    case 'jsonToExcel': {
+      const jsonString = fs.readFileSync(task.filePath, 'utf8');
+      const sheets = task.recordPath
+        ? []
+        : toSheets(parseExactJson(jsonString));
+      if (sheets.length > 0) {
+        writeSheets(sheets, task.outputPath, task.flatten);
+      } else {
+        writeSingleSheet(
+          parseJson(jsonString, task.recordPath),
+          task.outputPath,
+          task.flatten
+        );
+      }
+      return undefined;
+    }
+    case 'csvToExcel':
+      writeSingleSheet(
+        await parseCsv(fs.readFileSync(task.filePath, 'utf8')),
+        task.outputPath
+      );
+      return undefined;
+    default:
+      throw new Error(
+        `Unknown operation: ${(task as { operation: string }).operation}`
+      );
+  }
+}